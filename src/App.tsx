@@ -12,17 +12,24 @@ import DeathManager from "./components/ui/DeathManager";
 import GameItemTooltip from "./components/ui/GameItemTooltip";
 import QuestLog from "./components/ui/QuestLog";
 import MapNameLabel from "./components/ui/MapNameLabel";
+import DebugStats from "./components/ui/DebugStats";
+import BossHealthBar from "./components/ui/BossHealthBar";
 import SkillsWindow from "./components/ui/Skills";
 import Resources from "./components/ui/Resources";
 import Creatures from "./components/ui/Creatures";
+import CombatAnalytics from "./components/ui/CombatAnalytics";
 import CurrencyDisplay from "./components/ui/CurrencyDisplay";
 import { eventBus } from "./utils/EventBus";
+import { useGameStore } from "./stores/gameStore";
 import ExperiencePopups from "./components/ui/ExperiencePopup";
 import Notifications from "./components/ui/Notifications";
 import Outfits from "./components/ui/Outfits";
 import StatSellerInterface from "./components/ui/npc-dialogs/StatSellerInterface";
+import ClassTrainerDialog from "./components/ui/npc-dialogs/ClassTrainerDialog";
+import CompanionHireDialog from "./components/ui/npc-dialogs/CompanionHireDialog";
 import QuestGiverDialog from "./components/ui/npc-dialogs/QuestGiverDialog";
 import Shop from "./components/ui/npc-dialogs/Shop";
+import CharacterSelect from "./components/ui/CharacterSelect";
 
 function App() {
   const [windowSize, setWindowSize] = React.useState({
@@ -72,6 +79,19 @@ function App() {
     };
   }, []);
 
+  // F3 toggles the in-world debug overlay
+  React.useEffect(() => {
+    const handleDebugToggle = (e: KeyboardEvent) => {
+      if (e.key !== "F3") return;
+
+      e.preventDefault();
+      useGameStore.getState().toggleDebugOverlay();
+    };
+
+    window.addEventListener("keydown", handleDebugToggle);
+    return () => window.removeEventListener("keydown", handleDebugToggle);
+  }, []);
+
   // Add global context menu prevention
   React.useEffect(() => {
     // Prevent context menu throughout the entire application
@@ -98,6 +118,8 @@ function App() {
             <div className="ui-overlay">
               <MessageLog />
               <MapNameLabel />
+              <DebugStats />
+              <BossHealthBar />
               <Resources />
               <ExperiencePopups />
               <Notifications />
@@ -112,6 +134,8 @@ function App() {
               <DeathManager />
               <GameItemTooltip />
               <StatSellerInterface />
+              <ClassTrainerDialog />
+              <CompanionHireDialog />
               <QuestGiverDialog
                 npcId={questGiverDialog.npcId}
                 npcName={questGiverDialog.npcName}
@@ -121,6 +145,8 @@ function App() {
               />
               <QuestLog />
               <Creatures />
+              <CombatAnalytics />
+              <CharacterSelect />
             </div>
           </div>
           <div className="ui-sidebar">
@@ -1,14 +1,25 @@
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
 
+/**
+ * Options for casts that don't come from the player, e.g. monster spells
+ */
+export interface AbilityCastOptions {
+  /** Direction in radians, used instead of the caster's facing */
+  angle?: number;
+  /** Marks the cast as hostile: it hits the player instead of monsters and reports hits here */
+  onPlayerHit?: () => void;
+}
+
 export interface AnimationStrategy {
   /**
    * Plays the animation for the ability
    * @param scene The current game scene
-   * @param playerCharacter The player character
+   * @param playerCharacter The player character (the target of hostile casts)
    * @param ability The ability being used
    * @param x The x position to play the animation at
    * @param y The y position to play the animation at
+   * @param options Optional aim and targeting overrides for non-player casts
    * @returns A promise that resolves when the animation is complete
    */
   play(
@@ -17,7 +28,8 @@ export interface AnimationStrategy {
     ability: Ability,
     x: number,
     y: number,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void>;
 
   /**
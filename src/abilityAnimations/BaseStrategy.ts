@@ -1,7 +1,8 @@
-import { AnimationStrategy } from "./AnimationStrategy";
+import { AbilityCastOptions, AnimationStrategy } from "./AnimationStrategy";
 import { Monster } from "@/entities/Monster";
+import { MonsterThreatComponent } from "@/entities/monster/MonsterThreatComponent";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
-import { Ability } from "@/types";
+import { Ability, DamageBreakdown, DamageType } from "@/types";
 import { DamageFormulas } from "@/utils/formulas";
 import { useGameStore } from "@/stores/gameStore";
 import { eventBus } from "@/utils/EventBus";
@@ -23,7 +24,8 @@ export abstract class BaseStrategy implements AnimationStrategy {
     ability: Ability,
     x: number,
     y: number,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void>;
 
   /**
@@ -50,11 +52,12 @@ export abstract class BaseStrategy implements AnimationStrategy {
       const skills = store.playerCharacter.skills;
 
       // Calculate base damage using our formulas
+      const weaponType = ability.skillId || "meleeWeapons";
       const baseDamage = DamageFormulas.calculatePlayerAbilityDamage(
         ability.damage || 0,
         equipment,
         skills,
-        ability.skillId || "meleeWeapons"
+        weaponType
       );
 
       // Apply kill bonus to ability damage
@@ -69,19 +72,81 @@ export abstract class BaseStrategy implements AnimationStrategy {
         isMagicDamage
       );
 
+      // Resistances and armor are applied again by takeDamage
+      const mitigation = monster.calculateMitigation(
+        finalDamage,
+        isMagicDamage,
+        ability.damageType
+      );
+
       // Apply damage to monster
-      monster.takeDamage(finalDamage, isMagicDamage);
+      monster.takeDamage(finalDamage, isMagicDamage, ability.damageType);
+
+      this.reportAbilityDamage(monster, ability, {
+        ...DamageFormulas.getPlayerDamageComponents(equipment, skills, weaponType),
+        baseDamage: ability.damage || 0,
+        rawDamage: baseDamage,
+        critMultiplier: 1,
+        killBonusPercent: KillBonusService.getKillBonuses(monster.monsterType).damageBonus,
+        killBonusDamage: bonusedDamage - baseDamage,
+        elementalMultiplier: mitigation.elementalMultiplier,
+        armorReduction: bonusedDamage - finalDamage + mitigation.armorReduction,
+        damageType: ability.damageType || DamageType.PHYSICAL,
+        isMagic: isMagicDamage,
+        finalDamage: mitigation.finalDamage,
+      });
+
+      if (ability.statusEffect) {
+        monster.applyStatusEffect(ability.statusEffect, ability.id);
+      }
+
+      // Taunts pull the monster off whoever it was fighting
+      const gameScene = monster.scene as Phaser.Scene & { playerCharacter?: PlayerCharacter };
+      if (ability.taunt && gameScene.playerCharacter) {
+        monster.components.get<MonsterThreatComponent>("threat")?.taunt(gameScene.playerCharacter);
+      }
 
-      // Show damage effect
-      this.showDamageEffect(monster.scene, monster, finalDamage);
+      // Show the damage that landed after resistances, as the combat log does
+      this.showDamageEffect(monster.scene, monster, mitigation.finalDamage);
 
       // Award skill experience
-      this.awardSkillExperience(ability.skillId || "meleeWeapons", finalDamage);
+      this.awardSkillExperience(ability.skillId || "meleeWeapons", mitigation.finalDamage);
     } catch (error) {
       console.error("Error in BaseStrategy.applyAbilityDamageToMonster:", error);
     }
   }
 
+  /**
+   * Report ability damage to the combat log and session analytics
+   */
+  protected reportAbilityDamage(
+    monster: Monster,
+    ability: Ability,
+    breakdown: DamageBreakdown
+  ): void {
+    eventBus.emit("combat.damage.dealt", {
+      damage: breakdown.finalDamage,
+      target: monster.monsterName,
+      monsterType: monster.monsterType,
+      attackType: ability.name,
+      abilityId: ability.id,
+      outcome: "hit",
+      breakdown,
+    });
+  }
+
+  /**
+   * Report flat ability damage (passed straight to takeDamage, without player stats)
+   */
+  protected reportFlatAbilityDamage(monster: Monster, ability: Ability, amount: number): void {
+    const mitigation = monster.calculateMitigation(amount, false, ability.damageType);
+    this.reportAbilityDamage(
+      monster,
+      ability,
+      DamageFormulas.createFlatDamageBreakdown(amount, mitigation, ability.damageType)
+    );
+  }
+
   /**
    * Award skill experience for dealing damage
    */
@@ -219,7 +219,8 @@ export class FireWallAbility extends BaseStrategy {
             wallLength,
             wallWidth,
             damage,
-            affectedMonsters
+            affectedMonsters,
+            ability
           );
 
           // Reset affected monsters set after each damage application
@@ -313,7 +314,8 @@ export class FireWallAbility extends BaseStrategy {
     wallLength: number,
     wallWidth: number,
     damage: number,
-    affectedMonsters: Set<Monster>
+    affectedMonsters: Set<Monster>,
+    ability: Ability
   ): void {
     try {
       const gameScene = scene as any;
@@ -339,7 +341,11 @@ export class FireWallAbility extends BaseStrategy {
         if (distToWall <= wallWidth / 2 + 20) {
           // Apply damage
           if (monster.takeDamage) {
-            monster.takeDamage(damage);
+            monster.takeDamage(damage, false, ability.damageType);
+            this.reportFlatAbilityDamage(monster, ability, damage);
+            if (ability.statusEffect) {
+              monster.applyStatusEffect(ability.statusEffect, ability.id);
+            }
             // Use BaseStrategy's implementation
             this.showDamageEffect(scene, monster, damage);
 
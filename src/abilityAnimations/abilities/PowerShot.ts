@@ -127,7 +127,7 @@ export class PowerShotAbility extends BaseStrategy {
               trail.fillCircle(currentX, currentY, 3);
 
               // Check for hits with monsters at current position
-              this.checkForMonsterHits(scene, currentX, currentY, facingAngle, damage);
+              this.checkForMonsterHits(scene, currentX, currentY, facingAngle, damage, ability);
             } catch (error) {
               console.error("Error in projectile onUpdate:", error);
             }
@@ -195,7 +195,8 @@ export class PowerShotAbility extends BaseStrategy {
     x: number,
     y: number,
     angle: number,
-    damage: number
+    damage: number,
+    ability: Ability
   ): void {
     try {
       const gameScene = scene as any;
@@ -214,7 +215,11 @@ export class PowerShotAbility extends BaseStrategy {
         if (distance <= hitDistance) {
           // Register hit
           if (monster.takeDamage) {
-            monster.takeDamage(damage);
+            monster.takeDamage(damage, false, ability.damageType);
+            this.reportFlatAbilityDamage(monster, ability, damage);
+            if (ability.statusEffect) {
+              monster.applyStatusEffect(ability.statusEffect, ability.id);
+            }
             // Use BaseStrategy's showDamageEffect instead of reimplementing it
             this.showDamageEffect(scene, monster, damage);
 
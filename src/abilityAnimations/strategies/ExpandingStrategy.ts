@@ -1,7 +1,9 @@
-import { AnimationStrategy } from "../AnimationStrategy";
+import { AbilityCastOptions, AnimationStrategy } from "../AnimationStrategy";
 import { Monster } from "@/entities/Monster";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
 
 export class ExpandingStrategy implements AnimationStrategy {
   // Keep track of monsters that have been hit by each ability ID
@@ -17,7 +19,8 @@ export class ExpandingStrategy implements AnimationStrategy {
     ability: Ability,
     x: number,
     y: number,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void> {
     if (!scene || !playerCharacter) return;
 
@@ -43,7 +46,7 @@ export class ExpandingStrategy implements AnimationStrategy {
 
       if (arcAngle < Math.PI * 2) {
         // This is a partial arc like Energy Wave
-        facingAngle = this.getFacingAngle(playerCharacter);
+        facingAngle = options?.angle ?? this.getFacingAngle(playerCharacter);
         const halfArc = arcAngle / 2;
         startAngle = facingAngle - halfArc;
         endAngle = facingAngle + halfArc;
@@ -87,7 +90,9 @@ export class ExpandingStrategy implements AnimationStrategy {
         });
 
         // Pre-filter monsters to only those in the general direction of the cone
-        this.prefilterMonstersInCone(scene, x, y, facingAngle, arcAngle, endRadius, ability.id);
+        if (!options?.onPlayerHit) {
+          this.prefilterMonstersInCone(scene, x, y, facingAngle, arcAngle, endRadius, ability.id);
+        }
       }
 
       // Create ring object that will expand
@@ -169,12 +174,26 @@ export class ExpandingStrategy implements AnimationStrategy {
       }
 
       // For each step in animation, check for hits at specific points
-      if (ability.id === "energyWave") {
+      if (ability.id === "energyWave" || options?.onPlayerHit) {
+        // Hostile casts can only hit the player once
+        let playerHit = false;
+
         hitPositions.forEach((pos, index) => {
           // Delay each hit check to match animation timing
           const checkDelay = Math.floor((index / (hitPositions.length - 1)) * expansionTime);
 
           scene.time.delayedCall(checkDelay, () => {
+            if (options?.onPlayerHit) {
+              if (
+                !playerHit &&
+                this.isPlayerInWave(playerCharacter, ability, pos, facingAngle, arcAngle)
+              ) {
+                playerHit = true;
+                options.onPlayerHit();
+              }
+              return;
+            }
+
             this.checkForHits(
               scene,
               playerCharacter,
@@ -442,7 +461,25 @@ export class ExpandingStrategy implements AnimationStrategy {
 
           // Apply damage
           if (monster.takeDamage) {
-            monster.takeDamage(damage);
+            monster.takeDamage(damage, false, ability.damageType);
+
+            const mitigation = monster.calculateMitigation(damage, false, ability.damageType);
+            eventBus.emit("combat.damage.dealt", {
+              damage: mitigation.finalDamage,
+              target: monster.monsterName,
+              monsterType: monster.monsterType,
+              attackType: ability.name,
+              abilityId: ability.id,
+              outcome: "hit",
+              breakdown: DamageFormulas.createFlatDamageBreakdown(
+                damage,
+                mitigation,
+                ability.damageType
+              ),
+            });
+            if (ability.statusEffect) {
+              monster.applyStatusEffect(ability.statusEffect, ability.id);
+            }
             this.showDamageEffect(scene, monster, damage);
           }
 
@@ -456,6 +493,44 @@ export class ExpandingStrategy implements AnimationStrategy {
     }
   }
 
+  /**
+   * Checks whether the player is on the wave front, for hostile casts
+   */
+  private isPlayerInWave(
+    playerCharacter: PlayerCharacter,
+    ability: Ability,
+    wave: { radius: number; x: number; y: number },
+    facingAngle: number,
+    arcAngle: number
+  ): boolean {
+    try {
+      if (playerCharacter.isDead) return false;
+
+      const hitDistanceTolerance = ability.animationConfig?.hitDistanceTolerance || 8;
+      const distance = Phaser.Math.Distance.Between(
+        wave.x,
+        wave.y,
+        playerCharacter.x,
+        playerCharacter.y
+      );
+
+      // Inside the ring counts too, so stepping through the wave doesn't dodge it
+      if (distance > wave.radius + hitDistanceTolerance) return false;
+      if (arcAngle >= Math.PI * 2) return true;
+
+      let angleDiff =
+        Phaser.Math.Angle.Between(wave.x, wave.y, playerCharacter.x, playerCharacter.y) -
+        facingAngle;
+      while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
+      while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+
+      return Math.abs(angleDiff) <= arcAngle / 2;
+    } catch (error) {
+      console.error("Error in ExpandingStrategy.isPlayerInWave:", error);
+      return false;
+    }
+  }
+
   private showDamageEffect(scene: Phaser.Scene, target: any, damage: number): void {
     try {
       // Create damage text
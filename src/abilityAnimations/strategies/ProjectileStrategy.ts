@@ -1,4 +1,4 @@
-import { AnimationStrategy } from "../AnimationStrategy";
+import { AbilityCastOptions, AnimationStrategy } from "../AnimationStrategy";
 import { Monster } from "@/entities/Monster";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
@@ -11,7 +11,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
     ability: Ability,
     x: number,
     y: number,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void> {
     if (!scene || !playerCharacter) return;
 
@@ -20,8 +21,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
       const config = ability.animationConfig || {};
       const effectDuration = config.effectDuration || 1000;
 
-      // Get the direction the player is facing
-      const facingAngle = this.getFacingAngle(playerCharacter);
+      // Get the direction the player is facing, unless the cast is aimed
+      const facingAngle = options?.angle ?? this.getFacingAngle(playerCharacter);
 
       // Create the projectile
       const projectile = this.createProjectile(scene, x, y, facingAngle, config);
@@ -47,7 +48,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
         facingAngle,
         playerCharacter,
         ability,
-        activeAnimations
+        activeAnimations,
+        options
       );
     } catch (error) {
       console.error("Error in ProjectileStrategy.play:", error);
@@ -97,7 +99,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
     facingAngle: number,
     playerCharacter: PlayerCharacter,
     ability: Ability,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void> {
     try {
       const gameScene = scene as any;
@@ -119,14 +122,36 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
             facingAngle,
             ability,
             activeAnimations,
-            null
+            null,
+            options
           );
           hasHit = true;
         });
       }
 
+      // Hostile casts collide with the player instead of monsters
+      if (options?.onPlayerHit) {
+        scene.physics.add.overlap(projectile, playerCharacter, () => {
+          if (!hasHit && !playerCharacter.isDead) {
+            hasHit = true;
+            options.onPlayerHit?.();
+            this.handleProjectileHit(
+              scene,
+              projectile,
+              trail,
+              facingAngle,
+              ability,
+              activeAnimations,
+              null,
+              options,
+              true
+            );
+          }
+        });
+      }
+
       // Set up collision with monsters
-      if (gameScene.monsters) {
+      if (gameScene.monsters && !options?.onPlayerHit) {
         scene.physics.add.overlap(projectile, gameScene.monsters, (proj, monster) => {
           if (!hasHit) {
             this.handleProjectileHit(
@@ -142,7 +167,11 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
 
             // Apply damage to the monster
             if ((monster as Monster).takeDamage) {
-              (monster as Monster).takeDamage(damage);
+              (monster as Monster).takeDamage(damage, false, ability.damageType);
+              this.reportFlatAbilityDamage(monster as Monster, ability, damage);
+              if (ability.statusEffect) {
+                (monster as Monster).applyStatusEffect(ability.statusEffect, ability.id);
+              }
               this.showDamageEffect(scene, monster, damage);
             }
           }
@@ -159,7 +188,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
             facingAngle,
             ability,
             activeAnimations,
-            null
+            null,
+            options
           );
           hasHit = true;
         }
@@ -175,9 +205,9 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
         loop: true,
       });
 
-      // Maximum distance check
-      const startX = playerCharacter.x;
-      const startY = playerCharacter.y;
+      // Maximum distance check, measured from where the projectile was launched
+      const startX = projectile.x;
+      const startY = projectile.y;
 
       return new Promise((resolve) => {
         // Create a timer to check distance and cleanup
@@ -202,7 +232,8 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
                   facingAngle,
                   ability,
                   activeAnimations,
-                  null
+                  null,
+                  options
                 );
               }
 
@@ -253,7 +284,9 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
     facingAngle: number,
     ability: Ability,
     activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
-    hitMonster: Monster | null
+    hitMonster: Monster | null,
+    options?: AbilityCastOptions,
+    hitPlayer: boolean = false
   ): void {
     try {
       const config = ability.animationConfig || {};
@@ -325,20 +358,30 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
           },
         });
 
-        // Apply area damage to monsters in radius (if not already hit directly)
-        if (hitMonster) {
+        // Hostile explosions only threaten the player (if not already hit directly)
+        if (options?.onPlayerHit) {
+          if (!hitPlayer) {
+            this.applyAreaDamageToPlayer(
+              scene,
+              projectile.x,
+              projectile.y,
+              explosionRadius,
+              options
+            );
+          }
+        } else if (hitMonster) {
           // Apply damage to other monsters in range
           this.applyAreaDamage(
             scene,
             projectile.x,
             projectile.y,
             explosionRadius,
-            ability.damage,
+            ability,
             hitMonster
           );
         } else {
           // Apply damage to all monsters in range
-          this.applyAreaDamage(scene, projectile.x, projectile.y, explosionRadius, ability.damage);
+          this.applyAreaDamage(scene, projectile.x, projectile.y, explosionRadius, ability);
         }
       }
 
@@ -367,7 +410,7 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
     x: number,
     y: number,
     radius: number,
-    damage: number,
+    ability: Ability,
     excludeMonster: Monster | null = null
   ): void {
     try {
@@ -386,10 +429,14 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
         if (distance <= radius) {
           // Apply damage with falloff based on distance
           const falloff = 1 - distance / radius;
-          const actualDamage = Math.max(1, Math.floor(damage * falloff));
+          const actualDamage = Math.max(1, Math.floor(ability.damage * falloff));
 
           if (monster.takeDamage) {
-            monster.takeDamage(actualDamage);
+            monster.takeDamage(actualDamage, false, ability.damageType);
+            this.reportFlatAbilityDamage(monster, ability, actualDamage);
+            if (ability.statusEffect) {
+              monster.applyStatusEffect(ability.statusEffect, ability.id);
+            }
             this.showDamageEffect(scene, monster, actualDamage);
           }
         }
@@ -399,6 +446,25 @@ export class ProjectileStrategy extends BaseStrategy implements AnimationStrateg
     }
   }
 
+  private applyAreaDamageToPlayer(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    radius: number,
+    options: AbilityCastOptions
+  ): void {
+    try {
+      const { playerCharacter } = scene as Phaser.Scene & { playerCharacter?: PlayerCharacter };
+      if (!playerCharacter || playerCharacter.isDead) return;
+
+      if (Phaser.Math.Distance.Between(x, y, playerCharacter.x, playerCharacter.y) <= radius) {
+        options.onPlayerHit?.();
+      }
+    } catch (error) {
+      console.error("Error in ProjectileStrategy.applyAreaDamageToPlayer:", error);
+    }
+  }
+
   getObjectTypesForPositioning(): string[] {
     return []; // No objects need repositioning
   }
@@ -1,4 +1,4 @@
-import { AnimationStrategy } from "../AnimationStrategy";
+import { AbilityCastOptions, AnimationStrategy } from "../AnimationStrategy";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
 
@@ -9,7 +9,8 @@ export class TileGridStrategy implements AnimationStrategy {
     ability: Ability,
     x: number,
     y: number,
-    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    options?: AbilityCastOptions
   ): Promise<void> {
     if (!scene || !playerCharacter) return;
 
@@ -32,6 +33,14 @@ export class TileGridStrategy implements AnimationStrategy {
         0
       );
 
+      // Hostile casts hit the player if they stand on an affected tile
+      if (
+        options?.onPlayerHit &&
+        this.isPlayerOnTiles(playerCharacter, [...innerTiles, ...outerTiles], tileSize)
+      ) {
+        options.onPlayerHit();
+      }
+
       // Store active animation objects
       activeAnimations.set(ability.id, gameObjects);
 
@@ -50,6 +59,20 @@ export class TileGridStrategy implements AnimationStrategy {
     }
   }
 
+  private isPlayerOnTiles(
+    playerCharacter: PlayerCharacter,
+    tiles: Array<{ x: number; y: number }>,
+    tileSize: number
+  ): boolean {
+    if (playerCharacter.isDead) return false;
+
+    return tiles.some(
+      (tile) =>
+        Math.abs(tile.x - playerCharacter.x) <= tileSize / 2 &&
+        Math.abs(tile.y - playerCharacter.y) <= tileSize / 2
+    );
+  }
+
   private getInnerTiles(
     centerX: number,
     centerY: number,
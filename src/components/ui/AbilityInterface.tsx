@@ -60,8 +60,7 @@ const AbilitySlot: React.FC<AbilitySlotProps> = ({
           <div className="ability-tooltip-stats">
             {isSpell && (ability as any).healing && `Healing: ${(ability as any).healing} | `}
             {ability.damage && `Damage: ${ability.damage} | `}
-            Cooldown: {ability.cooldown}s
-            {(ability as any).manaCost && ` | Mana: ${(ability as any).manaCost}`}
+            Cooldown: {ability.cooldown}s{ability.manaCost ? ` | Mana: ${ability.manaCost}` : null}
           </div>
         </div>
       )}
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { useEventBus } from "../../hooks/useEventBus";
+
+interface BossEncounterState {
+  id: string;
+  name: string;
+  phaseName: string;
+  health: number;
+  maxHealth: number;
+  enraged: boolean;
+}
+
+const BossHealthBar: React.FC = () => {
+  const [boss, setBoss] = useState<BossEncounterState | null>(null);
+
+  useEventBus(
+    "boss.encounter.started",
+    (data: { id: string; name: string; phaseName: string; health: number; maxHealth: number }) => {
+      setBoss({
+        id: data.id,
+        name: data.name,
+        phaseName: data.phaseName,
+        health: data.health,
+        maxHealth: data.maxHealth,
+        enraged: false,
+      });
+    }
+  );
+
+  useEventBus("boss.health.changed", (data: { id: string; health: number; maxHealth: number }) => {
+    setBoss((prev) =>
+      prev && prev.id === data.id
+        ? { ...prev, health: data.health, maxHealth: data.maxHealth }
+        : prev
+    );
+  });
+
+  useEventBus("boss.phase.changed", (data: { id: string; phaseName: string }) => {
+    setBoss((prev) =>
+      prev && prev.id === data.id ? { ...prev, phaseName: data.phaseName } : prev
+    );
+  });
+
+  useEventBus("boss.enraged", (data: { id: string }) => {
+    setBoss((prev) => (prev && prev.id === data.id ? { ...prev, enraged: true } : prev));
+  });
+
+  useEventBus("boss.encounter.ended", (data: { id: string }) => {
+    setBoss((prev) => (prev && prev.id === data.id ? null : prev));
+  });
+
+  if (!boss) return null;
+
+  const percent = Math.max(0, Math.min(100, (boss.health / boss.maxHealth) * 100));
+
+  return (
+    <div className={`boss-health-bar ${boss.enraged ? "enraged" : ""}`}>
+      <div className="boss-health-bar-header">
+        <span className="boss-name">👑 {boss.name}</span>
+        <span className="boss-phase">
+          {boss.phaseName}
+          {boss.enraged && " · Enraged"}
+        </span>
+      </div>
+      <div className="boss-health-bar-track">
+        <div className="boss-health-bar-fill" style={{ width: `${percent}%` }} />
+        <span className="boss-health-bar-text">
+          {Math.ceil(boss.health)} / {boss.maxHealth}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default BossHealthBar;
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { useGameStore } from "../../stores/gameStore";
+import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { MapService } from "../../services/MapService";
+import {
+  MAX_CHARACTER_NAME_LENGTH,
+  MAX_CHARACTER_SLOTS,
+  SaveService,
+} from "../../services/SaveService";
+import { CharacterSlot, Classes } from "@/types";
+
+const CLASS_OPTIONS = [Classes.KNIGHT, Classes.MAGE, Classes.RANGER];
+
+const formatClassName = (characterClass: Classes): string =>
+  characterClass.charAt(0).toUpperCase() + characterClass.slice(1);
+
+interface CharacterCardProps {
+  character: CharacterSlot;
+  isSelected: boolean;
+  canDuplicate: boolean;
+  onSelect: () => void;
+  onPlay: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const CharacterCard: React.FC<CharacterCardProps> = ({
+  character,
+  isSelected,
+  canDuplicate,
+  onSelect,
+  onPlay,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const availableOutfits = useGameStore((state) => state.outfitState.availableOutfits);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState(character.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const outfit = availableOutfits[character.outfitId] || availableOutfits.default;
+
+  const submitRename = () => {
+    if (renameValue.trim()) {
+      onRename(renameValue);
+    }
+    setIsRenaming(false);
+  };
+
+  return (
+    <div className={`character-card ${isSelected ? "selected" : ""}`} onClick={onSelect}>
+      <div className="character-preview">
+        {outfit?.previewImage ? (
+          <img src={outfit.previewImage} alt={outfit.name} />
+        ) : (
+          <div className="character-preview-placeholder">?</div>
+        )}
+      </div>
+
+      <div className="character-info">
+        {isRenaming ? (
+          <input
+            className="character-name-input"
+            value={renameValue}
+            maxLength={MAX_CHARACTER_NAME_LENGTH}
+            autoFocus
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onBlur={submitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitRename();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+          />
+        ) : (
+          <div className="character-name">{character.name}</div>
+        )}
+        <div className="character-details">
+          Level {character.level} {formatClassName(character.class)}
+        </div>
+        <div className="character-map">{MapService.getMapName(character.currentMap)}</div>
+      </div>
+
+      <div className="character-actions" onClick={(e) => e.stopPropagation()}>
+        <button className="character-play-button" onClick={onPlay}>
+          Play
+        </button>
+        <button
+          onClick={() => {
+            setRenameValue(character.name);
+            setIsRenaming(true);
+          }}
+        >
+          Rename
+        </button>
+        <button onClick={onDuplicate} disabled={!canDuplicate}>
+          Duplicate
+        </button>
+        {confirmDelete ? (
+          <button className="character-delete-button" onClick={onDelete}>
+            Confirm
+          </button>
+        ) : (
+          <button className="character-delete-button" onClick={() => setConfirmDelete(true)}>
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CharacterSelect: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+  const [characters, setCharacters] = useState<CharacterSlot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newClass, setNewClass] = useState<Classes>(Classes.KNIGHT);
+  const [error, setError] = useState<string | null>(null);
+  const emitEvent = useEmitEvent();
+
+  const refreshCharacters = () => {
+    const list = SaveService.listCharacters();
+    setCharacters(list);
+    setSelectedId((current) =>
+      current && list.some((character) => character.id === current) ? current : list[0]?.id || null
+    );
+  };
+
+  useEventBus("characterSelect.show", () => {
+    setError(null);
+    refreshCharacters();
+    setVisible(true);
+  });
+
+  useEventBus("characterSelect.hide", () => {
+    setVisible(false);
+  });
+
+  useEventBus("characterSelect.error", (message: string) => {
+    setError(message);
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const slot = SaveService.createCharacter(newName, newClass);
+    if (!slot) {
+      setError("Could not create character.");
+      return;
+    }
+
+    setNewName("");
+    setError(null);
+    refreshCharacters();
+    setSelectedId(slot.id);
+  };
+
+  const handleDuplicate = (characterId: string) => {
+    if (!SaveService.duplicateCharacter(characterId)) {
+      setError("Could not duplicate character.");
+    }
+    refreshCharacters();
+  };
+
+  const handleRename = (characterId: string, name: string) => {
+    SaveService.renameCharacter(characterId, name);
+    refreshCharacters();
+  };
+
+  const handleDelete = (characterId: string) => {
+    SaveService.deleteCharacter(characterId);
+    refreshCharacters();
+  };
+
+  const handlePlay = (characterId: string) => {
+    setError(null);
+    emitEvent("characterSelect.play", { characterId });
+  };
+
+  if (!visible) {
+    return null;
+  }
+
+  const slotsFull = characters.length >= MAX_CHARACTER_SLOTS;
+
+  return (
+    <div className="character-select-overlay">
+      <div className="character-select-container">
+        <div className="character-select-header">
+          <h2>Select Character</h2>
+          <span>
+            ({characters.length} / {MAX_CHARACTER_SLOTS} slots)
+          </span>
+        </div>
+
+        <div className="character-select-content">
+          {error && <div className="character-select-error">{error}</div>}
+
+          <div className="character-list">
+            {characters.length === 0 && (
+              <div className="character-list-empty">No characters yet. Create one below.</div>
+            )}
+            {characters.map((character) => (
+              <CharacterCard
+                key={character.id}
+                character={character}
+                isSelected={selectedId === character.id}
+                canDuplicate={!slotsFull}
+                onSelect={() => setSelectedId(character.id)}
+                onPlay={() => handlePlay(character.id)}
+                onRename={(name) => handleRename(character.id, name)}
+                onDuplicate={() => handleDuplicate(character.id)}
+                onDelete={() => handleDelete(character.id)}
+              />
+            ))}
+          </div>
+
+          <form className="character-create-form" onSubmit={handleCreate}>
+            <h3>New Character</h3>
+            <input
+              className="character-name-input"
+              placeholder="Name"
+              value={newName}
+              maxLength={MAX_CHARACTER_NAME_LENGTH}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <select value={newClass} onChange={(e) => setNewClass(e.target.value as Classes)}>
+              {CLASS_OPTIONS.map((characterClass) => (
+                <option key={characterClass} value={characterClass}>
+                  {formatClassName(characterClass)}
+                </option>
+              ))}
+            </select>
+            <button type="submit" disabled={slotsFull || !newName.trim()}>
+              Create
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterSelect;
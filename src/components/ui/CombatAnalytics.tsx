@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from "react";
+import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { CombatAnalyticsService } from "../../services/CombatAnalyticsService";
+import { CombatAnalyticsSnapshot } from "@/types";
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const formatPercent = (part: number, total: number): string =>
+  total > 0 ? `${Math.round((part / total) * 100)}%` : "0%";
+
+const CombatAnalytics: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+  const [snapshot, setSnapshot] = useState<CombatAnalyticsSnapshot>(() =>
+    CombatAnalyticsService.getSnapshot()
+  );
+  const emitEvent = useEmitEvent();
+
+  // Listen for combat analytics toggle event
+  useEventBus("combatAnalytics.toggle", (data: { visible: boolean }) => {
+    setVisible(data.visible);
+    if (data.visible) {
+      setSnapshot(CombatAnalyticsService.getSnapshot());
+    }
+  });
+
+  useEventBus("combatAnalytics.updated", (data: CombatAnalyticsSnapshot) => {
+    if (visible) {
+      setSnapshot(data);
+    }
+  });
+
+  // Handle close
+  const handleClose = () => {
+    setVisible(false);
+    emitEvent("combatAnalytics.visibility.changed", false);
+  };
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && visible) {
+        handleClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [visible]);
+
+  if (!visible) {
+    return null;
+  }
+
+  const lastBreakdown = snapshot.lastHit?.breakdown;
+
+  return (
+    <div className="combat-analytics-container">
+      <div className="combat-analytics-header">
+        <h2>Combat Analytics</h2>
+        <button className="combat-analytics-close-button" onClick={handleClose}>
+          ✕
+        </button>
+      </div>
+
+      <div className="combat-analytics-content">
+        <div className="combat-analytics-summary">
+          <div className="summary-stat">
+            <span className="summary-label">DPS</span>
+            <span className="summary-value">{snapshot.dps.toFixed(1)}</span>
+          </div>
+          <div className="summary-stat">
+            <span className="summary-label">Damage Dealt</span>
+            <span className="summary-value">{snapshot.totalDamageDealt}</span>
+          </div>
+          <div className="summary-stat">
+            <span className="summary-label">Damage Taken</span>
+            <span className="summary-value">{snapshot.totalDamageTaken}</span>
+          </div>
+          <div className="summary-stat">
+            <span className="summary-label">Combat Time</span>
+            <span className="summary-value">{formatDuration(snapshot.combatTimeMs)}</span>
+          </div>
+        </div>
+
+        <div className="combat-analytics-section">
+          <h3>Damage by Source</h3>
+          {snapshot.sources.length === 0 ? (
+            <div className="no-data-message">No damage dealt this session.</div>
+          ) : (
+            <table className="combat-analytics-table">
+              <thead>
+                <tr>
+                  <th>Source</th>
+                  <th>Total</th>
+                  <th>Share</th>
+                  <th>Hits</th>
+                  <th>Crits</th>
+                  <th>Misses</th>
+                  <th>Highest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshot.sources.map((source) => (
+                  <tr key={source.id}>
+                    <td>{source.name}</td>
+                    <td>{source.totalDamage}</td>
+                    <td>{formatPercent(source.totalDamage, snapshot.totalDamageDealt)}</td>
+                    <td>{source.hits}</td>
+                    <td>{source.criticalHits}</td>
+                    <td>{source.misses}</td>
+                    <td>{source.highestHit}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="combat-analytics-section">
+          <h3>Damage Taken by Creature</h3>
+          {snapshot.monsters.length === 0 ? (
+            <div className="no-data-message">No damage taken this session.</div>
+          ) : (
+            <table className="combat-analytics-table">
+              <thead>
+                <tr>
+                  <th>Creature</th>
+                  <th>Total</th>
+                  <th>Share</th>
+                  <th>Hits</th>
+                  <th>Dodged</th>
+                  <th>Highest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshot.monsters.map((monster) => (
+                  <tr key={monster.monsterType}>
+                    <td>{monster.name}</td>
+                    <td>{monster.totalDamage}</td>
+                    <td>{formatPercent(monster.totalDamage, snapshot.totalDamageTaken)}</td>
+                    <td>{monster.hits}</td>
+                    <td>{monster.dodges}</td>
+                    <td>{monster.highestHit}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {snapshot.lastHit && lastBreakdown && (
+          <div className="combat-analytics-section">
+            <h3>
+              Last Hit: {snapshot.lastHit.damage} on {snapshot.lastHit.target}
+            </h3>
+            <ul className="damage-breakdown-list">
+              {CombatAnalyticsService.describeBreakdown(lastBreakdown).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="combat-analytics-footer">
+          <button
+            className="combat-analytics-reset-button"
+            onClick={() => CombatAnalyticsService.reset()}
+          >
+            Reset Session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CombatAnalytics;
@@ -2,8 +2,12 @@ import React, { useState, useEffect, useMemo } from "react";
 import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
 import { MonsterDictionary } from "../../services/MonsterDictionaryService";
 import { ItemDictionary } from "../../services/ItemDictionaryService";
-import { MonsterData } from "@/types";
+import { MonsterData, DamageType } from "@/types";
 import { useGameStore } from "@/stores/gameStore";
+import { DAMAGE_TYPE_LABELS } from "@/data/damageTypes";
+
+// Kills needed before a creature's elemental profile is revealed
+const ELEMENTAL_PROFILE_KILLS = 25;
 
 interface ProgressMilestone {
   kills: number;
@@ -155,6 +159,43 @@ const LootTable: React.FC<{ creature: MonsterData }> = ({ creature }) => {
   );
 };
 
+const ElementalProfile: React.FC<{ creature: MonsterData; killCount: number }> = ({
+  creature,
+  killCount,
+}) => {
+  if (killCount < ELEMENTAL_PROFILE_KILLS) {
+    return (
+      <div className="creature-elemental-section">
+        <h4>Elemental Profile</h4>
+        <p>Defeat {ELEMENTAL_PROFILE_KILLS - killCount} more to learn its resistances.</p>
+      </div>
+    );
+  }
+
+  const resistances = creature.resistances || {};
+
+  return (
+    <div className="creature-elemental-section">
+      <h4>Elemental Profile</h4>
+      <div className="elemental-list">
+        {(Object.values(DamageType) as DamageType[]).map((damageType) => {
+          const value = resistances[damageType] || 0;
+          const modifierClass = value > 0 ? "resistant" : value < 0 ? "weak" : "neutral";
+
+          return (
+            <div key={damageType} className={`elemental-item ${modifierClass}`}>
+              <span className="elemental-name">{DAMAGE_TYPE_LABELS[damageType]}</span>
+              <span className="elemental-value">
+                {value > 0 ? `+${value}%` : value < 0 ? `${value}%` : "0%"}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 const ProgressBar: React.FC<{ creature: MonsterData; killCount: number }> = ({
   creature,
   killCount,
@@ -248,6 +289,7 @@ const CreatureDetails: React.FC<{ creature: MonsterData; killCount: number }> =
       </div>
 
       <LootTable creature={creature} />
+      <ElementalProfile creature={creature} killCount={killCount} />
       <ProgressBar creature={creature} killCount={killCount} />
     </div>
   );
@@ -0,0 +1,22 @@
+import React, { useState } from "react";
+import { useGameStore } from "../../stores/gameStore";
+import { RandomService } from "../../services/RandomService";
+import { useEventBus } from "../../hooks/useEventBus";
+
+/**
+ * Session info for bug reports, shown while the F3 debug overlay is on
+ */
+const DebugStats: React.FC = () => {
+  const debugOverlay = useGameStore((state) => state.debugOverlay);
+  const [seed, setSeed] = useState(RandomService.getSeed());
+
+  useEventBus("random.seed.changed", (data: { seed: number }) => {
+    setSeed(data.seed);
+  });
+
+  if (!debugOverlay) return null;
+
+  return <div className="debug-stats">Seed: {seed} (replay with ?seed=)</div>;
+};
+
+export default DebugStats;
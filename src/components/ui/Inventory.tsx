@@ -1,15 +1,23 @@
 import React, { useState, useCallback, useEffect } from "react";
 import { useGameStore } from "../../stores/gameStore";
-import { useEmitEvent } from "../../hooks/useEventBus";
+import { useEmitEvent, useEventBus } from "../../hooks/useEventBus";
 import { eventBus } from "../../utils/EventBus";
 import InventorySlot from "./InventorySlot";
-import { ItemInstance, ItemType } from "../../types";
+import StackSplitPrompt from "./StackSplitPrompt";
+import { ContainerPath, ItemInstance, ItemType } from "../../types";
 import { ItemDictionary } from "../../services/ItemDictionaryService";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { ContainerManager } from "@/utils/ContainerManager";
 import { abilitySystem } from "@/services/AbilitySystem";
 import { AbilityDictionary } from "@/services/AbilityDictionaryService";
+import { getClassDefinition } from "@/data/classConfig";
 import { GameScene } from "@/scenes/GameScene";
 import { PhaserSceneManager } from "@/services/PhaserSceneManager";
+import { getEncumbranceLevel } from "@/data/encumbrance";
+
+const MIN_INVENTORY_PAGES = 2;
+// Slots of the open container are "ctr-<index>", inventory slots "inv-<index>"
+const CONTAINER_SLOT_PREFIX = "ctr-";
 
 const Inventory: React.FC = () => {
   const {
@@ -18,25 +26,64 @@ const Inventory: React.FC = () => {
     removeItemInstanceFromInventory,
     setPlayerCharacterEquipment,
     addItemInstanceToInventory,
+    moveItemInstance,
+    splitItemStack,
   } = useGameStore();
 
   const [draggedItem, setDraggedItem] = useState<{
     sourceSlotId: string;
     itemInstanceId: string;
+    split?: boolean; // Shift-dragged: ask how many to take off the stack
+  } | null>(null);
+
+  // Split waiting on a quantity; no target means dropping to the world
+  const [pendingSplit, setPendingSplit] = useState<{
+    itemInstanceId: string;
+    itemName: string;
+    maxQuantity: number;
+    target: { path: ContainerPath; instanceId?: string } | null;
   } | null>(null);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState<number>(0);
   const SLOTS_PER_PAGE = 20;
 
-  // Calculate total pages based on inventory capacity
-  const totalPages = Math.ceil(playerCharacter.maxCapacity / SLOTS_PER_PAGE);
+  // Weight limits what can be carried, so pages grow with the inventory
+  const totalPages = Math.max(
+    MIN_INVENTORY_PAGES,
+    Math.ceil(playerCharacter.inventory.length / SLOTS_PER_PAGE)
+  );
+  const encumbrance = getEncumbranceLevel(
+    playerCharacter.currentCapacity,
+    playerCharacter.maxCapacity
+  );
 
   // Minimization state
   const [minimized, setMinimized] = useState<boolean>(false);
 
+  // Container opened with right-click, shown below the inventory
+  const [openContainerPath, setOpenContainerPath] = useState<ContainerPath | null>(null);
+  const openContainer = openContainerPath
+    ? ContainerManager.getContainer(playerCharacter, openContainerPath)
+    : null;
+
   const emitEvent = useEmitEvent();
 
+  // Close the container view when the container is moved, dropped or sold
+  useEffect(() => {
+    if (openContainerPath && !openContainer) {
+      setOpenContainerPath(null);
+    }
+  }, [openContainerPath, openContainer]);
+
+  useEventBus("inventory.move.refused", (data: { reason: string }) => {
+    emitEvent("ui.message.show", data.reason);
+  });
+
+  useEventBus("inventory.split.refused", (data: { reason: string }) => {
+    emitEvent("ui.message.show", data.reason);
+  });
+
   // Equipment slots configuration - standardized naming
   const equipmentSlots = [
     { id: "helmet", name: "Helmet", type: "helmet", position: "0 0" },
@@ -45,13 +92,41 @@ const Inventory: React.FC = () => {
     { id: "weapon", name: "Weapon", type: "weapon", position: "0 1" },
     { id: "armor", name: "Armor", type: "armor", position: "1 1" },
     { id: "offhand", name: "Offhand", type: "offhand", position: "2 1" },
+    { id: "backpack", name: "Backpack", type: "backpack", position: "1 2" },
   ];
 
-  // SIMPLIFIED drop item to world function
+  const isEquipmentSlot = (slotId: string) =>
+    !slotId.startsWith("inv-") && !slotId.startsWith(CONTAINER_SLOT_PREFIX);
+
+  // Container a slot belongs to: [] for the inventory, null for equipment slots
+  const getSlotContainerPath = (slotId: string): ContainerPath | null => {
+    if (slotId.startsWith("inv-")) return [];
+    if (slotId.startsWith(CONTAINER_SLOT_PREFIX)) return openContainerPath;
+    return null;
+  };
+
+  const toggleContainer = (slotId: string, containerId: string) => {
+    const parentPath = getSlotContainerPath(slotId) || [];
+    const path = [...parentPath, containerId];
+
+    setOpenContainerPath(openContainerPath?.join("/") === path.join("/") ? null : path);
+  };
+
+  // SIMPLIFIED drop item to world function, the whole stack unless a quantity is given
   const dropItemToWorld = useCallback(
-    (itemInstance: ItemInstance) => {
+    (itemInstance: ItemInstance, quantity?: number) => {
       if (!itemInstance) return false;
 
+      const stackQuantity = itemInstance.quantity || 1;
+      const droppedQuantity = Math.min(quantity || stackQuantity, stackQuantity);
+      const partial = droppedQuantity < stackQuantity;
+
+      // Items on the ground can't hold anything
+      if (itemInstance.contents && itemInstance.contents.length > 0) {
+        emitEvent("ui.message.show", "Empty the container before dropping it");
+        return false;
+      }
+
       try {
         // Get the current game scene
         const gameScene = PhaserSceneManager.getCurrentScene() as GameScene;
@@ -75,22 +150,33 @@ const Inventory: React.FC = () => {
           itemInstance.templateId,
           playerX + offsetX,
           playerY + offsetY,
-          itemInstance.instanceId,
+          // Part of a stack gets its own id; the rest stays in the inventory
+          partial ? undefined : itemInstance.instanceId,
           itemInstance.bonusStats,
-          itemInstance.quantity || 1
+          droppedQuantity,
+          {
+            rarity: itemInstance.rarity,
+            itemLevel: itemInstance.itemLevel,
+            affixes: itemInstance.affixes,
+          }
         );
 
         if (worldItem) {
           // Remove from inventory only after successful spawn
-          removeItemInstanceFromInventory(itemInstance.instanceId);
+          removeItemInstanceFromInventory(
+            itemInstance.instanceId,
+            partial ? droppedQuantity : undefined
+          );
           emitEvent(
             "ui.message.show",
-            `Dropped ${ItemInstanceManager.getDisplayName(itemInstance)}`
+            `Dropped ${ItemInstanceManager.getDisplayName(itemInstance)}${
+              partial ? ` (${droppedQuantity})` : ""
+            }`
           );
 
           // Emit event for item dropped
           eventBus.emit("item.dropped.world", {
-            itemInstance,
+            itemInstance: partial ? { ...itemInstance, quantity: droppedQuantity } : itemInstance,
             x: playerX + offsetX,
             y: playerY + offsetY,
           });
@@ -112,12 +198,20 @@ const Inventory: React.FC = () => {
   // Handle global drop to world when dragging outside UI
   useEffect(() => {
     const handleDocumentDrop = (e: DragEvent) => {
-      // Only handle if we have a dragged item
-      if (draggedItem) {
+      // Only handle if we have a dragged item that wasn't dropped on a slot
+      if (draggedItem && !(e.target as HTMLElement | null)?.closest?.(".item-slot")) {
         e.preventDefault();
 
         const instance = getItemInstanceById(draggedItem.itemInstanceId);
-        if (instance) {
+        if (instance && draggedItem.split) {
+          setPendingSplit({
+            itemInstanceId: instance.instanceId,
+            itemName: ItemInstanceManager.getDisplayName(instance),
+            maxQuantity: instance.quantity || 1,
+            target: null,
+          });
+          setDraggedItem(null);
+        } else if (instance) {
           dropItemToWorld(instance);
           setDraggedItem(null);
         }
@@ -148,6 +242,9 @@ const Inventory: React.FC = () => {
         const slotIndex = parseInt(slotId.replace("inv-", ""));
         const inventoryIndex = slotIndex + currentPage * SLOTS_PER_PAGE;
         return playerCharacter.inventory[inventoryIndex];
+      } else if (slotId.startsWith(CONTAINER_SLOT_PREFIX)) {
+        const slotIndex = parseInt(slotId.replace(CONTAINER_SLOT_PREFIX, ""));
+        return openContainer?.contents?.[slotIndex];
       } else {
         // Equipment slot - check if equipment has this item
         const equipment = playerCharacter.equipment;
@@ -157,7 +254,7 @@ const Inventory: React.FC = () => {
         return equipment[slotKey] || undefined;
       }
     },
-    [playerCharacter, currentPage, SLOTS_PER_PAGE]
+    [playerCharacter, currentPage, SLOTS_PER_PAGE, openContainer]
   );
 
   // Check if an item can be equipped in a slot
@@ -184,6 +281,17 @@ const Inventory: React.FC = () => {
           return false;
         }
 
+        // The backpack being replaced can't also be where the new one comes from
+        const equippedBackpack = playerCharacter.equipment.backpack;
+        if (
+          slotType === "backpack" &&
+          equippedBackpack &&
+          ContainerManager.containsItem(equippedBackpack, itemInstanceId)
+        ) {
+          emitEvent("ui.message.show", "Take it out of your backpack first");
+          return false;
+        }
+
         // Get current equipment
         const currentEquipment = { ...playerCharacter.equipment };
 
@@ -204,8 +312,9 @@ const Inventory: React.FC = () => {
 
         // If there was an item previously equipped, add it to inventory
         if (currentEquippedItem) {
-          // Add to inventory - the ItemInstance is already preserved
-          if (!addItemInstanceToInventory(currentEquippedItem)) {
+          // Add to inventory - the ItemInstance is already preserved. It was already being
+          // carried, so the swap never counts against the weight limit.
+          if (!addItemInstanceToInventory(currentEquippedItem, { ignoreWeight: true })) {
             console.error("Failed to add previous item to inventory");
           }
         }
@@ -235,12 +344,39 @@ const Inventory: React.FC = () => {
   const handleDragStart = (e: React.DragEvent, slotId: string, itemInstanceId?: string) => {
     if (!itemInstanceId) return;
 
+    const quantity = getItemInstanceById(itemInstanceId)?.quantity || 1;
+
     setDraggedItem({
       sourceSlotId: slotId,
       itemInstanceId,
+      split: e.shiftKey && quantity > 1 && !isEquipmentSlot(slotId),
     });
   };
 
+  // Finish a shift-drag once the player picked how many to take
+  const handleSplitConfirm = (quantity: number) => {
+    if (!pendingSplit) return;
+
+    const { itemInstanceId, target } = pendingSplit;
+    setPendingSplit(null);
+
+    const instance = getItemInstanceById(itemInstanceId);
+    if (!instance) return;
+
+    if (!target) {
+      dropItemToWorld(instance, quantity);
+      return;
+    }
+
+    // Taking the whole stack is a plain move
+    const stack =
+      quantity >= (instance.quantity || 1) ? instance : splitItemStack(itemInstanceId, quantity);
+    if (!stack) return;
+
+    // Merges onto a matching stack, otherwise swaps or goes to the next free slot
+    moveItemInstance(stack.instanceId, "inventory", target.instanceId, target.path);
+  };
+
   // Handle drag over
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -253,7 +389,7 @@ const Inventory: React.FC = () => {
     if (!draggedItem) return;
 
     // Check if this is an equipment slot that needs validation
-    if (!slotId.startsWith("inv-")) {
+    if (isEquipmentSlot(slotId)) {
       const targetSlot = equipmentSlots.find((slot) => slot.id === slotId);
       if (targetSlot) {
         const isValid = canEquipInSlot(draggedItem.itemInstanceId, targetSlot.type);
@@ -273,7 +409,7 @@ const Inventory: React.FC = () => {
         }
       }
     } else {
-      // Inventory slots are always valid targets
+      // Inventory and container slots are always valid targets
       const element = document.getElementById(slotId);
       if (element) {
         element.classList.remove("valid-target", "invalid-target");
@@ -323,7 +459,7 @@ const Inventory: React.FC = () => {
     }
 
     // If target is an equipment slot
-    if (!targetSlotId.startsWith("inv-")) {
+    if (isEquipmentSlot(targetSlotId)) {
       // Try to equip the item
       const targetSlot = equipmentSlots.find((slot) => slot.id === targetSlotId);
       if (targetSlot && canEquipInSlot(draggedItem.itemInstanceId, targetSlot.type)) {
@@ -334,11 +470,24 @@ const Inventory: React.FC = () => {
           `This item cannot be equipped in the ${targetSlot?.name || ""} slot.`
         );
       }
+    } else if (draggedItem.split) {
+      // Target is an inventory or container slot; ask how many to move there
+      const targetItem = getItemInstanceForSlot(targetSlotId);
+      setPendingSplit({
+        itemInstanceId: sourceItem.instanceId,
+        itemName: ItemInstanceManager.getDisplayName(sourceItem),
+        maxQuantity: sourceItem.quantity || 1,
+        target: {
+          path: getSlotContainerPath(targetSlotId) || [],
+          instanceId: targetItem?.instanceId,
+        },
+      });
     } else {
-      // Target is an inventory slot
+      // Target is an inventory or container slot
+      const targetPath = getSlotContainerPath(targetSlotId) || [];
 
       // If source is equipment slot, handle un-equipping
-      if (!draggedItem.sourceSlotId.startsWith("inv-")) {
+      if (isEquipmentSlot(draggedItem.sourceSlotId)) {
         // Unequip the item from equipment to inventory
         const equipmentSlot = draggedItem.sourceSlotId;
 
@@ -361,16 +510,27 @@ const Inventory: React.FC = () => {
         if (addItemInstanceToInventory(currentItem)) {
           const itemName = ItemInstanceManager.getDisplayName(currentItem);
           emitEvent("ui.message.show", `Unequipped ${itemName}`);
+
+          // Dropped on a container slot: carry on into the container
+          if (targetPath.length > 0) {
+            moveItemInstance(currentItem.instanceId, "inventory", undefined, targetPath);
+          }
         } else {
-          emitEvent("ui.message.show", "No inventory space available");
+          emitEvent("ui.message.show", "You can't carry that much without it");
 
           // Revert equipment change if couldn't add to inventory
           setPlayerCharacterEquipment({ ...playerCharacter.equipment });
         }
       } else {
-        // Both source and target are inventory slots, swap them
-        emitEvent("ui.message.show", `Swapped inventory items`);
-        // TODO: Implement inventory swap logic
+        // Both source and target are inventory or container slots: move, or swap with
+        // whatever is in the target slot
+        const targetItem = getItemInstanceForSlot(targetSlotId);
+        moveItemInstance(
+          draggedItem.itemInstanceId,
+          "inventory",
+          targetItem?.instanceId,
+          targetPath
+        );
       }
     }
 
@@ -408,9 +568,15 @@ const Inventory: React.FC = () => {
     const itemData = ItemInstanceManager.getCombinedStats(itemInstance);
     if (!itemData) return;
 
+    // Containers open (or close) wherever they are, equipped included
+    if (itemData.type === ItemType.CONTAINER) {
+      toggleContainer(slotId, itemInstanceId);
+      return;
+    }
+
     // Handle spell scroll right-click to learn ability - ONLY for inventory items
     if (
-      slotId.startsWith("inv-") &&
+      !isEquipmentSlot(slotId) &&
       itemData.type === ItemType.SPELL_SCROLL &&
       (itemData as any).teachesSpell
     ) {
@@ -422,6 +588,16 @@ const Inventory: React.FC = () => {
         return;
       }
 
+      // Check if the player's class can learn it
+      const playerClass = useGameStore.getState().playerCharacter.class;
+      if (!AbilityDictionary.canClassLearnAbility(abilityId, playerClass)) {
+        emitEvent(
+          "ui.message.show",
+          `A ${getClassDefinition(playerClass).name} cannot learn this ability`
+        );
+        return;
+      }
+
       // Learn the ability
       const learned = abilitySystem.learnAbility(abilityId);
 
@@ -439,7 +615,7 @@ const Inventory: React.FC = () => {
     }
 
     // Handle food consumption - ONLY for inventory items
-    if (slotId.startsWith("inv-") && itemData.type === ItemType.FOOD) {
+    if (!isEquipmentSlot(slotId) && itemData.type === ItemType.FOOD) {
       const gameStore = useGameStore.getState();
       const calculatedStats = gameStore.calculatedStats;
       const currentHealth = gameStore.playerCharacter.health;
@@ -471,15 +647,15 @@ const Inventory: React.FC = () => {
         });
       }
 
-      // Remove food item from inventory
-      removeItemInstanceFromInventory(itemInstanceId);
+      // Eat one from the stack
+      removeItemInstanceFromInventory(itemInstanceId, 1);
       emitEvent("ui.message.show", `Consumed ${itemData.name} (restored ${healthHealed} health)`);
 
       return;
     }
 
     // FIXED: Handle inventory item right-click (equip item)
-    if (slotId.startsWith("inv-")) {
+    if (!isEquipmentSlot(slotId)) {
       // Determine which slot to equip to
       let targetSlot = "";
       if (itemData.type === ItemType.WEAPON) targetSlot = "weapon";
@@ -520,7 +696,7 @@ const Inventory: React.FC = () => {
         const itemName = ItemInstanceManager.getDisplayName(currentItem);
         emitEvent("ui.message.show", `Unequipped ${itemName}`);
       } else {
-        emitEvent("ui.message.show", "No inventory space available");
+        emitEvent("ui.message.show", "You can't carry that much without it");
 
         // Revert equipment change if couldn't add to inventory
         setPlayerCharacterEquipment({ ...playerCharacter.equipment });
@@ -533,7 +709,7 @@ const Inventory: React.FC = () => {
     if (!itemInstanceId) return;
 
     // If clicking on an inventory item, try to equip it
-    if (slotId.startsWith("inv-")) {
+    if (!isEquipmentSlot(slotId)) {
       const instance = getItemInstanceById(itemInstanceId);
       if (!instance) return;
 
@@ -549,6 +725,7 @@ const Inventory: React.FC = () => {
       else if (itemData.type === ItemType.AMULET) targetSlot = "amulet";
       else if (itemData.type === ItemType.TRINKET) targetSlot = "trinket";
       else if (itemData.type === ItemType.ARMOR) targetSlot = "armor";
+      else if (itemData.type === ItemType.CONTAINER) targetSlot = "backpack";
 
       if (targetSlot) {
         equipItem(itemInstanceId, targetSlot);
@@ -578,7 +755,7 @@ const Inventory: React.FC = () => {
         const itemName = ItemInstanceManager.getDisplayName(currentItem);
         emitEvent("ui.message.show", `Unequipped ${itemName}`);
       } else {
-        emitEvent("ui.message.show", "No inventory space available");
+        emitEvent("ui.message.show", "You can't carry that much without it");
 
         // Revert equipment change if couldn't add to inventory
         setPlayerCharacterEquipment({ ...playerCharacter.equipment });
@@ -683,6 +860,16 @@ const Inventory: React.FC = () => {
               })}
             </div>
 
+            {/* Carried weight, colored by how slowed the player is */}
+            <div className={`inventory-weight ${encumbrance.id}`}>
+              <span>
+                Weight: {playerCharacter.currentCapacity} / {playerCharacter.maxCapacity}
+              </span>
+              {encumbrance.id !== "normal" && (
+                <span className="inventory-weight-status">{encumbrance.name}</span>
+              )}
+            </div>
+
             {/* Simple Inventory Navigation */}
             <div className="inventory-navigation">
               <button
@@ -701,9 +888,61 @@ const Inventory: React.FC = () => {
                 →
               </button>
             </div>
+
+            {/* Open bag or backpack */}
+            {openContainer && (
+              <div className="container-panel">
+                <div className="container-panel-header">
+                  <span className="container-panel-title">
+                    {ItemDictionary.getItemName(openContainer.templateId)}
+                  </span>
+                  <span className="container-panel-fill">
+                    {openContainer.contents?.length || 0}/
+                    {ContainerManager.getSlotCount(openContainer)}
+                  </span>
+                  <button
+                    className="ui-window-control container-panel-close"
+                    onClick={() => setOpenContainerPath(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="container-slots-grid">
+                  {Array.from({ length: ContainerManager.getSlotCount(openContainer) }).map(
+                    (_, index) => {
+                      const slotId = `${CONTAINER_SLOT_PREFIX}${index}`;
+                      return (
+                        <InventorySlot
+                          key={slotId}
+                          id={slotId}
+                          name={`Bag Slot ${index + 1}`}
+                          itemInstance={getItemInstanceForSlot(slotId)}
+                          onDragStart={handleDragStart}
+                          onDragOver={handleDragOver}
+                          onDragEnter={handleDragEnter}
+                          onDragLeave={handleDragLeave}
+                          onDrop={handleDrop}
+                          onClick={handleItemClick}
+                          onRightClick={handleItemRightClick}
+                        />
+                      );
+                    }
+                  )}
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
+
+      {pendingSplit && (
+        <StackSplitPrompt
+          itemName={pendingSplit.itemName}
+          maxQuantity={pendingSplit.maxQuantity}
+          onConfirm={handleSplitConfirm}
+          onCancel={() => setPendingSplit(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from "react";
-import { ItemData, ItemInstance, ItemType } from "../../types";
+import { ItemData, ItemInstance, ItemRarity, ItemType } from "../../types";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
 import ItemTooltip from "./tooltips/ItemTooltip";
@@ -71,6 +71,16 @@ const InventorySlot: React.FC<InventorySlotProps> = ({
   const quantity = itemInstance?.quantity || 1;
   const showQuantity = quantity > 1;
 
+  const rarity = itemInstance
+    ? ItemInstanceManager.getRarityTier(itemInstance).rarity
+    : ItemRarity.COMMON;
+
+  // Containers show how full they are instead of a quantity
+  const isContainer = itemData?.type === ItemType.CONTAINER;
+  const containerFill = isContainer
+    ? `${itemInstance?.contents?.length || 0}/${itemData?.containerSlots || 0}`
+    : "";
+
   // Global cleanup function for all drag validation classes
   const cleanupAllDragValidation = () => {
     document.querySelectorAll(".valid-target, .invalid-target").forEach((el) => {
@@ -152,11 +162,17 @@ const InventorySlot: React.FC<InventorySlotProps> = ({
     !isValid ? "invalid-target" : "",
     // Only add item-set-piece class without modifying background
     itemData?.set ? "item-set-piece" : "",
-    // Only add item-with-bonus if it has bonuses AND is not a set item
-    itemInstance?.bonusStats && Object.keys(itemInstance.bonusStats).length > 0 && !itemData?.set
+    // Rarity border for rolled items that aren't set items
+    rarity !== ItemRarity.COMMON && !itemData?.set ? `quality-${rarity}` : "",
+    // Only add item-with-bonus if it has bonuses AND is not a set item or a rarity item
+    itemInstance?.bonusStats &&
+    Object.keys(itemInstance.bonusStats).length > 0 &&
+    !itemData?.set &&
+    rarity === ItemRarity.COMMON
       ? "item-with-bonus"
       : "",
     itemData?.type === "product" ? "product-item" : "",
+    isContainer ? "container-item" : "",
   ]
     .filter(Boolean)
     .join(" ");
@@ -218,6 +234,12 @@ const InventorySlot: React.FC<InventorySlotProps> = ({
             : {}
         }
       >
+        {/* Bags have no artwork yet */}
+        {isContainer && !itemImageUrl && <div className="container-item-icon">🎒</div>}
+
+        {/* Fill display for bags and backpacks */}
+        {isContainer && <div className="container-item-fill">{containerFill}</div>}
+
         {/* Quantity display for stackable items */}
         {showQuantity && (
           <div
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useEventBus } from "../../hooks/useEventBus";
+import { CombatDamageDealtEvent, CombatDamageReceivedEvent } from "../../types";
+import { CombatAnalyticsService } from "../../services/CombatAnalyticsService";
 
 interface Message {
   id: string;
   text: string;
   timestamp: number;
   category: "combat" | "event" | "chat";
+  tooltip?: string; // Shown on hover, e.g. a damage breakdown
 }
 
 type TabType = "combat" | "event" | "chat";
@@ -20,23 +23,53 @@ const MessageLog: React.FC = () => {
   const MESSAGE_FADE_DURATION = 300000; // 5 minutes
 
   // Event listeners for combat messages
-  useEventBus(
-    "combat.damage.dealt",
-    (data: { damage: number; target: string; attackType: "auto-attack" | string }) => {
-      const attackTypeText = data.attackType === "auto-attack" ? "auto-attack" : data.attackType;
+  useEventBus("combat.damage.dealt", (data: CombatDamageDealtEvent) => {
+    const attackTypeText = data.attackType === "auto-attack" ? "auto-attack" : data.attackType;
+    const tooltip = getBreakdownTooltip(data);
+
+    if (data.outcome === "miss" || data.outcome === "dodge") {
+      addMessage(`Your ${attackTypeText} missed ${data.target}.`, "combat");
+    } else if (data.outcome === "critical") {
+      addMessage(
+        `Critical hit! You dealt ${data.damage} damage to ${data.target} with ${attackTypeText}.`,
+        "combat",
+        tooltip
+      );
+    } else {
       addMessage(
         `You dealt ${data.damage} damage to ${data.target} with ${attackTypeText}.`,
-        "combat"
+        "combat",
+        tooltip
       );
     }
-  );
+  });
 
-  useEventBus(
-    "combat.damage.received",
-    (data: { damage: number; source: string; attackType: "auto-attack" | string }) => {
-      const attackTypeText = data.attackType === "auto-attack" ? "auto attack" : data.attackType;
+  useEventBus("combat.damage.received", (data: CombatDamageReceivedEvent) => {
+    const attackTypeText = data.attackType === "auto-attack" ? "auto attack" : data.attackType;
+    const tooltip = getBreakdownTooltip(data);
+
+    if (data.outcome === "miss" || data.outcome === "dodge") {
+      addMessage(`You dodged ${data.source}'s ${attackTypeText} attack.`, "combat");
+    } else if (data.outcome === "critical") {
+      addMessage(
+        `${data.source} critically hit you for ${data.damage} damage with ${attackTypeText}.`,
+        "combat",
+        tooltip
+      );
+    } else {
       addMessage(
         `${data.source} dealt ${data.damage} damage to you with ${attackTypeText}.`,
+        "combat",
+        tooltip
+      );
+    }
+  });
+
+  useEventBus(
+    "ability.mana.insufficient",
+    (data: { abilityName: string; manaCost: number; currentMana: number }) => {
+      addMessage(
+        `Not enough mana for ${data.abilityName} (${Math.floor(data.currentMana)}/${data.manaCost}).`,
         "combat"
       );
     }
@@ -100,13 +133,21 @@ const MessageLog: React.FC = () => {
     return `msg_${timestamp}_${random}`;
   };
 
-  const addMessage = (text: string, category: TabType) => {
+  const getBreakdownTooltip = (
+    data: CombatDamageDealtEvent | CombatDamageReceivedEvent
+  ): string | undefined =>
+    data.breakdown
+      ? CombatAnalyticsService.describeBreakdown(data.breakdown).join("\n")
+      : undefined;
+
+  const addMessage = (text: string, category: TabType, tooltip?: string) => {
     const messageId = generateUniqueId();
     const newMessage: Message = {
       id: messageId,
       text,
       timestamp: Date.now(),
       category,
+      tooltip,
     };
 
     setMessages((prev) => {
@@ -205,7 +246,11 @@ const MessageLog: React.FC = () => {
           </div>
         ) : (
           filteredMessages.map((message) => (
-            <div key={message.id} className={`message-item ${message.category}`}>
+            <div
+              key={message.id}
+              className={`message-item ${message.category}${message.tooltip ? " has-breakdown" : ""}`}
+              title={message.tooltip}
+            >
               <span className="message-timestamp">
                 {new Date(message.timestamp).toLocaleTimeString([], {
                   hour: "2-digit",
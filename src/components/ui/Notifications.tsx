@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useEventBus } from "../../hooks/useEventBus";
+import { EncumbranceLevelId } from "../../types";
 
 interface LevelUpData {
   oldLevel: number;
@@ -30,8 +31,23 @@ interface QuestTurnedInData {
   completionCount: number;
 }
 
+interface ItemRefusedData {
+  name: string;
+  reason: "weight";
+  weight: number;
+  current: number;
+  max: number;
+}
+
+interface EncumbranceChangedData {
+  level: EncumbranceLevelId;
+  previousLevel: EncumbranceLevelId;
+  name: string;
+  moveSpeedMultiplier: number;
+}
+
 interface NotificationData {
-  type: "levelup" | "skill" | "quest-objective" | "quest-complete";
+  type: "levelup" | "skill" | "quest-objective" | "quest-complete" | "encumbrance";
   title: string;
   message: string;
 }
@@ -96,6 +112,27 @@ const Notifications: React.FC = () => {
     });
   });
 
+  useEventBus("inventory.item.refused", (data: ItemRefusedData) => {
+    showNotification({
+      type: "encumbrance",
+      title: "TOO HEAVY!",
+      message: `${data.name} weighs ${data.weight}, you carry ${data.current} of ${data.max}`,
+    });
+  });
+
+  useEventBus("player.encumbrance.changed", (data: EncumbranceChangedData) => {
+    const slowdown = Math.round((1 - data.moveSpeedMultiplier) * 100);
+
+    showNotification({
+      type: "encumbrance",
+      title: data.level === "normal" ? "UNBURDENED" : `${data.name.toUpperCase()}!`,
+      message:
+        data.level === "normal"
+          ? "You move at full speed again"
+          : `Your load slows you by ${slowdown}%`,
+    });
+  });
+
   if (!notificationData) return null;
 
   return (
@@ -185,6 +222,17 @@ const Notifications: React.FC = () => {
             0 0 20px rgba(255, 193, 7, 0.2);
         }
 
+        .notification-content.encumbrance {
+          background: linear-gradient(135deg, 
+            rgba(176, 64, 80, 0.9) 0%, 
+            rgba(150, 50, 66, 0.85) 50%, 
+            rgba(128, 40, 56, 0.9) 100%);
+          border: 2px solid rgba(176, 64, 80, 0.8);
+          box-shadow: 
+            0 4px 12px rgba(0, 0, 0, 0.3),
+            0 0 20px rgba(176, 64, 80, 0.2);
+        }
+
         .notification-title {
           font-family: "Georgia", serif;
           font-size: 20px;
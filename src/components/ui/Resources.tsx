@@ -1,27 +1,35 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useGameStore } from "../../stores/gameStore";
 import { useEventBus } from "../../hooks/useEventBus";
+import { regenerationSystem } from "../../services/RegenerationSystem";
+import { StatusEffectType } from "@/types";
 
 const Resources: React.FC = () => {
   const { playerCharacter } = useGameStore();
 
   // Health state
   const [currentHealth, setCurrentHealth] = useState(playerCharacter.health);
-  const [maxHealth, setMaxHealth] = useState(playerCharacter.maxHealth);
+  const maxHealth = useGameStore((state) => state.calculatedStats.totalHealth);
   const [isHealthFlashing, setIsHealthFlashing] = useState(false);
 
-  // Resource/Mana state
-  const [currentResource, setCurrentResource] = useState(100);
-  const [maxResource, setMaxResource] = useState(100);
+  // Mana state
+  const currentResource = useGameStore((state) => state.playerCharacter.mana);
+  const maxResource = useGameStore((state) => state.calculatedStats.totalMana);
   const [isResourceFlashing, setIsResourceFlashing] = useState(false);
 
+  // Combat state drives the out-of-combat regeneration boost
+  const [inCombat, setInCombat] = useState(regenerationSystem.isInCombat());
+  const isExtraRegen = !inCombat;
+
   // Status states (would be connected to actual game state in a real implementation)
-  const [inCombat, setInCombat] = useState(true);
   const [isFed, setIsFed] = useState(true);
-  const [isBurning, setIsBurning] = useState(true);
-  const [isPoisoned, setIsPoisoned] = useState(true);
-  const [isSlowed, setIsSlowed] = useState(true);
-  const [isExtraRegen, setIsExtraRegen] = useState(true);
+
+  // Active status effects on the player
+  const [statusEffects, setStatusEffects] = useState<StatusEffectType[]>([]);
+  const isBurning = statusEffects.includes(StatusEffectType.BURN);
+  const isPoisoned = statusEffects.includes(StatusEffectType.POISON);
+  const isSlowed = statusEffects.includes(StatusEffectType.SLOW);
+  const isStunned = statusEffects.includes(StatusEffectType.STUN);
 
   // Listen for health changes
   useEventBus("playerCharacter.health.changed", (health: number) => {
@@ -33,19 +41,19 @@ const Resources: React.FC = () => {
     setCurrentHealth(health);
   });
 
-  // Listen for max health changes
-  useEventBus("playerCharacter.maxHealth.changed", (maxHealth: number) => {
-    setMaxHealth(maxHealth);
+  useEventBus("player.combat.changed", (data: { inCombat: boolean }) => {
+    setInCombat(data.inCombat);
   });
 
-  // Mock resource regeneration (would be replaced with actual system)
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setCurrentResource((prev) => Math.min(maxResource, prev + 0.5));
-    }, 1000);
+  useEventBus("playerCharacter.status.changed", (effects: { type: StatusEffectType }[]) => {
+    setStatusEffects(effects.map((effect) => effect.type));
+  });
 
-    return () => clearInterval(interval);
-  }, [maxResource]);
+  // Flash the mana bar when an ability can't be paid for
+  useEventBus("ability.mana.insufficient", () => {
+    setIsResourceFlashing(true);
+    setTimeout(() => setIsResourceFlashing(false), 300);
+  });
 
   // Calculate health percentage
   const healthPercentage = Math.max(0, Math.min(100, (currentHealth / maxHealth) * 100));
@@ -79,7 +87,9 @@ const Resources: React.FC = () => {
           className={`resource-bar-fill mana-bar-fill ${isResourceFlashing ? "resource-flash" : ""}`}
           style={{ width: `${resourcePercentage}%` }}
         />
-        <div className="resource-bar-text">{`${Math.floor(currentResource)}/${maxResource}`}</div>
+        <div className="resource-bar-text">
+          {`${Math.floor(Math.min(currentResource, maxResource))}/${maxResource}`}
+        </div>
       </div>
 
       {/* Status Bar */}
@@ -109,6 +119,11 @@ const Resources: React.FC = () => {
             🐌
           </div>
         )}
+        {isStunned && (
+          <div className="status-icon is-stunned" title="Stunned">
+            💫
+          </div>
+        )}
         {isExtraRegen && (
           <div className="status-icon is-extra-regen" title="Extra Regeneration">
             💗
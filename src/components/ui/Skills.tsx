@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useGameStore } from "../../stores/gameStore";
 import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
-import { SkillData } from "@/types";
+import { DamageType, SkillData } from "@/types";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { experienceSystem } from "@/services/ExperienceSystem";
+import { MAX_PLAYER_RESISTANCE } from "@/utils/formulas";
+import { DAMAGE_TYPE_ICONS, DAMAGE_TYPE_LABELS } from "@/data/damageTypes";
 
 interface SkillRowProps {
   skillId: string;
@@ -116,6 +118,24 @@ const SecondaryStatRowWithPurchased: React.FC<{
   );
 };
 
+const ResistanceStatRow: React.FC<{ damageType: DamageType; value: number }> = ({
+  damageType,
+  value,
+}) => {
+  const effectiveValue = Math.min(value, MAX_PLAYER_RESISTANCE);
+
+  return (
+    <div id={`stat-row-${damageType}Resist`} className="secondary-stat-row">
+      <div className="secondary-stat-icon">{DAMAGE_TYPE_ICONS[damageType]}</div>
+      <div className="secondary-stat-name">{DAMAGE_TYPE_LABELS[damageType]}</div>
+      <div className="secondary-stat-value">
+        {effectiveValue}%
+        {value > MAX_PLAYER_RESISTANCE && <span className="bonus-value"> (max)</span>}
+      </div>
+    </div>
+  );
+};
+
 interface TooltipProps {
   skillId: string;
   skill: SkillData;
@@ -618,6 +638,21 @@ const SkillsWindow: React.FC = () => {
                   <MoveSpeedStatRow />
                 </div>
               </div>
+
+              <div className="secondary-stats-grid">
+                {/* Elemental Resistances Section */}
+                <div className="secondary-stats-section">
+                  <h4 className="secondary-stats-header">Resistances</h4>
+
+                  {(Object.values(DamageType) as DamageType[]).map((damageType) => (
+                    <ResistanceStatRow
+                      key={damageType}
+                      damageType={damageType}
+                      value={calculatedStats.totalResistances[damageType]}
+                    />
+                  ))}
+                </div>
+              </div>
             </div>
           )}
         </div>
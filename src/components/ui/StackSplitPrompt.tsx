@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from "react";
+import { useEmitEvent } from "../../hooks/useEventBus";
+
+interface StackSplitPromptProps {
+  itemName: string;
+  maxQuantity: number;
+  onConfirm: (quantity: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks how many items to take off a stack, shown after a shift-drag
+ */
+const StackSplitPrompt: React.FC<StackSplitPromptProps> = ({
+  itemName,
+  maxQuantity,
+  onConfirm,
+  onCancel,
+}) => {
+  const [quantity, setQuantity] = useState<number>(Math.max(1, Math.floor(maxQuantity / 2)));
+
+  const emitEvent = useEmitEvent();
+
+  // Keep typed numbers from reaching the game's key bindings
+  useEffect(() => {
+    emitEvent("input.focused", true);
+    return () => {
+      emitEvent("input.focused", false);
+    };
+  }, []);
+
+  const clampQuantity = (value: number) =>
+    Math.min(maxQuantity, Math.max(1, Math.floor(value) || 1));
+
+  const handleConfirm = () => {
+    onConfirm(clampQuantity(quantity));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleConfirm();
+    if (e.key === "Escape") onCancel();
+  };
+
+  return (
+    <div className="stack-split-overlay">
+      <div className="stack-split-dialog">
+        <div className="stack-split-title">Split {itemName}</div>
+        <div className="stack-split-input-row">
+          <input
+            type="number"
+            className="stack-split-input"
+            min={1}
+            max={maxQuantity}
+            value={quantity}
+            autoFocus
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            onKeyDown={handleKeyDown}
+          />
+          <span className="stack-split-max">/ {maxQuantity}</span>
+        </div>
+        <div className="stack-split-buttons">
+          <button className="stack-split-confirm" onClick={handleConfirm}>
+            Split
+          </button>
+          <button className="stack-split-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StackSplitPrompt;
@@ -12,6 +12,7 @@ export enum NavButtonType {
   SKILLS = "skills",
   CREATURES = "creatures",
   OUTFITS = "outfits", // Added outfits button
+  COMBAT_ANALYTICS = "combatAnalytics",
 }
 
 // Props for individual navigation button
@@ -57,6 +58,7 @@ const UINavBar: React.FC = () => {
     [NavButtonType.SKILLS]: false,
     [NavButtonType.CREATURES]: false,
     [NavButtonType.OUTFITS]: false, // Added outfits state
+    [NavButtonType.COMBAT_ANALYTICS]: false,
   });
 
   // Skills window state
@@ -108,6 +110,13 @@ const UINavBar: React.FC = () => {
       event: "outfits.toggle",
       shortcutKey: "U",
     },
+    {
+      type: NavButtonType.COMBAT_ANALYTICS,
+      icon: "📈",
+      label: "Combat",
+      event: "combatAnalytics.toggle",
+      shortcutKey: "J",
+    },
   ];
 
   // Handle button click
@@ -176,6 +185,14 @@ const UINavBar: React.FC = () => {
     }));
   });
 
+  // Listen for combat analytics window toggle events
+  useEventBus("combatAnalytics.visibility.changed", (isVisible: boolean) => {
+    setActiveButtons((prev) => ({
+      ...prev,
+      [NavButtonType.COMBAT_ANALYTICS]: isVisible,
+    }));
+  });
+
   return (
     <div className="nav-buttons-grid">
       {navButtons.map((button) => (
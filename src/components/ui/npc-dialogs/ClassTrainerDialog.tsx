@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from "react";
+import { useGameStore } from "../../../stores/gameStore";
+import { useEventBus, useEmitEvent } from "../../../hooks/useEventBus";
+import { AbilityDictionary } from "../../../services/AbilityDictionaryService";
+import { getClassDefinition } from "../../../data/classConfig";
+import { Classes } from "@/types";
+
+interface TrainerOpenEvent {
+  npcId: string;
+  npcName: string;
+  trainerClass: Classes;
+  dialog: string[];
+}
+
+const ClassTrainerDialog: React.FC = () => {
+  const { playerCharacter, setPlayerClass } = useGameStore();
+
+  const [visible, setVisible] = useState(false);
+  const [trainer, setTrainer] = useState<TrainerOpenEvent | null>(null);
+  const emitEvent = useEmitEvent();
+
+  useEventBus("trainer.open", (data: TrainerOpenEvent) => {
+    setTrainer(data);
+    setVisible(true);
+    emitEvent("input.focused", true);
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && visible) {
+        handleClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [visible]);
+
+  const handleClose = () => {
+    setVisible(false);
+    emitEvent("input.focused", false);
+  };
+
+  if (!visible || !trainer) return null;
+
+  const classDefinition = getClassDefinition(trainer.trainerClass);
+  const currentClass = getClassDefinition(playerCharacter.class);
+  const isCurrentClass = playerCharacter.class === trainer.trainerClass;
+
+  // Only list the abilities this class unlocks beyond the shared general ones
+  const classAbilities = AbilityDictionary.getLearnableAbilities(trainer.trainerClass).filter(
+    (ability) => ability.weaponType !== "general"
+  );
+
+  const handleChooseClass = () => {
+    setPlayerClass(trainer.trainerClass);
+    emitEvent("ui.message.show", `You are now a ${classDefinition.name}!`);
+    handleClose();
+  };
+
+  return (
+    <div className="class-trainer-container">
+      <div className="class-trainer-header">
+        <h2>{trainer.npcName}</h2>
+        <button className="class-trainer-close-button" onClick={handleClose}>
+          ✕
+        </button>
+      </div>
+      <div className="class-trainer-content">
+        {trainer.dialog[0] && <p className="class-trainer-dialog">"{trainer.dialog[0]}"</p>}
+
+        <div className="class-trainer-class">
+          <h3>{classDefinition.name}</h3>
+          <p>{classDefinition.description}</p>
+          <div className="class-trainer-stats">
+            <span>Base Health: {classDefinition.baseHealth}</span>
+            <span>Base Mana: {classDefinition.baseMana}</span>
+          </div>
+          {classAbilities.length > 0 && (
+            <div className="class-trainer-abilities">
+              Can learn: {classAbilities.map((ability) => ability.name).join(", ")}
+            </div>
+          )}
+        </div>
+
+        <div className="class-trainer-current">
+          Your class: <strong>{currentClass.name}</strong>
+        </div>
+
+        <button
+          className={`class-trainer-choose-button ${isCurrentClass ? "disabled" : ""}`}
+          onClick={() => !isCurrentClass && handleChooseClass()}
+          disabled={isCurrentClass}
+        >
+          {isCurrentClass
+            ? `Already a ${classDefinition.name}`
+            : `Become a ${classDefinition.name}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClassTrainerDialog;
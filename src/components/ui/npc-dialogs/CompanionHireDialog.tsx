@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from "react";
+import { useGameStore } from "../../../stores/gameStore";
+import { useEventBus, useEmitEvent } from "../../../hooks/useEventBus";
+import { CompanionService } from "../../../services/CompanionService";
+import { getCompanionDefinition } from "../../../data/companions";
+import { CompanionData } from "@/types";
+
+interface CompanionHireOpenEvent {
+  npcId: string;
+  npcName: string;
+  companionIds: string[];
+  dialog: string[];
+}
+
+const ATTACK_TYPE_LABELS: Record<CompanionData["attackType"], string> = {
+  melee: "Melee",
+  ranged: "Ranged",
+  magic: "Magic",
+};
+
+const CompanionHireDialog: React.FC = () => {
+  const { playerCharacter } = useGameStore();
+
+  const [visible, setVisible] = useState(false);
+  const [hireData, setHireData] = useState<CompanionHireOpenEvent | null>(null);
+  const [hiredId, setHiredId] = useState<string | null>(null);
+  const emitEvent = useEmitEvent();
+
+  useEventBus("companion.hire.open", (data: CompanionHireOpenEvent) => {
+    setHireData(data);
+    setHiredId(CompanionService.getHiredCompanion()?.id || null);
+    setVisible(true);
+    emitEvent("input.focused", true);
+  });
+
+  useEventBus("companion.died", () => setHiredId(null));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && visible) {
+        handleClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [visible]);
+
+  const handleClose = () => {
+    setVisible(false);
+    emitEvent("input.focused", false);
+  };
+
+  if (!visible || !hireData) return null;
+
+  const companions = hireData.companionIds
+    .map((id) => getCompanionDefinition(id))
+    .filter((companion): companion is CompanionData => companion !== null);
+
+  const handleHire = (companion: CompanionData) => {
+    if (CompanionService.hire(companion.id)) {
+      setHiredId(companion.id);
+    }
+  };
+
+  const handleDismiss = () => {
+    CompanionService.dismiss();
+    setHiredId(null);
+  };
+
+  return (
+    <div className="companion-hire-container">
+      <div className="companion-hire-header">
+        <h2>{hireData.npcName}</h2>
+        <button className="companion-hire-close-button" onClick={handleClose}>
+          ✕
+        </button>
+      </div>
+      <div className="companion-hire-content">
+        {hireData.dialog[0] && <p className="companion-hire-dialog">"{hireData.dialog[0]}"</p>}
+
+        {companions.map((companion) => {
+          const isHired = hiredId === companion.id;
+          const canAfford = playerCharacter.gold >= companion.price;
+
+          return (
+            <div key={companion.id} className={`companion-hire-card ${isHired ? "hired" : ""}`}>
+              <h3>{companion.name}</h3>
+              <p>{companion.description}</p>
+              <div className="companion-hire-stats">
+                <span>Health: {companion.maxHealth}</span>
+                <span>Damage: {companion.damage}</span>
+                <span>Armor: {companion.armor}</span>
+                <span>{ATTACK_TYPE_LABELS[companion.attackType]}</span>
+              </div>
+              {isHired ? (
+                <button className="companion-hire-button dismiss" onClick={handleDismiss}>
+                  Dismiss
+                </button>
+              ) : (
+                <button
+                  className={`companion-hire-button ${canAfford ? "" : "disabled"}`}
+                  onClick={() => canAfford && handleHire(companion)}
+                  disabled={!canAfford}
+                >
+                  Hire for {companion.price} gold
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="companion-hire-current">
+          {hiredId
+            ? "Hiring someone else will dismiss your current companion."
+            : "You travel alone."}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompanionHireDialog;
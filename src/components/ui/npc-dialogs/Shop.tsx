@@ -43,11 +43,18 @@ const BuyItemRow: React.FC<BuyItemRowProps> = ({ item, onBuy, canAfford }) => {
 interface SellItemRowProps {
   instanceId: string;
   templateId: string;
+  quantity: number;
   sellValue: number;
-  onSell: (instanceId: string, sellValue: number) => void;
+  onSell: (instanceId: string, sellValue: number, quantity: number) => void;
 }
 
-const SellItemRow: React.FC<SellItemRowProps> = ({ instanceId, templateId, sellValue, onSell }) => {
+const SellItemRow: React.FC<SellItemRowProps> = ({
+  instanceId,
+  templateId,
+  quantity,
+  sellValue,
+  onSell,
+}) => {
   const itemData = ItemDictionary.getItem(templateId);
 
   if (!itemData) return null;
@@ -61,13 +68,24 @@ const SellItemRow: React.FC<SellItemRowProps> = ({ instanceId, templateId, sellV
         <img src={imageSrc} alt={itemData.name} />
       </div>
       <div className="item-details">
-        <div className="item-name">{itemData.name}</div>
+        <div className="item-name">
+          {itemData.name}
+          {quantity > 1 && <span className="item-quantity"> ×{quantity}</span>}
+        </div>
         <div className="item-description">{itemData.description || ""}</div>
       </div>
       <div className="item-price">{sellValue} gold</div>
-      <button className="sell-button" onClick={() => onSell(instanceId, sellValue)}>
+      <button className="sell-button" onClick={() => onSell(instanceId, sellValue, 1)}>
         Sell
       </button>
+      {quantity > 1 && (
+        <button
+          className="sell-button sell-all-button"
+          onClick={() => onSell(instanceId, sellValue, quantity)}
+        >
+          Sell All
+        </button>
+      )}
     </div>
   );
 };
@@ -127,21 +145,25 @@ const Shop: React.FC = () => {
     // Create a new item instance
     const itemInstance = ItemInstanceManager.createItemInstance(item.itemId);
 
-    // Add to inventory
-    addItemInstanceToInventory(itemInstance);
+    const itemData = ItemDictionary.getItem(item.itemId);
+
+    // Add to inventory; nothing is charged if the player can't carry it
+    if (!addItemInstanceToInventory(itemInstance)) {
+      emitEvent("ui.message.show", `${itemData?.name || item.itemId} is too heavy to carry!`);
+      return;
+    }
 
     // Deduct gold
     updatePlayerGold(playerCharacter.gold - item.price);
 
     // Show message
-    const itemData = ItemDictionary.getItem(item.itemId);
     emitEvent("ui.message.show", `Purchased ${itemData?.name || item.itemId}!`);
   };
 
-  // Sell an item
-  const handleSell = (instanceId: string, sellValue: number) => {
+  // Sell an item, or part of a stack priced per item
+  const handleSell = (instanceId: string, sellValue: number, quantity: number) => {
     // Remove from inventory
-    const removed = removeItemInstanceFromInventory(instanceId);
+    const removed = removeItemInstanceFromInventory(instanceId, quantity);
 
     if (!removed) {
       console.error("Failed to remove item from inventory:", instanceId);
@@ -149,10 +171,14 @@ const Shop: React.FC = () => {
     }
 
     // Add gold
-    updatePlayerGold(playerCharacter.gold + sellValue);
+    const total = sellValue * quantity;
+    updatePlayerGold(playerCharacter.gold + total);
 
     // Show message
-    emitEvent("ui.message.show", `Sold item for ${sellValue} gold!`);
+    emitEvent(
+      "ui.message.show",
+      quantity > 1 ? `Sold ${quantity} items for ${total} gold!` : `Sold item for ${total} gold!`
+    );
   };
 
   // Check if player can afford item
@@ -173,6 +199,7 @@ const Shop: React.FC = () => {
         return {
           instanceId: instance.instanceId,
           templateId: instance.templateId,
+          quantity: instance.quantity || 1,
           sellValue: template.sellValue,
         };
       })
@@ -227,6 +254,7 @@ const Shop: React.FC = () => {
                       key={item.instanceId}
                       instanceId={item.instanceId}
                       templateId={item.templateId}
+                      quantity={item.quantity}
                       sellValue={item.sellValue}
                       onSell={handleSell}
                     />
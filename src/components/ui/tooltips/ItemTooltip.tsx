@@ -1,8 +1,22 @@
 import React, { useState, useEffect } from "react";
-import { ItemData, ItemInstance, ItemType, PlayerAttackType } from "../../../types";
+import {
+  DamageType,
+  ItemData,
+  ItemInstance,
+  ItemRarity,
+  ItemType,
+  PlayerAttackType,
+} from "../../../types";
 import { ItemInstanceManager } from "../../../utils/ItemInstanceManager";
+import { ItemComparison } from "../../../utils/ItemComparison";
 import { useGameStore } from "../../../stores/gameStore";
 import { SET_CONFIGURATIONS } from "../../../data/setConfig";
+import { getRarityTier } from "../../../data/itemRarity";
+import {
+  DAMAGE_TYPE_ICONS,
+  DAMAGE_TYPE_LABELS,
+  DAMAGE_TYPE_RESIST_STATS,
+} from "../../../data/damageTypes";
 
 interface ItemTooltipProps {
   itemInstance?: ItemInstance;
@@ -59,8 +73,20 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
 
   const quantity = itemInstance?.quantity || 1;
 
+  const rarityTier = itemInstance
+    ? ItemInstanceManager.getRarityTier(itemInstance)
+    : getRarityTier(itemData.rarity);
+  const hasRarity = rarityTier.rarity !== ItemRarity.COMMON;
+
+  // Rolled items are named after their first affix
+  const itemName =
+    itemInstance && !itemData.stackable
+      ? ItemInstanceManager.getDisplayName(itemInstance)
+      : itemData.name;
+
   const getItemNameColor = () => {
     if (isSetItem) return "#2ecc71";
+    if (hasRarity) return rarityTier.color;
     if (hasBonuses) return "#6ab5ff";
     if (isFood) return "#ffd280";
     if (isProduct) return "#ff9d5a";
@@ -91,8 +117,9 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
   };
 
   const getInstructionText = () => {
-    if (isFood) return "Right-click to consume";
-    if (isProduct) return "Right-click for options • Used for trading and crafting";
+    const splitHint = quantity > 1 ? " • Shift-drag to split" : "";
+    if (isFood) return `Right-click to consume${splitHint}`;
+    if (isProduct) return `Right-click for options • Used for trading and crafting${splitHint}`;
     return "Drag to equip or right-click for actions";
   };
 
@@ -109,6 +136,56 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
     return stats;
   };
 
+  const getCombatRollStats = () => {
+    const stats: Array<{ key: string; value: number; label: string; icon: string }> = [];
+
+    if (itemData.critChance && itemData.critChance > 0) {
+      stats.push({
+        key: "critChance",
+        value: itemData.critChance,
+        label: "Crit Chance",
+        icon: "💥",
+      });
+    }
+    if (itemData.critDamage && itemData.critDamage > 0) {
+      stats.push({
+        key: "critDamage",
+        value: itemData.critDamage,
+        label: "Crit Damage",
+        icon: "💢",
+      });
+    }
+    if (itemData.accuracy && itemData.accuracy > 0) {
+      stats.push({ key: "accuracy", value: itemData.accuracy, label: "Accuracy", icon: "🎯" });
+    }
+    if (itemData.dodge && itemData.dodge > 0) {
+      stats.push({ key: "dodge", value: itemData.dodge, label: "Dodge", icon: "💨" });
+    }
+
+    return stats;
+  };
+
+  const isResistStat = (stat: string) =>
+    (Object.values(DAMAGE_TYPE_RESIST_STATS) as string[]).includes(stat);
+
+  const getResistStats = () => {
+    const stats: Array<{ key: string; value: number; label: string; icon: string }> = [];
+
+    Object.entries(DAMAGE_TYPE_RESIST_STATS).forEach(([damageType, stat]) => {
+      const value = itemData[stat];
+      if (value && value > 0) {
+        stats.push({
+          key: stat,
+          value,
+          label: `${DAMAGE_TYPE_LABELS[damageType as DamageType]} Resist`,
+          icon: DAMAGE_TYPE_ICONS[damageType as DamageType],
+        });
+      }
+    });
+
+    return stats;
+  };
+
   const getSecondaryStats = () => {
     const stats: Array<{ key: string; value: number; label: string; icon: string }> = [];
 
@@ -133,6 +210,14 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
     if (itemData.capacity && itemData.capacity > 0) {
       stats.push({ key: "capacity", value: itemData.capacity, label: "Capacity", icon: "🎒" });
     }
+    if (itemData.containerSlots && itemData.containerSlots > 0) {
+      stats.push({
+        key: "containerSlots",
+        value: itemData.containerSlots,
+        label: "Slots",
+        icon: "👜",
+      });
+    }
     if (itemData.attackSpeed && itemData.attackSpeed > 0) {
       stats.push({
         key: "attackSpeed",
@@ -178,11 +263,42 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
   };
 
   const mainStats = getMainStats();
+  const percentStats = [...getCombatRollStats(), ...getResistStats()];
   const secondaryStats = getSecondaryStats();
   const hasMainStats = mainStats.length > 0;
   const hasSecondaryStats = secondaryStats.length > 0;
   const secondaryAttackInfo = getSecondaryAttackTypeDisplay();
 
+  // Weigh equippable items against whatever is worn in the same slot
+  const comparison = itemInstance ? ItemComparison.compare(itemInstance, playerCharacter) : null;
+
+  const formatComparisonValue = (value: number, percent?: boolean) =>
+    `${Math.round(value * 10) / 10}${percent ? "%" : ""}`;
+
+  const renderComparisonRow = (
+    key: string,
+    label: string,
+    equipped: number,
+    compared: number,
+    percent?: boolean
+  ) => {
+    const delta = Math.round((compared - equipped) * 10) / 10;
+    const deltaClass = delta > 0 ? "positive" : delta < 0 ? "negative" : "neutral";
+
+    return (
+      <div key={key} className="stat-row">
+        <span className="stat-label">{label}:</span>
+        <span className="comparison-values">
+          {formatComparisonValue(equipped, percent)} → {formatComparisonValue(compared, percent)}
+        </span>
+        <span className={`stat-value ${deltaClass}`}>
+          {delta > 0 && "+"}
+          {formatComparisonValue(delta, percent)}
+        </span>
+      </div>
+    );
+  };
+
   const getTooltipStyle = () => {
     return {
       display: visible ? "block" : "none",
@@ -193,6 +309,7 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
       width: "auto",
       right: 235,
       bottom: 30,
+      ...(hasRarity && { borderColor: rarityTier.color }),
     };
   };
 
@@ -205,7 +322,7 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
           </div>
           <div className="item-tooltip-title-section">
             <span className="item-name" style={{ color: getItemNameColor() }}>
-              {itemData.name}
+              {itemName}
               {quantity > 1 && (
                 <span
                   style={{
@@ -216,7 +333,7 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                   }}
                 >
                   {" "}
-                  ×{quantity}
+                  ×{quantity}/{ItemInstanceManager.getMaxStack(itemData.id)}
                 </span>
               )}
             </span>
@@ -233,6 +350,8 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                 }}
               >
                 {getCategoryDisplayName(itemData.category)}
+                {hasRarity && <span style={{ color: rarityTier.color }}> • {rarityTier.name}</span>}
+                {itemInstance?.itemLevel && ` • Item Level ${itemInstance.itemLevel}`}
               </div>
             )}
           </div>
@@ -283,6 +402,13 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                   ))}
                 </React.Fragment>
               )}
+              {percentStats.map((stat) => (
+                <div key={stat.key} className="stat-row">
+                  <span className="stat-icon">{stat.icon}</span>
+                  <span className="stat-label">{stat.label}:</span>
+                  <span className="stat-value positive">+{stat.value}%</span>
+                </div>
+              ))}
             </React.Fragment>
           )}
         </div>
@@ -411,7 +537,10 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                     <span className="stat-label">
                       {stat.charAt(0).toUpperCase() + stat.slice(1)}:
                     </span>
-                    <span className="stat-value positive">+{value}</span>
+                    <span className="stat-value positive">
+                      +{value}
+                      {isResistStat(stat) && "%"}
+                    </span>
                   </div>
                 ))}
             </div>
@@ -480,7 +609,10 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                       <span className="stat-label">
                         {stat.charAt(0).toUpperCase() + stat.slice(1)}:
                       </span>
-                      <span className="stat-value positive">+{value}</span>
+                      <span className="stat-value positive">
+                        +{value}
+                        {isResistStat(stat) && "%"}
+                      </span>
                     </div>
                   ))}
                 </React.Fragment>
@@ -489,6 +621,59 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
           </React.Fragment>
         )}
 
+        {comparison && (
+          <React.Fragment>
+            <div className="item-tooltip-divider"></div>
+            <div className="item-comparison-section">
+              <div className="item-comparison-title">
+                Compared to{" "}
+                {comparison.equippedItem
+                  ? ItemInstanceManager.getDisplayName(comparison.equippedItem)
+                  : "nothing equipped"}
+              </div>
+              {renderComparisonRow(
+                "autoAttackDamage",
+                "Attack Damage",
+                comparison.autoAttackDamage.equipped,
+                comparison.autoAttackDamage.compared
+              )}
+              {renderComparisonRow(
+                "damageReduction",
+                "Damage Reduction",
+                comparison.damageReduction.equipped,
+                comparison.damageReduction.compared
+              )}
+              {comparison.stats.map((stat) =>
+                renderComparisonRow(
+                  stat.key,
+                  stat.label,
+                  stat.equipped,
+                  stat.compared,
+                  stat.percent
+                )
+              )}
+              {comparison.setChanges.map((setChange) => (
+                <div key={setChange.setName} className="item-comparison-set">
+                  <div className="item-comparison-set-name">
+                    🔗 {setChange.setName}: {setChange.equippedPieces} → {setChange.comparedPieces}{" "}
+                    pieces
+                  </div>
+                  {setChange.gained.map((bonus) => (
+                    <div key={bonus} className="stat-value positive">
+                      + {bonus}
+                    </div>
+                  ))}
+                  {setChange.lost.map((bonus) => (
+                    <div key={bonus} className="stat-value negative">
+                      − {bonus}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </React.Fragment>
+        )}
+
         {itemData.description && (
           <div className={`item-tooltip-description ${isProduct ? "product-description" : ""}`}>
             {itemData.description}
@@ -0,0 +1,46 @@
+import { BossEncounterData } from "@/types";
+
+/**
+ * Scripted boss fights, keyed by the boss's monster type. A boss only runs its
+ * encounter if its MonsterData has isBoss set.
+ */
+export const BOSS_ENCOUNTERS: Record<string, BossEncounterData> = {
+  "bone-mancer": {
+    id: "bonemancer",
+    monsterType: "bone-mancer",
+    arenaRadius: 224, // 7 tiles
+    enrage: {
+      after: 120,
+      damageMultiplier: 2,
+      yell: "Enough! Your bones will join my collection!",
+    },
+    phases: [
+      {
+        id: "boneWard",
+        name: "Bone Ward",
+        healthThreshold: 1,
+        abilities: ["frostNova"],
+      },
+      {
+        id: "raiseTheDead",
+        name: "Raise the Dead",
+        healthThreshold: 0.6,
+        abilities: ["flameBolt", "frostNova"],
+        adds: [{ monsterType: "decayed-skeleton", count: 2 }],
+        yell: "Rise, my servants!",
+      },
+      {
+        id: "lastRites",
+        name: "Last Rites",
+        healthThreshold: 0.25,
+        abilities: ["groundSlam", "flameBolt", "frostNova"],
+        adds: [{ monsterType: "decayed-skeleton", count: 2 }],
+        damageMultiplier: 1.5,
+        yell: "I will not be laid to rest!",
+      },
+    ],
+  },
+};
+
+export const getBossEncounter = (monsterType: string): BossEncounterData | null =>
+  BOSS_ENCOUNTERS[monsterType] || null;
@@ -1,4 +1,5 @@
 import { eventBus } from "@/utils/EventBus";
+import { RandomService } from "@/services/RandomService";
 
 export interface LootEntry {
   itemId: string;
@@ -17,37 +18,51 @@ export const CHEST_LOOT_TABLES: Record<string, LootEntry[]> = {
   default: [{ itemId: "goldCoins", chance: 1.0 }],
 };
 
+// Level equipment from each table rolls its rarity and affixes at, 1 if not listed
+export const CHEST_ITEM_LEVELS: Record<string, number> = {
+  "noob-cave-table-poor": 1,
+};
+
+export const getChestItemLevel = (lootTableId: string): number =>
+  CHEST_ITEM_LEVELS[lootTableId] || 1;
+
 export class ChestLootTables {
   static generateLootFromTable(
     lootTableId: string,
     x: number,
     y: number,
-    spawnFunction: (itemId: string, x: number, y: number, quantity?: number) => void
+    spawnFunction: (
+      itemId: string,
+      x: number,
+      y: number,
+      quantity?: number,
+      itemLevel?: number
+    ) => void
   ): void {
     try {
       // Get the table or use default if not found
       const table = CHEST_LOOT_TABLES[lootTableId] || CHEST_LOOT_TABLES.default;
+      const random = RandomService.stream("loot");
+      const itemLevel = getChestItemLevel(lootTableId);
 
       // Generate loot from the table
       table.forEach((item) => {
         // Check if item should drop based on chance
-        if (Math.random() <= item.chance) {
-          const offsetX = Math.random() * 30 - 15;
-          const offsetY = Math.random() * 30 - 15;
+        if (random.next() <= item.chance) {
+          const offsetX = random.float(-15, 15);
+          const offsetY = random.float(-15, 15);
 
           // Calculate quantity if specified
           let quantity = 1;
           if (item.minQuantity !== undefined && item.maxQuantity !== undefined) {
-            quantity = Math.floor(
-              Math.random() * (item.maxQuantity - item.minQuantity + 1) + item.minQuantity
-            );
+            quantity = random.int(item.minQuantity, item.maxQuantity);
           } else if (item.minQuantity !== undefined) {
             // If only minQuantity is specified, use it as the fixed quantity
             quantity = item.minQuantity;
           }
 
           // Spawn the item WITH the calculated quantity
-          spawnFunction(item.itemId, x + offsetX, y + offsetY, quantity);
+          spawnFunction(item.itemId, x + offsetX, y + offsetY, quantity, itemLevel);
         }
       });
     } catch (error) {
@@ -0,0 +1,50 @@
+import { ClassDefinition, Classes, NPCData } from "@/types";
+
+// Class configurations - single source of truth for class stats and ability access
+export const CLASS_DEFINITIONS: Record<Classes, ClassDefinition> = {
+  [Classes.KNIGHT]: {
+    id: Classes.KNIGHT,
+    name: "Knight",
+    description: "A sturdy frontline fighter who masters melee weapons and shields.",
+    baseHealth: 130,
+    baseMana: 60,
+    learnableAbilityTypes: ["general", "melee"],
+  },
+  [Classes.MAGE]: {
+    id: Classes.MAGE,
+    name: "Mage",
+    description: "A fragile spellcaster with a deep pool of mana and destructive magic.",
+    baseHealth: 80,
+    baseMana: 160,
+    learnableAbilityTypes: ["general", "magic"],
+  },
+  [Classes.RANGER]: {
+    id: Classes.RANGER,
+    name: "Ranger",
+    description: "A nimble marksman who strikes from afar with bows.",
+    baseHealth: 100,
+    baseMana: 90,
+    learnableAbilityTypes: ["general", "archery"],
+  },
+  [Classes.NONE]: {
+    id: Classes.NONE,
+    name: "Adventurer",
+    description: "An adventurer who has not yet chosen a path.",
+    baseHealth: 100,
+    baseMana: 100,
+    learnableAbilityTypes: ["general"],
+  },
+};
+
+export const getClassDefinition = (playerClass: Classes): ClassDefinition =>
+  CLASS_DEFINITIONS[playerClass] || CLASS_DEFINITIONS[Classes.NONE];
+
+/**
+ * The class a trainer NPC teaches, based on its trainer flags
+ */
+export const getTrainerClass = (npcData: NPCData): Classes | null => {
+  if (npcData.isWarriorTrainer) return Classes.KNIGHT;
+  if (npcData.isMageTrainer) return Classes.MAGE;
+  if (npcData.isArcherTrainer) return Classes.RANGER;
+  return null;
+};
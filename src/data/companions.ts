@@ -0,0 +1,56 @@
+import { CompanionData, DamageType } from "@/types";
+
+export const COMPANION_DEFINITIONS: Record<string, CompanionData> = {
+  "sellsword-garrick": {
+    id: "sellsword-garrick",
+    name: "Garrick",
+    texture: "playerCharacter",
+    description: "A sturdy sellsword who stands between you and whatever bites.",
+    price: 60,
+    maxHealth: 120,
+    damage: 6,
+    armor: 8,
+    dodgeChance: 5,
+    attackType: "melee",
+    attackRange: 40, // ~1.25 tiles
+    attackCooldown: 2000,
+    moveSpeed: 250,
+    tint: 0xd9a066,
+  },
+  "scout-lira": {
+    id: "scout-lira",
+    name: "Lira",
+    texture: "playerCharacter",
+    description: "A quick-footed scout who picks off monsters from range.",
+    price: 80,
+    maxHealth: 70,
+    damage: 5,
+    armor: 2,
+    dodgeChance: 15,
+    attackType: "ranged",
+    attackRange: 192, // 6 tiles
+    attackCooldown: 1800,
+    moveSpeed: 280,
+    tint: 0x8fd16a,
+  },
+  "hedge-mage-orin": {
+    id: "hedge-mage-orin",
+    name: "Orin",
+    texture: "playerCharacter",
+    description: "A travelling hedge mage whose fire bolts ignore armor.",
+    price: 100,
+    maxHealth: 60,
+    damage: 7,
+    armor: 0,
+    dodgeChance: 5,
+    attackType: "magic",
+    damageType: DamageType.FIRE,
+    attackRange: 192, // 6 tiles
+    attackCooldown: 2500,
+    moveSpeed: 240,
+    tint: 0x7fb2ff,
+  },
+};
+
+export const getCompanionDefinition = (companionId: string): CompanionData | null =>
+  COMPANION_DEFINITIONS[companionId] || null;
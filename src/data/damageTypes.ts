@@ -0,0 +1,34 @@
+import { DamageType, ResistStatKey } from "@/types";
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  [DamageType.PHYSICAL]: "Physical",
+  [DamageType.FIRE]: "Fire",
+  [DamageType.ICE]: "Ice",
+  [DamageType.ENERGY]: "Energy",
+  [DamageType.POISON]: "Poison",
+};
+
+export const DAMAGE_TYPE_ICONS: Record<DamageType, string> = {
+  [DamageType.PHYSICAL]: "🗡️",
+  [DamageType.FIRE]: "🔥",
+  [DamageType.ICE]: "❄️",
+  [DamageType.ENERGY]: "⚡",
+  [DamageType.POISON]: "☠️",
+};
+
+// Item stat holding the resistance for each damage type
+export const DAMAGE_TYPE_RESIST_STATS: Record<DamageType, ResistStatKey> = {
+  [DamageType.PHYSICAL]: "physicalResist",
+  [DamageType.FIRE]: "fireResist",
+  [DamageType.ICE]: "iceResist",
+  [DamageType.ENERGY]: "energyResist",
+  [DamageType.POISON]: "poisonResist",
+};
+
+export const createEmptyResistances = (): Record<DamageType, number> => ({
+  [DamageType.PHYSICAL]: 0,
+  [DamageType.FIRE]: 0,
+  [DamageType.ICE]: 0,
+  [DamageType.ENERGY]: 0,
+  [DamageType.POISON]: 0,
+});
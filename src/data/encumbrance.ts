@@ -0,0 +1,28 @@
+import { EncumbranceLevel } from "@/types";
+
+// Carrying capacity before equipment bonuses
+export const BASE_CARRY_CAPACITY = 200;
+
+// Ordered from lightest to heaviest. Nothing can be picked up past the last level.
+export const ENCUMBRANCE_LEVELS: EncumbranceLevel[] = [
+  { id: "normal", name: "Unburdened", maxLoad: 1, moveSpeedMultiplier: 1 },
+  { id: "burdened", name: "Burdened", maxLoad: 1.25, moveSpeedMultiplier: 0.8 },
+  { id: "overloaded", name: "Overloaded", maxLoad: 1.5, moveSpeedMultiplier: 0.5 },
+];
+
+/**
+ * Most weight the player can carry at all, heavily slowed
+ */
+export const getCarryLimit = (maxCapacity: number): number =>
+  maxCapacity * ENCUMBRANCE_LEVELS[ENCUMBRANCE_LEVELS.length - 1].maxLoad;
+
+export const getEncumbranceLevel = (
+  currentCapacity: number,
+  maxCapacity: number
+): EncumbranceLevel => {
+  const load = maxCapacity > 0 ? currentCapacity / maxCapacity : Infinity;
+  return (
+    ENCUMBRANCE_LEVELS.find((level) => load <= level.maxLoad) ||
+    ENCUMBRANCE_LEVELS[ENCUMBRANCE_LEVELS.length - 1]
+  );
+};
@@ -0,0 +1,135 @@
+import {
+  ItemAffixDefinition,
+  ItemCategory,
+  ItemRarity,
+  ItemRarityTier,
+  MonsterData,
+} from "@/types";
+
+// Ordered from most to least common; a template's rarity is the lowest a drop can roll.
+// Colors match the @quality-* styles.
+export const ITEM_RARITY_TIERS: ItemRarityTier[] = [
+  {
+    rarity: ItemRarity.COMMON,
+    name: "Common",
+    color: "#9d9d9d",
+    weight: 600,
+    affixCount: 0,
+    statMultiplier: 1,
+  },
+  {
+    rarity: ItemRarity.UNCOMMON,
+    name: "Uncommon",
+    color: "#1eff00",
+    weight: 250,
+    affixCount: 1,
+    statMultiplier: 1,
+  },
+  {
+    rarity: ItemRarity.RARE,
+    name: "Rare",
+    color: "#0070dd",
+    weight: 110,
+    affixCount: 2,
+    statMultiplier: 1.15,
+  },
+  {
+    rarity: ItemRarity.EPIC,
+    name: "Epic",
+    color: "#a335ee",
+    weight: 35,
+    affixCount: 3,
+    statMultiplier: 1.3,
+  },
+  {
+    rarity: ItemRarity.LEGENDARY,
+    name: "Legendary",
+    color: "#ff8000",
+    weight: 5,
+    affixCount: 4,
+    statMultiplier: 1.5,
+  },
+];
+
+// Each item level above 1 makes every tier past common this much more likely
+export const RARITY_WEIGHT_PER_LEVEL = 0.1;
+
+// Item level added for drops from champions and bosses
+export const ITEM_LEVEL_BONUS = { rare: 2, boss: 5 };
+
+export const ITEM_AFFIXES: Record<string, ItemAffixDefinition> = {
+  mighty: { id: "mighty", name: "Mighty", stat: "power", min: 1, max: 3, perLevel: 0.5 },
+  sturdy: { id: "sturdy", name: "Sturdy", stat: "armor", min: 1, max: 2, perLevel: 0.3 },
+  vital: { id: "vital", name: "Vital", stat: "health", min: 5, max: 15, perLevel: 3 },
+  arcane: { id: "arcane", name: "Arcane", stat: "mana", min: 5, max: 15, perLevel: 3 },
+  skilled: { id: "skilled", name: "Skilled", stat: "melee", min: 1, max: 2, perLevel: 0.25 },
+  mending: { id: "mending", name: "Mending", stat: "healthRegen", min: 1, max: 2, perLevel: 0.2 },
+  serene: { id: "serene", name: "Serene", stat: "manaRegen", min: 1, max: 2, perLevel: 0.2 },
+  burly: { id: "burly", name: "Burly", stat: "capacity", min: 10, max: 25, perLevel: 5 },
+  warded: { id: "warded", name: "Warded", stat: "physicalResist", min: 2, max: 4, perLevel: 0.5 },
+  fireproof: {
+    id: "fireproof",
+    name: "Fireproof",
+    stat: "fireResist",
+    min: 3,
+    max: 6,
+    perLevel: 0.5,
+  },
+  frostproof: {
+    id: "frostproof",
+    name: "Frostproof",
+    stat: "iceResist",
+    min: 3,
+    max: 6,
+    perLevel: 0.5,
+  },
+  grounded: {
+    id: "grounded",
+    name: "Grounded",
+    stat: "energyResist",
+    min: 3,
+    max: 6,
+    perLevel: 0.5,
+  },
+  antivenom: {
+    id: "antivenom",
+    name: "Antivenom",
+    stat: "poisonResist",
+    min: 3,
+    max: 6,
+    perLevel: 0.5,
+  },
+};
+
+const RESIST_AFFIXES = ["warded", "fireproof", "frostproof", "grounded", "antivenom"];
+
+// Affix ids each category can roll; categories left out never roll affixes
+export const ITEM_AFFIX_POOLS: Partial<Record<ItemCategory, string[]>> = {
+  [ItemCategory.WEAPON_MELEE]: ["mighty", "skilled", "vital", "mending"],
+  [ItemCategory.WEAPON_MAGIC]: ["mighty", "arcane", "serene"],
+  [ItemCategory.WEAPON_RANGED]: ["mighty", "vital", "mending"],
+  [ItemCategory.ARMOR]: ["sturdy", "vital", "mending", "burly", ...RESIST_AFFIXES],
+  [ItemCategory.SHIELD]: ["sturdy", "vital", "skilled", ...RESIST_AFFIXES],
+  [ItemCategory.HELMET]: ["sturdy", "vital", "arcane", ...RESIST_AFFIXES],
+  [ItemCategory.AMULET]: ["vital", "arcane", "mending", "serene", ...RESIST_AFFIXES],
+  [ItemCategory.TRINKET]: ["vital", "arcane", "mending", "serene", "burly"],
+};
+
+export const getRarityTier = (rarity: ItemRarity = ItemRarity.COMMON): ItemRarityTier =>
+  ITEM_RARITY_TIERS.find((tier) => tier.rarity === rarity) || ITEM_RARITY_TIERS[0];
+
+export const getItemAffix = (affixId: string): ItemAffixDefinition | undefined =>
+  ITEM_AFFIXES[affixId];
+
+export const getAffixPool = (category?: ItemCategory): ItemAffixDefinition[] =>
+  ((category && ITEM_AFFIX_POOLS[category]) || []).map((affixId) => ITEM_AFFIXES[affixId]);
+
+/**
+ * Level a monster's drops roll at
+ */
+export const getMonsterItemLevel = (
+  monster: Pick<MonsterData, "itemLevel" | "isRare" | "isBoss">
+): number =>
+  (monster.itemLevel || 1) +
+  (monster.isRare ? ITEM_LEVEL_BONUS.rare : 0) +
+  (monster.isBoss ? ITEM_LEVEL_BONUS.boss : 0);
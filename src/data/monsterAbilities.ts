@@ -0,0 +1,97 @@
+import { DamageType, MonsterAbility, StatusEffectType } from "@/types";
+
+/**
+ * Spells monsters cast at the player. Each one is rendered by one of the shared
+ * ability animation strategies and is telegraphed for castTime before it fires.
+ */
+export const MONSTER_ABILITIES: Record<string, MonsterAbility> = {
+  flameBolt: {
+    id: "flameBolt",
+    name: "Flame Bolt",
+    description: "Hurls a bolt of fire that bursts on impact.",
+    icon: "assets/abilities/fireball.png",
+    cooldown: 5,
+    castTime: 700,
+    damage: 5,
+    damageType: DamageType.FIRE,
+    statusEffect: { type: StatusEffectType.BURN, chance: 0.25 },
+    weaponType: "monster",
+    requiredWeapon: "any",
+    skillId: "magic",
+    range: 200,
+    animationType: "projectile",
+    animationConfig: {
+      effectDuration: 1000,
+      projectileSpeed: 220,
+      explosionRadius: 24,
+    },
+  },
+
+  frostNova: {
+    id: "frostNova",
+    name: "Frost Nova",
+    description: "Releases a ring of frost that chills everything nearby.",
+    icon: "assets/abilities/energy-wave.png",
+    cooldown: 8,
+    castTime: 900,
+    damage: 4,
+    damageType: DamageType.ICE,
+    statusEffect: { type: StatusEffectType.SLOW },
+    weaponType: "monster",
+    requiredWeapon: "any",
+    skillId: "magic",
+    range: 96,
+    animationType: "expanding",
+    animationConfig: {
+      effectDuration: 800,
+      startRadius: 16,
+      endRadius: 96,
+      expansionTime: 500,
+      hitDistanceTolerance: 16,
+    },
+  },
+
+  groundSlam: {
+    id: "groundSlam",
+    name: "Ground Slam",
+    description: "Slams the ground, shaking every tile around the caster.",
+    icon: "assets/abilities/bash.png",
+    cooldown: 10,
+    castTime: 800,
+    damage: 5,
+    damageType: DamageType.PHYSICAL,
+    statusEffect: { type: StatusEffectType.STUN, chance: 0.25 },
+    weaponType: "monster",
+    requiredWeapon: "any",
+    skillId: "meleeWeapons",
+    range: 64,
+    animationType: "tileGrid",
+    animationConfig: {
+      effectDuration: 800,
+    },
+  },
+
+  venomArrow: {
+    id: "venomArrow",
+    name: "Venom Arrow",
+    description: "Looses a poisoned arrow.",
+    icon: "assets/abilities/power-shot.png",
+    cooldown: 6,
+    castTime: 500,
+    damage: 4,
+    damageType: DamageType.POISON,
+    statusEffect: { type: StatusEffectType.POISON },
+    weaponType: "monster",
+    requiredWeapon: "any",
+    skillId: "archery",
+    range: 260,
+    animationType: "projectile",
+    animationConfig: {
+      effectDuration: 800,
+      projectileSpeed: 320,
+    },
+  },
+};
+
+export const getMonsterAbility = (abilityId: string): MonsterAbility | null =>
+  MONSTER_ABILITIES[abilityId] || null;
@@ -0,0 +1,70 @@
+import { DamageType, MonsterAffixDefinition, MonsterAffixType, WeightedItemDrop } from "@/types";
+
+export const MONSTER_AFFIX_DEFINITIONS: Record<MonsterAffixType, MonsterAffixDefinition> = {
+  [MonsterAffixType.HASTED]: {
+    type: MonsterAffixType.HASTED,
+    name: "Hasted",
+    description: "Moves and attacks faster.",
+    tint: 0xffee55,
+    moveSpeedMultiplier: 1.5,
+    attackCooldownMultiplier: 0.7,
+    experienceMultiplier: 1.25,
+  },
+  [MonsterAffixType.ARMORED]: {
+    type: MonsterAffixType.ARMORED,
+    name: "Armored",
+    description: "Thick plating shrugs off physical blows.",
+    tint: 0x9999aa,
+    healthMultiplier: 1.25,
+    armorBonus: 4,
+    experienceMultiplier: 1.25,
+  },
+  [MonsterAffixType.VAMPIRIC]: {
+    type: MonsterAffixType.VAMPIRIC,
+    name: "Vampiric",
+    description: "Heals for part of the damage it deals.",
+    tint: 0xaa2244,
+    damageMultiplier: 1.2,
+    lifeSteal: 0.5,
+    experienceMultiplier: 1.25,
+  },
+  [MonsterAffixType.EXPLOSIVE]: {
+    type: MonsterAffixType.EXPLOSIVE,
+    name: "Explosive",
+    description: "Bursts into flame shortly after dying.",
+    tint: 0xff7722,
+    experienceMultiplier: 1.25,
+    deathExplosion: {
+      damage: 6,
+      radius: 64,
+      delay: 800,
+      damageType: DamageType.FIRE,
+    },
+  },
+};
+
+// Every champion gets this on top of its affixes
+export const CHAMPION_SCALING = {
+  healthMultiplier: 2,
+  damageMultiplier: 1.25,
+  armorBonus: 1,
+  experienceMultiplier: 2,
+};
+
+// How many affixes a rare spawn rolls
+export const CHAMPION_AFFIX_COUNT = { min: 1, max: 2 };
+
+/**
+ * Champions always drop one extra item from this table, on top of their own drops
+ */
+export const CHAMPION_LOOT_TABLE: WeightedItemDrop[] = [
+  { itemId: "goldCoins", weight: 40, minQuantity: 20, maxQuantity: 50 },
+  { itemId: "boneCharm", weight: 15 },
+  { itemId: "skullCap", weight: 15 },
+  { itemId: "skeletalMedallion", weight: 10 },
+  { itemId: "skeletalArmor", weight: 10 },
+  { itemId: "fireSword", weight: 10 },
+];
+
+export const getMonsterAffixDefinition = (type: MonsterAffixType): MonsterAffixDefinition =>
+  MONSTER_AFFIX_DEFINITIONS[type];
@@ -0,0 +1,49 @@
+import {
+  DamageType,
+  StatusEffectDefinition,
+  StatusEffectStacking,
+  StatusEffectType,
+} from "@/types";
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+  [StatusEffectType.POISON]: {
+    type: StatusEffectType.POISON,
+    name: "Poisoned",
+    icon: "☠️",
+    duration: 8000,
+    stacking: StatusEffectStacking.STACK,
+    maxStacks: 5,
+    tickInterval: 1000,
+    tickDamage: 1,
+    damageType: DamageType.POISON,
+  },
+  [StatusEffectType.BURN]: {
+    type: StatusEffectType.BURN,
+    name: "Burning",
+    icon: "🔥",
+    duration: 4000,
+    stacking: StatusEffectStacking.REFRESH,
+    tickInterval: 500,
+    tickDamage: 2,
+    damageType: DamageType.FIRE,
+  },
+  [StatusEffectType.SLOW]: {
+    type: StatusEffectType.SLOW,
+    name: "Slowed",
+    icon: "🐌",
+    duration: 3000,
+    stacking: StatusEffectStacking.REFRESH,
+    moveSpeedMultiplier: 0.5,
+  },
+  [StatusEffectType.STUN]: {
+    type: StatusEffectType.STUN,
+    name: "Stunned",
+    icon: "💫",
+    duration: 1500,
+    stacking: StatusEffectStacking.IGNORE,
+    preventsActions: true,
+  },
+};
+
+export const getStatusEffectDefinition = (type: StatusEffectType): StatusEffectDefinition =>
+  STATUS_EFFECT_DEFINITIONS[type];
@@ -1,5 +1,7 @@
 import { Entity } from "./Entity";
 import { eventBus } from "@/utils/EventBus";
+import { StatusEffectComponent } from "./StatusEffectComponent";
+import { StatusEffectApplication } from "@/types";
 
 export abstract class Character extends Entity {
   health: number = 100;
@@ -38,6 +40,14 @@ export abstract class Character extends Entity {
     }
   }
 
+  /**
+   * Apply a status effect if this character has a status effect component
+   */
+  applyStatusEffect(application: StatusEffectApplication, sourceId?: string): boolean {
+    const statusEffects = this.components.get<StatusEffectComponent>("statusEffects");
+    return statusEffects ? statusEffects.applyEffect(application, sourceId) : false;
+  }
+
   heal(amount: number): void {
     try {
       if (this.isDead) return;
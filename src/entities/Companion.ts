@@ -0,0 +1,196 @@
+import { Character } from "./Character";
+import { HealthComponent } from "./HealthComponent";
+import { StatusEffectComponent } from "./StatusEffectComponent";
+import { CompanionFollowComponent } from "./companion/CompanionFollowComponent";
+import { CompanionCombatComponent } from "./companion/CompanionCombatComponent";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
+import { PathfindingService } from "@/services/PathfindingService";
+import { CompanionData, DamageType, DamageMitigation } from "@/types";
+
+/**
+ * A hired NPC that follows the player and fights their auto-attack target
+ */
+export class Companion extends Character {
+  companionId: string;
+  companionName: string;
+  armor: number = 0;
+  dodgeChance: number = 0;
+  facing: string = "down";
+
+  constructor(scene: Phaser.Scene, x: number, y: number, companionData: CompanionData) {
+    super(scene, x, y, companionData.texture || "playerCharacter", `companion-${companionData.id}`);
+
+    this.companionId = companionData.id;
+    this.companionName = companionData.name;
+
+    try {
+      this.health = companionData.maxHealth;
+      this.maxHealth = companionData.maxHealth;
+      this.armor = companionData.armor;
+      this.dodgeChance = companionData.dodgeChance;
+
+      // Set origin to center the sprite on the tile
+      this.setOrigin(0.8, 0.8);
+
+      if (companionData.tint !== undefined) {
+        this.color = companionData.tint;
+        this.setTint(companionData.tint);
+      }
+
+      this.addComponents(companionData);
+      this.playAnimation("down", false);
+
+      eventBus.emit("companion.created", {
+        id: this.id,
+        companionId: this.companionId,
+        name: this.companionName,
+        position: { x: this.x, y: this.y },
+      });
+    } catch (error) {
+      console.error(`Error creating companion ${companionData.id}:`, error);
+      eventBus.emit("error.companion.create", { id: companionData.id, error });
+    }
+  }
+
+  private addComponents(companionData: CompanionData): void {
+    try {
+      this.components.add("health", new HealthComponent(this));
+      this.components.add(
+        "movement",
+        new CompanionFollowComponent(this, companionData.moveSpeed, companionData.attackRange)
+      );
+      this.components.add("combat", new CompanionCombatComponent(this, companionData));
+      this.components.add("statusEffects", new StatusEffectComponent(this));
+    } catch (error) {
+      console.error(`Error adding components to companion ${this.companionId}:`, error);
+      eventBus.emit("error.companion.components", { id: this.id, error });
+    }
+  }
+
+  playAnimation(direction: string, isMoving: boolean): void {
+    try {
+      if (this.isDead) return;
+
+      this.facing = direction;
+
+      const animKey = isMoving ? `walk-${direction}` : `idle-${direction}`;
+      if (!this.scene.anims.exists(animKey)) return;
+
+      if (!this.anims.isPlaying || this.anims.currentAnim?.key !== animKey) {
+        this.anims.play(animKey, true);
+      }
+    } catch (error) {
+      console.error(`Error in companion ${this.id} playAnimation:`, error);
+    }
+  }
+
+  /**
+   * What this companion's resistances and armor do to an incoming hit, without applying it.
+   * Companions use the monster armor formula.
+   */
+  calculateMitigation(
+    amount: number,
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): DamageMitigation {
+    return DamageFormulas.calculateMitigation(
+      amount,
+      DamageFormulas.calculateMonsterDamageReduction(this.armor),
+      isMagicDamage,
+      damageType
+    );
+  }
+
+  /**
+   * Same signature as PlayerCharacter.takeDamage so monster attacks, spells and
+   * status effect ticks can hit either
+   */
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    attackerMonsterId?: string,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): boolean {
+    try {
+      if (this.isDead) return false;
+
+      const { finalDamage } = this.calculateMitigation(amount, isMagicDamage, damageType);
+
+      eventBus.emit("companion.damage.taken", {
+        id: this.id,
+        companionId: this.companionId,
+        amount: finalDamage,
+        damageType,
+        attackerMonsterId,
+        currentHealth: Math.max(0, this.health - finalDamage),
+        maxHealth: this.maxHealth,
+      });
+
+      // Flash when hit
+      const originalAlpha = this.alpha;
+      this.scene.tweens.add({
+        targets: this,
+        alpha: 0.7,
+        duration: 100,
+        yoyo: true,
+        repeat: 1,
+        onComplete: () => {
+          this.alpha = originalAlpha;
+        },
+      });
+
+      return super.takeDamage(finalDamage);
+    } catch (error) {
+      console.error(`Error applying damage to companion ${this.id}:`, error);
+      eventBus.emit("error.companion.damage", { id: this.id, error });
+      return false;
+    }
+  }
+
+  die(): void {
+    try {
+      if (this.isDead) return;
+
+      super.die();
+
+      this.components.get<CompanionFollowComponent>("movement")?.disable();
+      this.components.get<CompanionCombatComponent>("combat")?.disable();
+      PathfindingService.releaseTile(this);
+
+      eventBus.emit("companion.died", {
+        id: this.id,
+        companionId: this.companionId,
+        name: this.companionName,
+      });
+
+      this.scene.tweens.add({
+        targets: this,
+        alpha: 0,
+        duration: 500,
+        ease: "Power2",
+        onComplete: () => this.destroy(),
+      });
+    } catch (error) {
+      console.error(`Error in companion ${this.id} die method:`, error);
+      eventBus.emit("error.companion.die", { id: this.id, error });
+      this.destroy();
+    }
+  }
+
+  destroy(): void {
+    try {
+      PathfindingService.releaseTile(this);
+
+      const gameScene = this.scene as Phaser.Scene & { companions?: Phaser.GameObjects.Group };
+      if (gameScene?.companions) {
+        gameScene.companions.remove(this, false);
+      }
+
+      super.destroy();
+    } catch (error) {
+      console.error(`Error destroying companion ${this.id}:`, error);
+      eventBus.emit("error.companion.destroy", { id: this.id, error });
+    }
+  }
+}
@@ -1,10 +1,15 @@
 import { Component } from "./Component";
 import { Character } from "../entities/Character";
 import { eventBus } from "@/utils/EventBus";
+import { getStatusEffectDefinition } from "@/data/statusEffects";
+import { StatusEffectType } from "@/types";
 
 export class HealthComponent extends Component {
   private healthBar: Phaser.GameObjects.Graphics | null = null;
   private nameText: Phaser.GameObjects.Text | null = null;
+  private statusText: Phaser.GameObjects.Text | null = null;
+  private statusIcons: string = "";
+  private unsubscribeStatus: (() => void) | null = null;
   private isInitialized: boolean = false;
 
   constructor(entity: Character) {
@@ -23,6 +28,12 @@ export class HealthComponent extends Component {
       // Listen for health changes
       eventBus.on(`entity.${this.entity.id}.health.changed`, this.updateHealthBar.bind(this));
 
+      // Show status effect icons above the name
+      this.unsubscribeStatus = eventBus.on(
+        `entity.${this.entity.id}.status.changed`,
+        this.updateStatusIcons.bind(this)
+      );
+
       super.initialize();
     } catch (error) {
       eventBus.emit("error.component", {
@@ -54,6 +65,8 @@ export class HealthComponent extends Component {
         }
       } else if ((this.character as any).npcName) {
         displayName = (this.character as any).npcName;
+      } else if ("companionName" in this.character) {
+        displayName = String(this.character.companionName);
       }
 
       // Create name text with improved styling and higher depth
@@ -72,6 +85,16 @@ export class HealthComponent extends Component {
       this.nameText.setOrigin(0.5);
       this.nameText.setDepth(1000); // High depth to ensure visibility
 
+      // Status effect icons sit above the name
+      this.statusText = this.entity.scene.add.text(
+        this.entity.x,
+        this.entity.y - 52,
+        this.statusIcons,
+        { fontFamily: "Arial, sans-serif", fontSize: "10px" }
+      );
+      this.statusText.setOrigin(0.5);
+      this.statusText.setDepth(1000);
+
       // Create health bar with high depth
       this.healthBar = this.entity.scene.add.graphics();
       this.healthBar.setDepth(1000); // High depth to ensure visibility
@@ -112,6 +135,11 @@ export class HealthComponent extends Component {
       this.nameText.setVisible(true);
       this.nameText.setDepth(1000);
 
+      if (this.statusText) {
+        this.statusText.setPosition(this.entity.x, this.entity.y - 52);
+        this.statusText.setVisible(this.statusIcons.length > 0);
+      }
+
       // Clear previous drawing
       this.healthBar.clear();
 
@@ -158,6 +186,27 @@ export class HealthComponent extends Component {
     }
   }
 
+  /**
+   * Update the status effect icons shown above the health bar
+   */
+  updateStatusIcons(effects: { type: StatusEffectType; stacks: number }[]): void {
+    try {
+      this.statusIcons = effects
+        .map((effect) => {
+          const icon = getStatusEffectDefinition(effect.type)?.icon || "";
+          return effect.stacks > 1 ? `${icon}${effect.stacks}` : icon;
+        })
+        .join(" ");
+
+      if (this.statusText) {
+        this.statusText.setText(this.statusIcons);
+        this.statusText.setVisible(this.statusIcons.length > 0);
+      }
+    } catch (error) {
+      console.error(`Error updating status icons for entity ${this.entity.id}:`, error);
+    }
+  }
+
   /**
    * Force refresh the health bar - useful after map changes
    */
@@ -189,6 +238,11 @@ export class HealthComponent extends Component {
         this.nameText.destroy();
         this.nameText = null;
       }
+
+      if (this.statusText) {
+        this.statusText.destroy();
+        this.statusText = null;
+      }
     } catch (error) {
       console.error(`Error destroying health bar elements for entity ${this.entity.id}:`, error);
     }
@@ -212,6 +266,10 @@ export class HealthComponent extends Component {
     try {
       // Remove event listeners
       eventBus.off(`entity.${this.entity.id}.health.changed`, this.updateHealthBar);
+      if (this.unsubscribeStatus) {
+        this.unsubscribeStatus();
+        this.unsubscribeStatus = null;
+      }
 
       // Clean up health bar elements
       this.destroyHealthBarElements();
@@ -3,7 +3,7 @@ import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
 import Phaser from "phaser";
-import { ItemBonusStats } from "@/types";
+import { ItemBonusStats, ItemInstance, ItemRarity, ItemRoll } from "@/types";
 
 export class Item extends Phaser.Physics.Arcade.Sprite {
   templateId!: string;
@@ -21,6 +21,9 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
   sparkleEmitter: Phaser.GameObjects.Particles.ParticleEmitter | null = null;
   sparkleGraphics: Phaser.GameObjects.Graphics | null = null;
   quantity?: number;
+  rarity?: ItemRarity;
+  itemLevel?: number;
+  affixes?: string[];
 
   constructor(
     scene: Phaser.Scene,
@@ -29,13 +32,15 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
     templateId: string,
     instanceId: string,
     bonusStats?: ItemBonusStats,
-    quantity?: number
+    quantity?: number,
+    roll?: ItemRoll
   ) {
     // Create an item instance object for consistent handling
     const instance = {
       templateId,
       instanceId,
       bonusStats,
+      ...roll,
     };
 
     // Get combined stats that include bonus stats if any
@@ -60,6 +65,9 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
       this.itemType = ItemDictionary.getItemType(templateId);
       this.bonusStats = bonusStats;
       this.quantity = quantity;
+      this.rarity = roll?.rarity;
+      this.itemLevel = roll?.itemLevel;
+      this.affixes = roll?.affixes;
 
       // Check if this is a set item
       this.isSetItem = !!itemData?.set;
@@ -208,10 +216,28 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
     }
   }
 
+  /**
+   * The inventory item this world item becomes when picked up
+   */
+  getItemInstance(): ItemInstance {
+    return {
+      templateId: this.templateId,
+      instanceId: this.instanceId,
+      bonusStats: this.bonusStats,
+      quantity: this.quantity,
+      rarity: this.rarity,
+      itemLevel: this.itemLevel,
+      affixes: this.affixes,
+    };
+  }
+
   // Add sparkle effects for special items
   addSparkleEffect(): void {
     try {
       const hasBonusStats = this.bonusStats && Object.keys(this.bonusStats).length > 0;
+      const rarityColor = Phaser.Display.Color.HexStringToColor(
+        ItemInstanceManager.getRarityTier(this.getItemInstance()).color
+      ).color;
 
       if (hasBonusStats || this.isSetItem) {
         // Create sparkle graphics object
@@ -243,8 +269,8 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
                 // Green for set items
                 this.sparkleGraphics.fillStyle(0x2ecc71, 0.7);
               } else if (hasBonusStats) {
-                // Blue for bonus items
-                this.sparkleGraphics.fillStyle(0x3498db, 0.7);
+                // Rarity color for rolled items
+                this.sparkleGraphics.fillStyle(rarityColor, 0.7);
               }
 
               this.sparkleGraphics.fillCircle(x, y, size);
@@ -3,26 +3,47 @@ import { MonsterAIComponent } from "./monster/MonsterAIComponent";
 import { MonsterCombatComponent } from "./monster/MonsterCombatComponent";
 import { MonsterDropComponent } from "./monster/MonsterDropComponent";
 import { MonsterMovementComponent } from "./monster/MonsterMovementComponent";
+import { MonsterSpellcastingComponent } from "./monster/MonsterSpellcastingComponent";
+import { MonsterThreatComponent } from "./monster/MonsterThreatComponent";
+import { MonsterBossComponent } from "./monster/MonsterBossComponent";
+import { MonsterAffixComponent } from "./monster/MonsterAffixComponent";
 import { HealthComponent } from "./HealthComponent";
+import { StatusEffectComponent } from "./StatusEffectComponent";
 import { DamageFormulas } from "@/utils/formulas"; // ADDED: Only new import
 import { eventBus } from "@/utils/EventBus";
 import { MonsterDictionary } from "@/services/MonsterDictionaryService";
 import { MonsterAnimationSystem } from "@/services/MonsterAnimationSystems";
-import { MonsterData, MonsterAttackType } from "@/types";
+import { getBossEncounter } from "@/data/bossEncounters";
+import {
+  MonsterData,
+  MonsterAttackType,
+  DamageType,
+  DamageResistances,
+  DamageMitigation,
+  MonsterAffixType,
+} from "@/types";
+
+// How far a monster may be pulled from its spawn point before it gives up and resets
+const DEFAULT_LEASH_RADIUS = 480; // 15 tiles
 
 export class Monster extends Character {
   monsterType!: string;
   monsterName!: string;
   experience!: number;
   armor!: number; // ADDED: Only new property
+  resistances: DamageResistances = {};
   facing: string = "down";
   isMoving: boolean = false;
   isAggressive: boolean = false;
   initialPosition: { x: number; y: number } = { x: 0, y: 0 };
+  spawnPointId?: string;
+  spawnPosition: { x: number; y: number } = { x: 0, y: 0 };
+  leashRadius: number = DEFAULT_LEASH_RADIUS;
   spriteSize: number = 64;
   private targetIndicator: Phaser.GameObjects.Graphics | null = null;
   isRare: boolean = false;
   isBoss: boolean = false;
+  itemLevel: number = 1;
 
   constructor(scene: Phaser.Scene, x: number, y: number, monsterType: string) {
     // Get monster data from dictionary
@@ -42,13 +63,16 @@ export class Monster extends Character {
       this.maxHealth = monsterData?.maxHealth || 100;
       this.experience = monsterData?.experience || 10;
       this.armor = monsterData?.armor || 0; // ADDED: Only new line
+      this.resistances = monsterData?.resistances || {};
       this.isAggressive = monsterData?.isAggressive || false;
       this.spriteSize = monsterData?.spriteSize || 64;
       this.isRare = monsterData?.isRare || false;
       this.isBoss = monsterData?.isBoss || false;
+      this.itemLevel = monsterData?.itemLevel || 1;
 
       // Store initial position for non-aggressive wandering
       this.initialPosition = { x, y };
+      this.spawnPosition = { x, y };
 
       // Set origin to center the sprite on the tile
       this.setOrigin(0.8, 0.8);
@@ -96,10 +120,23 @@ export class Monster extends Character {
       const combatComponent = new MonsterCombatComponent(
         this,
         monsterData?.damage || 5,
-        monsterData?.attackType || "melee"
+        monsterData?.attackType || "melee",
+        monsterData?.damageType,
+        monsterData?.statusEffect
       );
       this.components.add("combat", combatComponent);
 
+      // Bosses run a scripted encounter when one is defined for them
+      const bossEncounter = monsterData?.isBoss ? getBossEncounter(this.monsterType) : null;
+
+      // Spellcasting component for monsters with abilities; boss phases bring their own
+      if (monsterData?.abilities?.length || bossEncounter) {
+        this.components.add(
+          "spellcasting",
+          new MonsterSpellcastingComponent(this, monsterData?.abilities || [])
+        );
+      }
+
       // Movement component with correct distance behavior
       const movementComponent = new MonsterMovementComponent(
         this,
@@ -115,6 +152,9 @@ export class Monster extends Character {
 
       this.components.add("movement", movementComponent);
 
+      // Threat table, read by the AI to pick its target
+      this.components.add("threat", new MonsterThreatComponent(this));
+
       // AI component
       const aiComponent = new MonsterAIComponent(
         this,
@@ -124,15 +164,48 @@ export class Monster extends Character {
       aiComponent.setRunawayPercent(monsterData?.runawayPercent || 0);
       this.components.add("ai", aiComponent);
 
+      if (bossEncounter) {
+        this.components.add("boss", new MonsterBossComponent(this, bossEncounter));
+      }
+
       // Drop component
       const dropComponent = new MonsterDropComponent(this, monsterData?.drops || []);
       this.components.add("drop", dropComponent);
+
+      // Status effect component (poison, burn, slow, stun)
+      this.components.add("statusEffects", new StatusEffectComponent(this));
     } catch (error) {
       console.error(`Error adding components to monster ${this.monsterType}:`, error);
       eventBus.emit("error.monster.components", { id: this.id, type: this.monsterType, error });
     }
   }
 
+  /**
+   * Tie the monster to the spawn point that created it. The leash is measured from
+   * the spawn point rather than from where the monster happened to appear.
+   */
+  setSpawnPoint(
+    spawnPointId: string,
+    x: number,
+    y: number,
+    leashRadius: number = DEFAULT_LEASH_RADIUS
+  ): void {
+    this.spawnPointId = spawnPointId;
+    this.spawnPosition = { x, y };
+    this.leashRadius = leashRadius;
+  }
+
+  /**
+   * Turn this monster into a champion: scaled stats and the given affixes, plus a
+   * guaranteed roll on the champion loot table
+   */
+  makeChampion(affixes: MonsterAffixType[]): void {
+    if (affixes.length === 0 || this.components.get("affixes")) return;
+
+    this.components.add("affixes", new MonsterAffixComponent(this, affixes));
+    this.components.get<MonsterDropComponent>("drop")?.enableChampionLoot();
+  }
+
   /**
    * Create and show a target indicator
    */
@@ -231,21 +304,66 @@ export class Monster extends Character {
     }
   }
 
-  takeDamage(amount: number, isMagicDamage: boolean = false): boolean {
+  /**
+   * Who this monster is chasing and attacking: the player or a hired companion
+   */
+  getAggroTarget(): Character | null {
+    const target = this.components.get<MonsterAIComponent>("ai")?.getTarget();
+    if (target && target.active && !target.isDead) return target;
+
+    const gameScene = this.scene as Phaser.Scene & { playerCharacter?: Character };
+    return gameScene?.playerCharacter || null;
+  }
+
+  /**
+   * What this monster's resistances and armor do to an incoming hit, without applying it
+   */
+  calculateMitigation(
+    amount: number,
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): DamageMitigation {
+    return DamageFormulas.calculateMitigation(
+      amount,
+      DamageFormulas.calculateMonsterDamageReduction(this.armor),
+      isMagicDamage,
+      damageType,
+      this.resistances
+    );
+  }
+
+  /**
+   * @param attacker who dealt the damage and gains the threat for it; the player when omitted
+   */
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL,
+    attacker?: Character
+  ): boolean {
     // MODIFIED: Added isMagicDamage parameter
     try {
       // Monster-specific behavior before damage
       const aiComponent = this.components.get<MonsterAIComponent>("ai");
+
+      // Monsters walking home after a leash reset can't be hurt
+      if (aiComponent?.isResetting()) {
+        eventBus.emit("monster.evaded", { id: this.id, type: this.monsterType });
+        return false;
+      }
+
       if (aiComponent) {
         aiComponent.setProvokedState(true);
       }
 
-      // ADDED: Calculate damage using formulas
-      const finalDamage = DamageFormulas.applyDamageReduction(
-        amount,
-        DamageFormulas.calculateMonsterDamageReduction(this.armor),
-        isMagicDamage
-      );
+      // Apply elemental resistance/weakness before armor
+      const { finalDamage } = this.calculateMitigation(amount, isMagicDamage, damageType);
+
+      const gameScene = this.scene as Phaser.Scene & { playerCharacter?: Character };
+      const threatSource = attacker || gameScene.playerCharacter;
+      if (threatSource) {
+        this.components.get<MonsterThreatComponent>("threat")?.addThreat(threatSource, finalDamage);
+      }
 
       // Store current alpha
       const originalAlpha = this.alpha;
@@ -270,6 +388,7 @@ export class Monster extends Character {
         id: this.id,
         type: this.monsterType,
         amount: finalDamage, // MODIFIED: Use calculated damage
+        damageType,
         currentHealth: this.health - finalDamage, // MODIFIED: Use calculated damage
       });
 
@@ -309,6 +428,10 @@ export class Monster extends Character {
         movementComponent.disable();
       }
 
+      // Close out a boss fight while the boss is still in the scene
+      this.components.get<MonsterBossComponent>("boss")?.handleDeath();
+      this.components.get<MonsterAffixComponent>("affixes")?.handleDeath();
+
       // Completely disable physics body
       if (this.body) {
         (this.body as Phaser.Physics.Arcade.Body).checkCollision.none = true;
@@ -370,7 +493,7 @@ export class Monster extends Character {
       // FIXED: Include spawnPointId and monster ID in death event
       eventBus.emit("monster.died", {
         id: this.id, // Add unique monster ID
-        spawnPointId: (this as any).spawnPointId, // Add spawn point ID
+        spawnPointId: this.spawnPointId, // Add spawn point ID
         type: this.monsterType,
         name: this.monsterName,
         x: monsterX,
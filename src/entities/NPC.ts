@@ -1,5 +1,6 @@
 import { NPCService } from "@/services/NPCService";
-import { ShopItem, NPCData } from "@/types";
+import { Classes, ShopItem, NPCData } from "@/types";
+import { getTrainerClass } from "@/data/classConfig";
 import { Character } from "./Character";
 import { HealthComponent } from "./HealthComponent";
 import { eventBus } from "@/utils/EventBus";
@@ -13,6 +14,8 @@ export class NPC extends Character {
 
   isMerchant: boolean = false;
   isStatSeller: boolean = false;
+  trainerClass: Classes | null = null;
+  companionIds: string[] = [];
 
   private merchantIcon: Phaser.GameObjects.Text | null = null;
   private icons: Phaser.GameObjects.Text[] = [];
@@ -32,6 +35,8 @@ export class NPC extends Character {
       this.isMerchant = npcData.isMerchant || false;
       this.shopItems = npcData.shopItems || [];
       this.isStatSeller = npcData.isStatSeller || false;
+      this.trainerClass = getTrainerClass(npcData);
+      this.companionIds = npcData.companionIds || [];
 
       // Set origin to center the sprite on the tile
       this.setOrigin(0.8, 0.8);
@@ -144,6 +149,7 @@ export class NPC extends Character {
       if (npcData.isMageTrainer) iconTypes.push({ emoji: "🔮", type: "mage" });
       if (npcData.isArcherTrainer) iconTypes.push({ emoji: "🏹", type: "archer" });
       if (npcData.isStatSeller) iconTypes.push({ emoji: "📈", type: "stats" });
+      if (npcData.companionIds?.length) iconTypes.push({ emoji: "🤝", type: "companions" });
 
       if (iconTypes.length === 0) return;
 
@@ -291,6 +297,10 @@ export class NPC extends Character {
       if (distance <= this.interactionRadius) {
         if (this.isStatSeller) {
           this.openStatSeller();
+        } else if (this.trainerClass) {
+          this.openTrainer();
+        } else if (this.companionIds.length > 0) {
+          this.openCompanionHire();
         } else if (this.isMerchant) {
           this.openShop();
         } else {
@@ -314,6 +324,32 @@ export class NPC extends Character {
     }
   }
 
+  openTrainer(): void {
+    try {
+      eventBus.emit("trainer.open", {
+        npcId: this.id,
+        npcName: this.npcName,
+        trainerClass: this.trainerClass,
+        dialog: this.dialogData,
+      });
+    } catch (error) {
+      console.error(`Error opening trainer for NPC ${this.id}:`, error);
+    }
+  }
+
+  openCompanionHire(): void {
+    try {
+      eventBus.emit("companion.hire.open", {
+        npcId: this.id,
+        npcName: this.npcName,
+        companionIds: this.companionIds,
+        dialog: this.dialogData,
+      });
+    } catch (error) {
+      console.error(`Error opening companion hire for NPC ${this.id}:`, error);
+    }
+  }
+
   openShop(): void {
     try {
       // Emit an event that the shop UI can listen to
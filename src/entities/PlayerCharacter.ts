@@ -1,5 +1,6 @@
 import { Character } from "./Character";
 import { HealthComponent } from "./HealthComponent";
+import { StatusEffectComponent } from "./StatusEffectComponent";
 import { MovementComponent } from "./player/MovementComponent";
 import { PlayerInputComponent } from "./player/PlayerInputComponent";
 import { PlayerItemInteractionComponent } from "./player/PlayerItemInteractionComponent";
@@ -8,6 +9,7 @@ import { useGameStore } from "@/stores/gameStore";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { DamageFormulas } from "@/utils/formulas";
 import { KillBonusService } from "@/services/KillBonusService";
+import { AttackOutcome, DamageType, PlayerDamageTaken } from "@/types";
 
 export class PlayerCharacter extends Character {
   equipment: any;
@@ -293,6 +295,9 @@ export class PlayerCharacter extends Character {
       // Item interaction component
       this.components.add("interaction", new PlayerItemInteractionComponent(this));
 
+      // Status effect component (poison, burn, slow, stun)
+      this.components.add("statusEffects", new StatusEffectComponent(this));
+
       // Listen for respawn events
       eventBus.on("player.respawn", this.respawn.bind(this));
     } catch (error) {
@@ -301,12 +306,12 @@ export class PlayerCharacter extends Character {
     }
   }
 
-  update(time: number): void {
+  update(time: number, delta: number = 0): void {
     try {
       if (this.isDead) return;
 
       // Call parent update method (updates all components)
-      super.update(time, 0);
+      super.update(time, delta);
     } catch (error) {
       console.error("Error in PlayerCharacter update:", error);
       eventBus.emit("error.player.update", { error });
@@ -410,7 +415,48 @@ export class PlayerCharacter extends Character {
     }
   }
 
-  takeDamage(amount: number, isMagicDamage: boolean = false, attackerMonsterId?: string): boolean {
+  /**
+   * What armor, resistances and kill count reduction do to an incoming hit, without applying it
+   */
+  calculateDamageTaken(
+    amount: number,
+    isMagicDamage: boolean = false,
+    attackerMonsterId?: string,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): PlayerDamageTaken {
+    const store = useGameStore.getState();
+
+    // Calculate damage reduction using existing formulas
+    const mitigation = DamageFormulas.calculatePlayerDamageTakenMitigation(
+      amount,
+      store.playerCharacter.equipment,
+      store.playerCharacter.skills,
+      isMagicDamage,
+      damageType,
+      store.calculatedStats.totalResistances
+    );
+
+    // Apply kill bonus damage reduction if we know what attacked us
+    const finalDamage = attackerMonsterId
+      ? KillBonusService.applyDamageReduction(mitigation.finalDamage, attackerMonsterId)
+      : mitigation.finalDamage;
+
+    return {
+      ...mitigation,
+      killBonusPercent: attackerMonsterId
+        ? -KillBonusService.getKillBonuses(attackerMonsterId).damageReduction
+        : 0,
+      killBonusDamage: finalDamage - mitigation.finalDamage,
+      finalDamage,
+    };
+  }
+
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    attackerMonsterId?: string,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): boolean {
     try {
       // Skip if already dead
       if (this.isDead) return false;
@@ -418,20 +464,16 @@ export class PlayerCharacter extends Character {
       // Get current player state from store
       const store = useGameStore.getState();
       const equipment = store.playerCharacter.equipment;
-      const skills = store.playerCharacter.skills;
 
-      // Calculate damage reduction using existing formulas
-      let finalDamage = DamageFormulas.calculatePlayerDamageTaken(
+      const { finalDamage } = this.calculateDamageTaken(
         amount,
-        equipment,
-        skills,
-        isMagicDamage
+        isMagicDamage,
+        attackerMonsterId,
+        damageType
       );
 
-      // Apply kill bonus damage reduction if we know what attacked us
-      if (attackerMonsterId) {
-        finalDamage = KillBonusService.applyDamageReduction(finalDamage, attackerMonsterId);
-      }
+      // Healing from food, abilities and regeneration only updates the store
+      this.health = store.playerCharacter.health;
 
       // Calculate new health
       const newHealth = Math.max(0, this.health - finalDamage);
@@ -491,19 +533,42 @@ export class PlayerCharacter extends Character {
     }
   }
 
-  private showDamageNumber(amount: number): void {
+  /**
+   * Floating number for a hit on the player, styled by the attack roll like the
+   * player's own auto-attack numbers
+   */
+  showDamageNumber(amount: number, outcome: AttackOutcome = "hit"): void {
     try {
-      const text = this.scene.add.text(this.x, this.y - 20, `-${amount}`, {
+      const isCritical = outcome === "critical";
+      const isMiss = outcome === "miss" || outcome === "dodge";
+      const label =
+        outcome === "dodge"
+          ? "Dodge"
+          : outcome === "miss"
+            ? "Miss"
+            : `-${amount}${isCritical ? "!" : ""}`;
+
+      const text = this.scene.add.text(this.x, this.y - 20, label, {
         fontFamily: "Arial",
-        fontSize: "16px",
-        color: "#ff0000",
-        stroke: "#000000",
+        fontSize: isCritical ? "20px" : "16px",
+        fontStyle: isCritical ? "bold" : isMiss ? "italic" : "normal",
+        color: isMiss ? "#aaaaaa" : "#ff0000",
+        stroke: isCritical ? "#ffb300" : "#000000",
         strokeThickness: 3,
       });
 
       text.setOrigin(0.5);
       text.setDepth(100);
 
+      if (isCritical) {
+        this.scene.tweens.add({
+          targets: text,
+          scale: { from: 1.6, to: 1 },
+          duration: 200,
+          ease: "Back.easeOut",
+        });
+      }
+
       this.scene.tweens.add({
         targets: text,
         y: this.y - 60,
@@ -562,6 +627,10 @@ export class PlayerCharacter extends Character {
       const store = useGameStore.getState();
       store.updatePlayerHealth(this.health);
       store.updatePlayerMaxHealth(this.maxHealth);
+      store.updatePlayerMana(store.calculatedStats.totalMana);
+
+      // Drop any lingering status effects
+      this.components.get<StatusEffectComponent>("statusEffects")?.clearEffects();
 
       // Move to respawn position
       this.x = position.x;
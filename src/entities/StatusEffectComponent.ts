@@ -0,0 +1,206 @@
+import { Component } from "./Component";
+import { Character } from "./Character";
+import { Monster } from "./Monster";
+import { PlayerCharacter } from "./PlayerCharacter";
+import { Companion } from "./Companion";
+import { eventBus } from "@/utils/EventBus";
+import { getStatusEffectDefinition } from "@/data/statusEffects";
+import { RandomService } from "@/services/RandomService";
+import {
+  ActiveStatusEffect,
+  DamageType,
+  StatusEffectApplication,
+  StatusEffectStacking,
+  StatusEffectType,
+} from "@/types";
+
+/**
+ * Tracks poison, burn, slow and stun on a Monster or the PlayerCharacter.
+ * Handles stacking, durations and damage-over-time ticks; movement and AI
+ * components query it for speed modifiers and stun.
+ */
+export class StatusEffectComponent extends Component {
+  private effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+
+  constructor(entity: Character) {
+    super(entity);
+  }
+
+  get character(): Character {
+    return this.entity as Character;
+  }
+
+  /**
+   * Apply a status effect, following the effect's stacking rule
+   * @returns true if the effect was applied or refreshed
+   */
+  applyEffect(application: StatusEffectApplication, sourceId?: string): boolean {
+    try {
+      if (this.character.isDead) return false;
+
+      if (
+        application.chance !== undefined &&
+        !RandomService.stream("combat").chance(application.chance)
+      ) {
+        return false;
+      }
+
+      const definition = getStatusEffectDefinition(application.type);
+      if (!definition) return false;
+
+      const duration = application.duration || definition.duration;
+      const existing = this.effects.get(application.type);
+
+      if (existing) {
+        switch (definition.stacking) {
+          case StatusEffectStacking.IGNORE:
+            return false;
+          case StatusEffectStacking.STACK:
+            existing.stacks = Math.min(definition.maxStacks || 1, existing.stacks + 1);
+            break;
+          case StatusEffectStacking.REFRESH:
+          default:
+            break;
+        }
+
+        existing.duration = duration;
+        existing.remaining = duration;
+        existing.sourceId = sourceId;
+      } else {
+        this.effects.set(application.type, {
+          type: application.type,
+          stacks: 1,
+          remaining: duration,
+          duration,
+          tickTimer: 0,
+          sourceId,
+        });
+      }
+
+      eventBus.emit("statusEffect.applied", {
+        entityId: this.entity.id,
+        type: application.type,
+        stacks: this.effects.get(application.type)?.stacks || 1,
+        duration,
+      });
+      this.emitChanged();
+
+      return true;
+    } catch (error) {
+      console.error(`Error applying status effect to ${this.entity.id}:`, error);
+      eventBus.emit("error.statusEffect.apply", { entityId: this.entity.id, error });
+      return false;
+    }
+  }
+
+  removeEffect(type: StatusEffectType): void {
+    if (!this.effects.delete(type)) return;
+
+    eventBus.emit("statusEffect.removed", { entityId: this.entity.id, type });
+    this.emitChanged();
+  }
+
+  clearEffects(): void {
+    if (this.effects.size === 0) return;
+
+    this.effects.clear();
+    this.emitChanged();
+  }
+
+  hasEffect(type: StatusEffectType): boolean {
+    return this.effects.has(type);
+  }
+
+  getActiveEffects(): ActiveStatusEffect[] {
+    return Array.from(this.effects.values());
+  }
+
+  /**
+   * Whether an active effect prevents the entity from moving and acting
+   */
+  isStunned(): boolean {
+    return this.getActiveEffects().some(
+      (effect) => getStatusEffectDefinition(effect.type).preventsActions
+    );
+  }
+
+  /**
+   * Strongest movement modifier among active effects (1 = unaffected)
+   */
+  getMoveSpeedMultiplier(): number {
+    return this.getActiveEffects().reduce((multiplier, effect) => {
+      const effectMultiplier = getStatusEffectDefinition(effect.type).moveSpeedMultiplier;
+      return effectMultiplier !== undefined ? Math.min(multiplier, effectMultiplier) : multiplier;
+    }, 1);
+  }
+
+  update(time: number, delta: number): void {
+    try {
+      if (!this.isEnabled || this.effects.size === 0) return;
+
+      if (this.character.isDead) {
+        this.clearEffects();
+        return;
+      }
+
+      const expired: StatusEffectType[] = [];
+
+      this.effects.forEach((effect) => {
+        const definition = getStatusEffectDefinition(effect.type);
+        const elapsed = Math.min(delta, effect.remaining);
+
+        if (definition.tickInterval && definition.tickDamage) {
+          effect.tickTimer += elapsed;
+
+          while (effect.tickTimer >= definition.tickInterval && !this.character.isDead) {
+            effect.tickTimer -= definition.tickInterval;
+            this.applyTickDamage(definition.tickDamage * effect.stacks, definition.damageType);
+          }
+        }
+
+        effect.remaining -= delta;
+        if (effect.remaining <= 0) {
+          expired.push(effect.type);
+        }
+      });
+
+      expired.forEach((type) => this.removeEffect(type));
+    } catch (error) {
+      console.error(`Error updating status effects for ${this.entity.id}:`, error);
+      eventBus.emit("error.statusEffect.update", { entityId: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Damage over time bypasses armor but is still affected by resistances
+   */
+  private applyTickDamage(amount: number, damageType: DamageType = DamageType.PHYSICAL): void {
+    const target = this.character;
+
+    if (target instanceof Monster) {
+      target.takeDamage(amount, true, damageType);
+    } else if (target instanceof PlayerCharacter || target instanceof Companion) {
+      target.takeDamage(amount, true, undefined, damageType);
+    } else {
+      target.takeDamage(amount);
+    }
+  }
+
+  private emitChanged(): void {
+    const effects = this.getActiveEffects().map((effect) => ({
+      type: effect.type,
+      stacks: effect.stacks,
+    }));
+
+    eventBus.emit(`entity.${this.entity.id}.status.changed`, effects);
+
+    if (this.entity.id === "player") {
+      eventBus.emit("playerCharacter.status.changed", effects);
+    }
+  }
+
+  destroy(): void {
+    this.effects.clear();
+    super.destroy();
+  }
+}
@@ -0,0 +1,206 @@
+import { Component } from "../Component";
+import { Companion } from "../Companion";
+import { Monster } from "../Monster";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
+import { autoAttackSystem } from "@/services/AutoAttackSystem";
+import { CompanionData, DamageType } from "@/types";
+
+/**
+ * Auto-attacks the player's current target, or a monster that has turned on the companion
+ */
+export class CompanionCombatComponent extends Component {
+  damage: number;
+  attackRange: number;
+  attackCooldown: number;
+  attackType: string;
+  damageType: DamageType;
+  lastAttackTime: number = 0;
+
+  constructor(entity: Companion, companionData: CompanionData) {
+    super(entity);
+    this.damage = companionData.damage;
+    this.attackRange = companionData.attackRange;
+    this.attackCooldown = companionData.attackCooldown;
+    this.attackType = companionData.attackType;
+    this.damageType = companionData.damageType || DamageType.PHYSICAL;
+  }
+
+  get companion(): Companion {
+    return this.entity as Companion;
+  }
+
+  /**
+   * The player's auto-attack target, falling back to the closest monster that is
+   * attacking the companion itself
+   */
+  getTarget(): Monster | null {
+    const playerTarget = autoAttackSystem.getCurrentTarget() as Monster | null;
+    if (playerTarget && playerTarget.active && !playerTarget.isDead) {
+      return playerTarget;
+    }
+
+    const gameScene = this.entity.scene as Phaser.Scene & { monsters?: Phaser.GameObjects.Group };
+    if (!gameScene?.monsters) return null;
+
+    let closest: Monster | null = null;
+    let closestDistance = Infinity;
+
+    for (const gameObject of gameScene.monsters.getChildren()) {
+      const monster = gameObject as Monster;
+      if (!monster.active || monster.isDead || monster.getAggroTarget() !== this.entity) continue;
+
+      const distance = Phaser.Math.Distance.Between(
+        this.entity.x,
+        this.entity.y,
+        monster.x,
+        monster.y
+      );
+      if (distance < closestDistance) {
+        closest = monster;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  update(): void {
+    try {
+      if (!this.isEnabled || this.companion.isDead) return;
+      if (Date.now() - this.lastAttackTime < this.attackCooldown) return;
+
+      const target = this.getTarget();
+      if (!target) return;
+
+      const distance = Phaser.Math.Distance.Between(
+        this.entity.x,
+        this.entity.y,
+        target.x,
+        target.y
+      );
+      if (distance > this.attackRange) return;
+
+      this.attack(target);
+    } catch (error) {
+      console.error(`Error in CompanionCombatComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.companion.combat", { id: this.entity.id, error });
+    }
+  }
+
+  attack(target: Monster): void {
+    this.lastAttackTime = Date.now();
+
+    const dx = target.x - this.entity.x;
+    const dy = target.y - this.entity.y;
+    const direction =
+      Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "right" : "left") : dy > 0 ? "down" : "up";
+    this.companion.playAnimation(direction, false);
+
+    this.createAttackEffect(target.x, target.y);
+
+    const roll = DamageFormulas.rollAttack(DamageFormulas.getCompanionAttackRollChances());
+    if (roll.damageMultiplier <= 0) {
+      this.createDamageText(target.x, target.y, "Miss");
+      eventBus.emit("companion.attack.missed", {
+        id: this.entity.id,
+        companionId: this.companion.companionId,
+        targetId: target.id,
+      });
+      return;
+    }
+
+    const damage = DamageFormulas.applyCombatRoll(this.damage, roll);
+    const isMagicDamage = DamageFormulas.isMagicDamage(this.attackType);
+    const { finalDamage } = target.calculateMitigation(damage, isMagicDamage, this.damageType);
+
+    this.createDamageText(target.x, target.y, finalDamage);
+    target.takeDamage(damage, isMagicDamage, this.damageType, this.companion);
+
+    eventBus.emit("companion.attack.hit", {
+      id: this.entity.id,
+      companionId: this.companion.companionId,
+      name: this.companion.companionName,
+      targetId: target.id,
+      target: target.monsterName,
+      damage: finalDamage,
+      damageType: this.damageType,
+      outcome: roll.outcome,
+    });
+  }
+
+  private createDamageText(x: number, y: number, damage: number | string): void {
+    try {
+      const isNumber = typeof damage === "number";
+      const text = this.entity.scene.add.text(x, y - 20, isNumber ? `${damage}` : damage, {
+        fontFamily: "Arial",
+        fontSize: "12px",
+        color: isNumber ? "#ffd966" : "#aaaaaa",
+        stroke: "#000000",
+        strokeThickness: 3,
+      });
+
+      text.setOrigin(0.5);
+      text.setDepth(100);
+
+      this.entity.scene.tweens.add({
+        targets: text,
+        y: y - 40,
+        alpha: 0,
+        duration: 1000,
+        onComplete: () => {
+          text.destroy();
+        },
+      });
+    } catch (error) {
+      console.error(`Error creating damage text for companion ${this.entity.id}:`, error);
+    }
+  }
+
+  private createAttackEffect(targetX: number, targetY: number): void {
+    try {
+      const angle = Phaser.Math.Angle.Between(this.entity.x, this.entity.y, targetX, targetY);
+
+      if (this.attackType === "melee") {
+        const slash = this.entity.scene.add.rectangle(
+          this.entity.x + Math.cos(angle) * 32,
+          this.entity.y + Math.sin(angle) * 32,
+          20,
+          5,
+          0xffffff,
+          0.7
+        );
+        slash.rotation = angle;
+        slash.setDepth(6);
+
+        this.entity.scene.tweens.add({
+          targets: slash,
+          alpha: 0,
+          scaleX: 1.5,
+          scaleY: 1.5,
+          duration: 200,
+          onComplete: () => slash.destroy(),
+        });
+        return;
+      }
+
+      // Arrows for ranged companions, a bolt for casters
+      const projectile =
+        this.attackType === "magic"
+          ? this.entity.scene.add.circle(this.entity.x, this.entity.y, 5, 0xff7733, 0.8)
+          : this.entity.scene.add.rectangle(this.entity.x, this.entity.y, 8, 2, 0xdddddd);
+      projectile.rotation = angle;
+      projectile.setDepth(6);
+
+      this.entity.scene.tweens.add({
+        targets: projectile,
+        x: targetX,
+        y: targetY,
+        duration: 300,
+        onComplete: () => projectile.destroy(),
+      });
+    } catch (error) {
+      console.error(`Error creating attack effect for companion ${this.entity.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { MovementComponent } from "../player/MovementComponent";
+import { Companion } from "../Companion";
+import { CompanionCombatComponent } from "./CompanionCombatComponent";
+import { eventBus } from "@/utils/EventBus";
+import { PathfindingService, TilePoint } from "@/services/PathfindingService";
+
+// Companions stay within this many tiles of the player when not fighting
+const FOLLOW_DISTANCE_TILES = 2;
+// Further than this (e.g. after a teleport) and the companion catches up instantly
+const CATCH_UP_DISTANCE = 640; // 20 tiles
+
+/**
+ * Walks the companion after the player, or into attack range of its combat target
+ */
+export class CompanionFollowComponent extends MovementComponent {
+  private speed: number;
+  private attackRange: number;
+  private path: TilePoint[] = [];
+  private pathGoal: TilePoint | null = null;
+
+  constructor(entity: Companion, speed: number = 250, attackRange: number = 40) {
+    super(entity);
+    this.speed = speed;
+    this.attackRange = attackRange;
+
+    // Reserve the spawn tile so monsters path around the companion
+    const spawnTile = PathfindingService.worldToTile(entity.x, entity.y);
+    PathfindingService.occupyTile(entity, spawnTile.x, spawnTile.y);
+  }
+
+  get companion(): Companion {
+    return this.entity as Companion;
+  }
+
+  /**
+   * Override parent getMoveSpeed to return the companion's own speed, including slows
+   */
+  getMoveSpeed(): number {
+    return this.speed * this.getStatusMoveSpeedMultiplier();
+  }
+
+  update(): void {
+    try {
+      if (!this.isEnabled || this.companion.isDead || this.isMoving || this.isStunned()) return;
+
+      const gameScene = this.entity.scene as Phaser.Scene & {
+        playerCharacter?: Phaser.GameObjects.Sprite;
+        isChangingMap?: boolean;
+      };
+      const player = gameScene?.playerCharacter;
+      if (!player || gameScene.isChangingMap || !PathfindingService.hasGrid()) return;
+
+      const playerDistance = Phaser.Math.Distance.Between(
+        this.entity.x,
+        this.entity.y,
+        player.x,
+        player.y
+      );
+
+      if (playerDistance > CATCH_UP_DISTANCE) {
+        this.placeNextTo(player);
+        return;
+      }
+
+      const target = this.companion.components.get<CompanionCombatComponent>("combat")?.getTarget();
+
+      if (target) {
+        const targetDistance = Phaser.Math.Distance.Between(
+          this.entity.x,
+          this.entity.y,
+          target.x,
+          target.y
+        );
+
+        if (targetDistance > this.attackRange) {
+          this.stepTowards(target);
+        }
+        return;
+      }
+
+      const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+      const playerTile = PathfindingService.worldToTile(player.x, player.y);
+      const tileDistance = Math.max(
+        Math.abs(playerTile.x - start.x),
+        Math.abs(playerTile.y - start.y)
+      );
+
+      if (tileDistance > FOLLOW_DISTANCE_TILES) {
+        this.stepTowards(player);
+      }
+    } catch (error) {
+      console.error(`Error in CompanionFollowComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.companion.movement", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Take one tile step along an A* path to a position, re-planned when the goal
+   * changes tile or something blocks the cached path
+   */
+  private stepTowards(position: { x: number; y: number }): void {
+    const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+    const goal = PathfindingService.worldToTile(position.x, position.y);
+
+    const goalMoved = !this.pathGoal || this.pathGoal.x !== goal.x || this.pathGoal.y !== goal.y;
+    const blocked =
+      this.path.length > 0 &&
+      !PathfindingService.isWalkable(this.path[0].x, this.path[0].y, { ignore: this.entity });
+
+    if (goalMoved || blocked || this.path.length === 0) {
+      this.path =
+        PathfindingService.findPath(start, goal, { ignore: this.entity, allowPartial: true }) || [];
+      this.pathGoal = goal;
+    }
+
+    const step = this.path.shift();
+
+    // Never step onto the goal itself: the player or monster is standing there
+    if (!step || (step.x === goal.x && step.y === goal.y)) {
+      this.path = [];
+      this.companion.playAnimation(this.facing, false);
+      return;
+    }
+
+    const direction = { dx: step.x - start.x, dy: step.y - start.y };
+    this.updateFacing(direction);
+    this.companion.playAnimation(this.facing, true);
+
+    PathfindingService.occupyTile(this.entity, step.x, step.y);
+    this.moveToTile(step.x, step.y).then(() => {
+      if (this.path.length === 0) {
+        this.companion.playAnimation(this.facing, false);
+      }
+    });
+  }
+
+  /**
+   * Put the companion on a free tile next to a position, e.g. the player after a
+   * teleport or when first spawned
+   * @returns false if every neighbouring tile is blocked
+   */
+  placeNextTo(position: { x: number; y: number }): boolean {
+    const centerTile = PathfindingService.worldToTile(position.x, position.y);
+    const offsets = [
+      { x: 0, y: 1 },
+      { x: 1, y: 0 },
+      { x: -1, y: 0 },
+      { x: 0, y: -1 },
+    ];
+
+    const freeTile = offsets
+      .map((offset) => ({ x: centerTile.x + offset.x, y: centerTile.y + offset.y }))
+      .find((tile) => PathfindingService.isWalkable(tile.x, tile.y, { ignore: this.entity }));
+    if (!freeTile) return false;
+
+    const worldPosition = PathfindingService.tileToWorld(freeTile.x, freeTile.y);
+    this.stopMovement();
+    this.entity.setPosition(worldPosition.x, worldPosition.y);
+    PathfindingService.occupyTile(this.entity, freeTile.x, freeTile.y);
+    this.path = [];
+    this.pathGoal = null;
+
+    eventBus.emit("companion.repositioned", { id: this.entity.id, position: worldPosition });
+    return true;
+  }
+
+  destroy(): void {
+    PathfindingService.releaseTile(this.entity);
+    super.destroy();
+  }
+}
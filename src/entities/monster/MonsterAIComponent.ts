@@ -2,8 +2,19 @@ import { Component } from "../Component";
 import { Monster } from "../Monster";
 import { MonsterMovementComponent } from "./MonsterMovementComponent";
 import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { MonsterSpellcastingComponent } from "./MonsterSpellcastingComponent";
+import { MonsterThreatComponent } from "./MonsterThreatComponent";
+import { StatusEffectComponent } from "../StatusEffectComponent";
+import { Character } from "../Character";
+import { PlayerCharacter } from "../PlayerCharacter";
+import { Companion } from "../Companion";
 import { eventBus } from "@/utils/EventBus";
 
+// Another entity has to pass the current target's threat by this factor to pull the monster off it
+const TARGET_SWITCH_THRESHOLD = 1.1;
+// Threat for wandering into aggro range, just enough to put someone on the table
+const PROXIMITY_THREAT = 1;
+
 export class MonsterAIComponent extends Component {
   private isAggressive: boolean = false;
   private isProvoked: boolean = false;
@@ -12,6 +23,8 @@ export class MonsterAIComponent extends Component {
   private attackType: string = "melee";
   private lastPlayerCheck: number = 0;
   private checkDelay: number = 500;
+  private target: Character | null = null;
+  private resetting: boolean = false;
 
   constructor(entity: Monster, isAggressive: boolean = false, attackType: string = "melee") {
     super(entity);
@@ -45,15 +58,163 @@ export class MonsterAIComponent extends Component {
     this.runawayPercent = percent;
   }
 
+  /**
+   * Who the monster is chasing and attacking: the player or a hired companion
+   */
+  getTarget(): Character | null {
+    return this.target;
+  }
+
+  /**
+   * True while the monster walks home after a leash reset
+   */
+  isResetting(): boolean {
+    return this.resetting;
+  }
+
+  private get threat(): MonsterThreatComponent | undefined {
+    return this.monster.components.get<MonsterThreatComponent>("threat");
+  }
+
+  private distanceTo(position: { x: number; y: number }): number {
+    return Phaser.Math.Distance.Between(this.entity.x, this.entity.y, position.x, position.y);
+  }
+
+  /**
+   * The player and every living companion
+   */
+  private getCandidates(player: PlayerCharacter): Character[] {
+    const gameScene = this.entity.scene as Phaser.Scene & {
+      companions?: Phaser.GameObjects.Group;
+    };
+
+    const candidates: Character[] = [player];
+    gameScene.companions?.getChildren().forEach((gameObject) => {
+      const companion = gameObject as Character;
+      if (companion.active && !companion.isDead) {
+        candidates.push(companion);
+      }
+    });
+
+    return candidates;
+  }
+
+  /**
+   * The closest living candidate in aggro range. Only someone standing inside the
+   * leash area is noticed, so the monster never chases what it would give up on.
+   */
+  private findProximityTarget(player: PlayerCharacter): Character | null {
+    const { spawnPosition, leashRadius } = this.monster;
+
+    let closest: Character | null = null;
+    let closestDistance = this.aggroRange;
+
+    for (const candidate of this.getCandidates(player)) {
+      if (candidate.isDead) continue;
+
+      const distance = this.distanceTo(candidate);
+      const distanceFromSpawn = Phaser.Math.Distance.Between(
+        spawnPosition.x,
+        spawnPosition.y,
+        candidate.x,
+        candidate.y
+      );
+
+      if (distance <= closestDistance && distanceFromSpawn <= leashRadius) {
+        closest = candidate;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Read the target off the threat table. The current target is kept until someone
+   * passes its threat by TARGET_SWITCH_THRESHOLD, so monsters don't flip-flop between
+   * two attackers dealing similar damage.
+   */
+  private selectTarget(threat: MonsterThreatComponent): Character | null {
+    const entries = threat.getEntries();
+    if (entries.length === 0) return null;
+
+    let selected = entries[0].entity;
+
+    if (this.target && selected !== this.target && threat.has(this.target)) {
+      const currentThreat = threat.getThreat(this.target);
+      if (entries[0].threat <= currentThreat * TARGET_SWITCH_THRESHOLD) {
+        selected = this.target;
+      }
+    }
+
+    if (selected !== this.target) {
+      this.target = selected;
+
+      eventBus.emit("monster.target.changed", {
+        id: this.entity.id,
+        type: this.monster.monsterType,
+        targetId: selected.id,
+      });
+    }
+
+    return selected;
+  }
+
+  /**
+   * Drop all threat, heal up and walk back to the spawn point. The monster ignores
+   * damage until it is home.
+   */
+  private resetToSpawn(reason: "leash" | "noTargets"): void {
+    this.threat?.clear();
+    this.target = null;
+    this.isAggressive = false;
+    this.resetting = true;
+
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    movementComponent?.setAggression(false);
+    this.setProvokedState(false);
+
+    this.monster.components.get<StatusEffectComponent>("statusEffects")?.clearEffects();
+    this.monster.heal(this.monster.maxHealth - this.monster.health);
+
+    eventBus.emit("monster.leashed", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+      reason,
+    });
+  }
+
+  private updateReset(): void {
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent && !movementComponent.returnToInitialPosition()) return;
+
+    this.resetting = false;
+
+    eventBus.emit("monster.reset.complete", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+    });
+  }
+
   update(time: number, delta: number): void {
     try {
       if (!this.isEnabled || this.monster.isDead) return;
 
+      // Stunned monsters don't think, chase or attack
+      const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+      if (statusEffects?.isStunned()) return;
+
       // Limit how often we check player position
       const now = Date.now();
       if (now - this.lastPlayerCheck < this.checkDelay) return;
       this.lastPlayerCheck = now;
 
+      if (this.resetting) {
+        this.updateReset();
+        return;
+      }
+
       this.updateAggro();
     } catch (error) {
       console.error(`Error in MonsterAIComponent update for ${this.entity.id}:`, error);
@@ -67,22 +228,45 @@ export class MonsterAIComponent extends Component {
 
   updateAggro(): void {
     try {
-      const gameScene = this.entity.scene as any;
-      if (!gameScene.playerCharacter) return;
-
+      const gameScene = this.entity.scene as Phaser.Scene & { playerCharacter?: PlayerCharacter };
       const player = gameScene.playerCharacter;
+      const threat = this.threat;
+      if (!player || !threat) return;
+
+      // Pulled too far from home: give up on everyone
+      const { spawnPosition, leashRadius } = this.monster;
+      if (!threat.isEmpty() && this.distanceTo(spawnPosition) > leashRadius) {
+        this.resetToSpawn("leash");
+        return;
+      }
 
-      // Calculate distance to player
-      const distance = Phaser.Math.Distance.Between(
-        this.entity.x,
-        this.entity.y,
-        player.x,
-        player.y
+      // Forget anyone who died, left the scene or ran out of range
+      const hadThreat = !threat.isEmpty();
+      threat.removeWhere(
+        (entity) => !entity.active || entity.isDead || this.distanceTo(entity) > this.aggroRange
       );
 
-      // If not yet aggressive or provoked, check if player is in aggro range
-      if (!this.isProvoked && !this.isAggressive && distance <= this.aggroRange) {
-        // Become aggressive when player enters range
+      if (threat.isEmpty()) {
+        if (hadThreat) {
+          this.resetToSpawn("noTargets");
+          return;
+        }
+
+        // Not fighting anyone: look for someone to pull
+        const intruder = this.findProximityTarget(player);
+        if (!intruder) return;
+
+        threat.addThreat(intruder, PROXIMITY_THREAT);
+      }
+
+      const target = this.selectTarget(threat);
+      if (!target) return;
+
+      // Calculate distance to the target
+      const distance = this.distanceTo(target);
+
+      // Entering combat: stop wandering and start chasing
+      if (!this.isProvoked && !this.isAggressive) {
         this.isAggressive = true;
 
         // Update movement component aggression
@@ -96,6 +280,7 @@ export class MonsterAIComponent extends Component {
           id: this.entity.id,
           type: this.monster.monsterType,
           name: this.monster.monsterName,
+          targetId: target.id,
         });
       }
 
@@ -106,11 +291,23 @@ export class MonsterAIComponent extends Component {
 
         if (!movementComponent || !combatComponent) return;
 
-        // Move towards player or maintain distance
+        // Hold position while a spell is being telegraphed
+        const spellcastingComponent =
+          this.monster.components.get<MonsterSpellcastingComponent>("spellcasting");
+        if (spellcastingComponent?.isCasting()) return;
+
+        // Move towards the target or maintain distance
         movementComponent.approachPlayer(distance, this.attackType);
 
-        // Try to attack player
-        const attacked = combatComponent.attackPlayerCharacter();
+        // Spells take priority over the basic attack when one is ready and in range.
+        // Monster spells are aimed at the player only.
+        if (target === player && spellcastingComponent?.tryCastAtPlayer()) return;
+
+        // Try to attack the target
+        const attacked =
+          target === player
+            ? combatComponent.attackPlayerCharacter()
+            : combatComponent.attackCompanion(target as Companion);
 
         // Emit attack event if successful
         if (attacked) {
@@ -119,6 +316,7 @@ export class MonsterAIComponent extends Component {
             type: this.monster.monsterType,
             name: this.monster.monsterName,
             attackType: this.attackType,
+            targetId: target.id,
           });
         }
       }
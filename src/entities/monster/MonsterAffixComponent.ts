@@ -0,0 +1,204 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { Character } from "../Character";
+import { PlayerCharacter } from "../PlayerCharacter";
+import type { Companion } from "../Companion";
+import { HealthComponent } from "../HealthComponent";
+import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { MonsterMovementComponent } from "./MonsterMovementComponent";
+import { CHAMPION_SCALING, getMonsterAffixDefinition } from "@/data/monsterAffixes";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
+import { MonsterAffixDefinition, MonsterAffixType } from "@/types";
+
+/**
+ * Champion modifiers on a rare spawn. Scales the monster's stats, tints and renames
+ * it when added, and runs the on-hit and on-death effects of its affixes.
+ */
+export class MonsterAffixComponent extends Component {
+  private affixes: MonsterAffixDefinition[];
+
+  constructor(entity: Monster, affixTypes: MonsterAffixType[]) {
+    super(entity);
+    this.affixes = affixTypes.map((type) => getMonsterAffixDefinition(type));
+    this.applyAffixes();
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  getAffixes(): MonsterAffixType[] {
+    return this.affixes.map((affix) => affix.type);
+  }
+
+  private applyAffixes(): void {
+    try {
+      const multiply = (key: "healthMultiplier" | "damageMultiplier" | "experienceMultiplier") =>
+        this.affixes.reduce((total, affix) => total * (affix[key] || 1), CHAMPION_SCALING[key]);
+
+      const monster = this.monster;
+
+      monster.maxHealth = Math.round(monster.maxHealth * multiply("healthMultiplier"));
+      monster.health = monster.maxHealth;
+      monster.armor += this.affixes.reduce(
+        (total, affix) => total + (affix.armorBonus || 0),
+        CHAMPION_SCALING.armorBonus
+      );
+      monster.experience = Math.round(monster.experience * multiply("experienceMultiplier"));
+
+      const combatComponent = monster.components.get<MonsterCombatComponent>("combat");
+      if (combatComponent) {
+        combatComponent.damage *= multiply("damageMultiplier");
+        this.affixes.forEach((affix) => {
+          combatComponent.attackCooldown *= affix.attackCooldownMultiplier || 1;
+        });
+      }
+
+      const movementComponent = monster.components.get<MonsterMovementComponent>("movement");
+      this.affixes.forEach((affix) => {
+        if (affix.moveSpeedMultiplier) {
+          movementComponent?.scaleSpeed(affix.moveSpeedMultiplier);
+        }
+      });
+
+      // Named and tinted after the first affix, e.g. "Hasted Vampiric Decayed Skeleton"
+      monster.isRare = true;
+      monster.monsterName = `${this.affixes.map((affix) => affix.name).join(" ")} ${
+        monster.monsterName
+      }`;
+      if (this.affixes.length > 0) {
+        monster.color = this.affixes[0].tint;
+        monster.setTint(this.affixes[0].tint);
+      }
+
+      // The name label was drawn before the monster was renamed
+      monster.components.get<HealthComponent>("health")?.createHealthBar();
+
+      eventBus.emit("monster.champion.created", {
+        id: monster.id,
+        type: monster.monsterType,
+        name: monster.monsterName,
+        affixes: this.getAffixes(),
+        maxHealth: monster.maxHealth,
+      });
+    } catch (error) {
+      console.error(`Error applying affixes to monster ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.affixes", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Called by the combat component after a basic attack lands
+   */
+  onDamageDealt(damage: number): void {
+    if (!this.isEnabled || this.monster.isDead || damage <= 0) return;
+
+    this.affixes.forEach((affix) => {
+      if (!affix.lifeSteal) return;
+
+      const healing = Math.max(1, Math.round(damage * affix.lifeSteal));
+      this.monster.heal(healing);
+
+      eventBus.emit("monster.affix.lifeSteal", {
+        id: this.entity.id,
+        amount: healing,
+      });
+    });
+  }
+
+  /**
+   * Called by Monster.die, while the monster is still in the scene
+   */
+  handleDeath(): void {
+    this.affixes.forEach((affix) => {
+      if (affix.deathExplosion) {
+        this.scheduleExplosion(affix.deathExplosion);
+      }
+    });
+  }
+
+  /**
+   * Mark the blast area, then hurt the player and companions still inside it. The
+   * timer lives on the scene since the monster is destroyed before it goes off.
+   */
+  private scheduleExplosion(
+    explosion: NonNullable<MonsterAffixDefinition["deathExplosion"]>
+  ): void {
+    try {
+      const scene = this.entity.scene;
+      const { x, y } = this.entity;
+      const monsterType = this.monster.monsterType;
+      const monsterName = this.monster.monsterName;
+
+      const telegraph = scene.add.graphics();
+      telegraph.setDepth(3);
+      telegraph.fillStyle(0xff5500, 0.25);
+      telegraph.lineStyle(2, 0xff5500, 0.8);
+      telegraph.fillCircle(x, y, explosion.radius);
+      telegraph.strokeCircle(x, y, explosion.radius);
+
+      scene.time.delayedCall(explosion.delay, () => {
+        telegraph.destroy();
+
+        const gameScene = scene as Phaser.Scene & {
+          playerCharacter?: PlayerCharacter;
+          companions?: Phaser.GameObjects.Group;
+        };
+
+        const blast = scene.add.circle(x, y, explosion.radius, 0xff7722, 0.6);
+        blast.setDepth(3);
+        scene.tweens.add({
+          targets: blast,
+          alpha: 0,
+          scale: 1.3,
+          duration: 300,
+          onComplete: () => blast.destroy(),
+        });
+
+        const inBlast = (target: Character) =>
+          !target.isDead &&
+          Phaser.Math.Distance.Between(x, y, target.x, target.y) <= explosion.radius;
+
+        const player = gameScene.playerCharacter;
+        if (player && inBlast(player)) {
+          const taken = player.calculateDamageTaken(
+            explosion.damage,
+            true,
+            monsterType,
+            explosion.damageType
+          );
+          player.takeDamage(explosion.damage, true, monsterType, explosion.damageType);
+
+          eventBus.emit("combat.damage.received", {
+            damage: taken.finalDamage,
+            source: monsterName,
+            monsterType,
+            attackType: "Death Explosion",
+            outcome: "hit",
+            breakdown: DamageFormulas.createMonsterHitBreakdown(
+              explosion.damage,
+              1,
+              1,
+              taken,
+              explosion.damageType,
+              true
+            ),
+          });
+        }
+
+        gameScene.companions?.getChildren().forEach((gameObject) => {
+          const companion = gameObject as Companion;
+          if (inBlast(companion)) {
+            companion.takeDamage(explosion.damage, true, monsterType, explosion.damageType);
+          }
+        });
+
+        eventBus.emit("monster.affix.exploded", { monsterType, x, y });
+      });
+    } catch (error) {
+      console.error(`Error scheduling death explosion for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.affixes", { id: this.entity.id, error });
+    }
+  }
+}
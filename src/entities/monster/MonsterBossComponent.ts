@@ -0,0 +1,310 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { MonsterAIComponent } from "./MonsterAIComponent";
+import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { MonsterSpellcastingComponent } from "./MonsterSpellcastingComponent";
+import { MonsterThreatComponent } from "./MonsterThreatComponent";
+import { eventBus } from "@/utils/EventBus";
+import { BossEncounterService } from "@/services/BossEncounterService";
+import { PathfindingService, TilePoint } from "@/services/PathfindingService";
+import { BossEncounterData, BossPhase } from "@/types";
+
+const ARENA_COLOR = 0xaa2222;
+const ENRAGE_TINT = 0xff3333;
+
+/**
+ * Runs a boss fight from BossEncounterData: health-threshold phases with their own
+ * spell rotation, adds and damage, an enrage timer, and an arena around the spawn
+ * point that keeps the player in until the boss dies or resets.
+ */
+export class MonsterBossComponent extends Component {
+  private encounter: BossEncounterData;
+  private engaged: boolean = false;
+  private engagedAt: number = 0;
+  private enraged: boolean = false;
+  private phaseIndex: number = -1;
+  private baseDamage: number = 0;
+  private adds: Monster[] = [];
+  private arenaGraphics: Phaser.GameObjects.Graphics | null = null;
+  private lastReportedHealth: number = -1;
+
+  constructor(entity: Monster, encounter: BossEncounterData) {
+    super(entity);
+    this.encounter = encounter;
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  isEngaged(): boolean {
+    return this.engaged;
+  }
+
+  getPhase(): BossPhase | null {
+    return this.encounter.phases[this.phaseIndex] || null;
+  }
+
+  update(): void {
+    try {
+      if (!this.isEnabled || this.monster.isDead) return;
+
+      const ai = this.monster.components.get<MonsterAIComponent>("ai");
+      const threat = this.monster.components.get<MonsterThreatComponent>("threat");
+      const inCombat = !!threat && !threat.isEmpty() && !ai?.isResetting();
+
+      if (!this.engaged) {
+        if (inCombat) this.startEncounter();
+        return;
+      }
+
+      // Everyone died, ran or the boss was leashed
+      if (!inCombat) {
+        this.endEncounter(false);
+        return;
+      }
+
+      this.updatePhase();
+      this.reportHealth();
+
+      const enrage = this.encounter.enrage;
+      if (enrage && !this.enraged && Date.now() - this.engagedAt >= enrage.after * 1000) {
+        this.enrage();
+      }
+    } catch (error) {
+      console.error(`Error in MonsterBossComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.boss", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Called by Monster.die, since dead monsters are no longer updated
+   */
+  handleDeath(): void {
+    if (this.engaged) {
+      this.endEncounter(true);
+    }
+  }
+
+  private startEncounter(): void {
+    const { spawnPosition } = this.monster;
+    const arena = { x: spawnPosition.x, y: spawnPosition.y, radius: this.encounter.arenaRadius };
+
+    this.engaged = true;
+    this.engagedAt = Date.now();
+    this.enraged = false;
+    this.phaseIndex = -1;
+    this.baseDamage = this.monster.components.get<MonsterCombatComponent>("combat")?.damage || 0;
+
+    BossEncounterService.startEncounter(this.entity.id, arena);
+    this.drawArena(arena.x, arena.y, arena.radius);
+
+    this.enterPhase(0);
+    this.lastReportedHealth = this.monster.health;
+
+    eventBus.emit("boss.encounter.started", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+      phaseName: this.getPhase()?.name || "",
+      health: this.monster.health,
+      maxHealth: this.monster.maxHealth,
+      enrageAfter: this.encounter.enrage?.after,
+    });
+  }
+
+  /**
+   * @param victory true if the boss died, false if it reset
+   */
+  private endEncounter(victory: boolean): void {
+    this.engaged = false;
+    BossEncounterService.endEncounter(this.entity.id);
+    this.clearArena();
+
+    if (!victory) {
+      // A reset boss starts over: adds go away and phase modifiers are lifted
+      this.adds.forEach((add) => {
+        if (add.active && !add.isDead) add.destroy();
+      });
+      this.adds = [];
+
+      this.phaseIndex = -1;
+      this.enraged = false;
+      this.applyDamageMultiplier();
+      this.restoreTint();
+    }
+
+    eventBus.emit("boss.encounter.ended", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+      victory,
+    });
+  }
+
+  /**
+   * Enter every phase whose health threshold has been crossed, in order
+   */
+  private updatePhase(): void {
+    const healthFraction = this.monster.health / this.monster.maxHealth;
+    const phases = this.encounter.phases;
+
+    while (
+      this.phaseIndex + 1 < phases.length &&
+      healthFraction <= phases[this.phaseIndex + 1].healthThreshold
+    ) {
+      this.enterPhase(this.phaseIndex + 1);
+    }
+  }
+
+  private enterPhase(index: number): void {
+    const phase = this.encounter.phases[index];
+    if (!phase) return;
+
+    this.phaseIndex = index;
+
+    this.monster.components
+      .get<MonsterSpellcastingComponent>("spellcasting")
+      ?.setRotation(phase.abilities);
+    this.applyDamageMultiplier();
+    phase.adds?.forEach((add) => this.spawnAdds(add.monsterType, add.count));
+
+    if (phase.yell) {
+      eventBus.emit("ui.message.show", `${this.monster.monsterName}: ${phase.yell}`);
+    }
+
+    eventBus.emit("boss.phase.changed", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      phaseId: phase.id,
+      phaseName: phase.name,
+      phaseIndex: index,
+    });
+  }
+
+  private enrage(): void {
+    const enrage = this.encounter.enrage;
+    if (!enrage) return;
+
+    this.enraged = true;
+    this.applyDamageMultiplier();
+    this.monster.setTint(ENRAGE_TINT);
+
+    if (enrage.yell) {
+      eventBus.emit("ui.message.show", `${this.monster.monsterName}: ${enrage.yell}`);
+    }
+
+    eventBus.emit("boss.enraged", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+    });
+  }
+
+  private applyDamageMultiplier(): void {
+    const combatComponent = this.monster.components.get<MonsterCombatComponent>("combat");
+    if (!combatComponent) return;
+
+    const phaseMultiplier = this.getPhase()?.damageMultiplier || 1;
+    const enrageMultiplier = this.enraged ? this.encounter.enrage?.damageMultiplier || 1 : 1;
+
+    combatComponent.damage = this.baseDamage * phaseMultiplier * enrageMultiplier;
+  }
+
+  private restoreTint(): void {
+    if (this.monster.color !== undefined) {
+      this.monster.setTint(this.monster.color);
+    } else {
+      this.monster.clearTint();
+    }
+  }
+
+  /**
+   * Summon adds on free tiles around the boss. They join the fight on the boss's target.
+   */
+  private spawnAdds(monsterType: string, count: number): void {
+    const gameScene = this.entity.scene as Phaser.Scene & {
+      spawnMonster?: (monsterType: string, x: number, y: number) => Monster | null;
+    };
+    if (!gameScene.spawnMonster) return;
+
+    const target = this.monster.components.get<MonsterAIComponent>("ai")?.getTarget();
+    const tiles = this.findFreeTilesAround(count);
+
+    tiles.forEach((tile) => {
+      const position = PathfindingService.tileToWorld(tile.x, tile.y);
+      const add = gameScene.spawnMonster?.(monsterType, position.x, position.y);
+      if (!add) return;
+
+      if (target) {
+        add.components.get<MonsterThreatComponent>("threat")?.addThreat(target, 1);
+      }
+      this.adds.push(add);
+
+      eventBus.emit("boss.add.spawned", {
+        id: this.entity.id,
+        addId: add.id,
+        monsterType,
+      });
+    });
+  }
+
+  private findFreeTilesAround(count: number): TilePoint[] {
+    const center = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+    const tiles: TilePoint[] = [];
+
+    for (let ring = 1; ring <= 3 && tiles.length < count; ring++) {
+      for (let dx = -ring; dx <= ring && tiles.length < count; dx++) {
+        for (let dy = -ring; dy <= ring && tiles.length < count; dy++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+
+          const tile = { x: center.x + dx, y: center.y + dy };
+          if (PathfindingService.isWalkable(tile.x, tile.y)) {
+            tiles.push(tile);
+          }
+        }
+      }
+    }
+
+    return tiles;
+  }
+
+  private reportHealth(): void {
+    if (this.monster.health === this.lastReportedHealth) return;
+    this.lastReportedHealth = this.monster.health;
+
+    eventBus.emit("boss.health.changed", {
+      id: this.entity.id,
+      health: this.monster.health,
+      maxHealth: this.monster.maxHealth,
+    });
+  }
+
+  private drawArena(x: number, y: number, radius: number): void {
+    this.clearArena();
+
+    this.arenaGraphics = this.entity.scene.add.graphics();
+    this.arenaGraphics.setDepth(2);
+    this.arenaGraphics.lineStyle(3, ARENA_COLOR, 0.8);
+    this.arenaGraphics.strokeCircle(x, y, radius);
+    this.arenaGraphics.fillStyle(ARENA_COLOR, 0.08);
+    this.arenaGraphics.fillCircle(x, y, radius);
+  }
+
+  private clearArena(): void {
+    if (this.arenaGraphics) {
+      this.arenaGraphics.destroy();
+      this.arenaGraphics = null;
+    }
+  }
+
+  destroy(): void {
+    if (this.engaged) {
+      this.engaged = false;
+      BossEncounterService.endEncounter(this.entity.id);
+    }
+    this.clearArena();
+    this.adds = [];
+    super.destroy();
+  }
+}
@@ -1,20 +1,34 @@
 import { Component } from "../Component";
 import { Monster } from "../Monster";
+import { Companion } from "../Companion";
 import { MonsterMovementComponent } from "./MonsterMovementComponent";
-import { DamageFormulas } from "@/utils/formulas"; // ADDED: Only new import
+import type { MonsterAffixComponent } from "./MonsterAffixComponent";
+import { DamageFormulas, MONSTER_ATTACK_COOLDOWN } from "@/utils/formulas";
 import { eventBus } from "@/utils/EventBus";
+import { useGameStore } from "@/stores/gameStore";
+import { DamageType, StatusEffectApplication } from "@/types";
 
 export class MonsterCombatComponent extends Component {
   damage: number = 5;
   attackRange: number = 32;
-  attackCooldown: number = 2000;
+  attackCooldown: number = MONSTER_ATTACK_COOLDOWN;
   lastAttackTime: number = 0;
   attackType: string = "melee"; // "melee", "ranged", or "magic"
-
-  constructor(entity: Monster, damage: number = 5, attackType: string = "melee") {
+  damageType: DamageType = DamageType.PHYSICAL;
+  statusEffect?: StatusEffectApplication;
+
+  constructor(
+    entity: Monster,
+    damage: number = 5,
+    attackType: string = "melee",
+    damageType: DamageType = DamageType.PHYSICAL,
+    statusEffect?: StatusEffectApplication
+  ) {
     super(entity);
     this.damage = damage;
     this.attackType = attackType;
+    this.damageType = damageType;
+    this.statusEffect = statusEffect;
 
     // Set attack range based on attack type
     if (this.attackType === "melee") {
@@ -30,6 +44,7 @@ export class MonsterCombatComponent extends Component {
       entityId: this.entity.id,
       damage: this.damage,
       attackType: this.attackType,
+      damageType: this.damageType,
       attackRange: this.attackRange,
       attackCooldown: this.attackCooldown,
     });
@@ -39,81 +54,212 @@ export class MonsterCombatComponent extends Component {
     return this.entity as Monster;
   }
 
+  /**
+   * Cooldown and range check shared by attacks on the player and on companions.
+   * When the attack goes ahead, faces the target, flashes and plays the attack effect.
+   *
+   * @returns Direction of the attack, or null if the monster can't attack yet
+   */
+  private beginAttack(target: { x: number; y: number }): string | null {
+    if (Date.now() - this.lastAttackTime < this.attackCooldown) {
+      return null;
+    }
+
+    // Check if target is in range
+    const distance = Phaser.Math.Distance.Between(this.entity.x, this.entity.y, target.x, target.y);
+
+    if (distance > this.attackRange) {
+      return null; // Target out of range
+    }
+
+    // Update last attack time
+    this.lastAttackTime = Date.now();
+
+    // Calculate direction to target for facing during attack
+    const dx = target.x - this.entity.x;
+    const dy = target.y - this.entity.y;
+
+    let direction;
+    if (Math.abs(dx) > Math.abs(dy)) {
+      direction = dx > 0 ? "right" : "left";
+    } else {
+      direction = dy > 0 ? "down" : "up";
+    }
+
+    // Make sure the monster is facing the target when attacking
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.facePlayer();
+    } else {
+      // Fallback if no movement component
+      this.monster.playAnimation(direction, false);
+    }
+
+    // Flash the monster briefly to indicate attack
+    this.entity.setTint(0xff0000);
+    this.entity.scene.time.delayedCall(100, () => {
+      this.entity.setTint(this.entity.color);
+    });
+
+    // Create attack effect
+    this.createAttackEffect(target.x, target.y);
+
+    return direction;
+  }
+
   attackPlayerCharacter(): boolean {
     try {
-      if (Date.now() - this.lastAttackTime < this.attackCooldown) {
-        return false;
-      }
-
       // Get player character
       const gameScene = this.entity.scene as any;
       if (!gameScene.playerCharacter) return false;
 
       const player = gameScene.playerCharacter;
 
-      // Check if player is in range
-      const distance = Phaser.Math.Distance.Between(
-        this.entity.x,
-        this.entity.y,
-        player.x,
-        player.y
+      const direction = this.beginAttack(player);
+      if (!direction) return false;
+
+      // Roll against the player's dodge; monsters can land critical hits too
+      const { equipment, skills } = useGameStore.getState().playerCharacter;
+      const roll = DamageFormulas.rollAttack(
+        DamageFormulas.getMonsterAttackRollChances(equipment, skills)
+      );
+
+      // CHANGED: Calculate damage using formulas and determine if magic
+      const finalDamage = DamageFormulas.applyCombatRoll(
+        DamageFormulas.calculateMonsterDamage(this.damage, 1),
+        roll
       );
+      const isMagicDamage = DamageFormulas.isMagicDamage(this.attackType);
+      const landed = roll.damageMultiplier > 0;
+      const breakdown = landed
+        ? DamageFormulas.createMonsterHitBreakdown(
+            this.damage,
+            1,
+            roll.outcome === "critical" ? roll.damageMultiplier : 1,
+            player.calculateDamageTaken(
+              finalDamage,
+              isMagicDamage,
+              this.monster.monsterType,
+              this.damageType
+            ),
+            this.damageType,
+            isMagicDamage
+          )
+        : undefined;
+
+      eventBus.emit("combat.damage.received", {
+        damage: breakdown ? breakdown.finalDamage : 0,
+        source: this.monster.monsterName,
+        monsterType: this.monster.monsterType,
+        attackType: this.attackType,
+        outcome: roll.outcome,
+        breakdown,
+      });
 
-      if (distance > this.attackRange) {
-        return false; // Player out of range
+      if (!landed) {
+        player.showDamageNumber(0, roll.outcome);
+        eventBus.emit("monster.attack.dodged", {
+          entityId: this.entity.id,
+          targetId: "player",
+          attackType: this.attackType,
+        });
+        return true;
       }
 
-      // Update last attack time
-      this.lastAttackTime = Date.now();
+      // CHANGED: Call player's takeDamage method with calculated damage and magic flag
+      player.takeDamage(finalDamage, isMagicDamage, this.monster.monsterType, this.damageType);
+      player.showDamageNumber(breakdown?.finalDamage || 0, roll.outcome);
 
-      // Calculate direction to player for facing during attack
-      const dx = player.x - this.entity.x;
-      const dy = player.y - this.entity.y;
+      // Champion affixes that trigger on hit, e.g. vampiric
+      this.monster.components
+        .get<MonsterAffixComponent>("affixes")
+        ?.onDamageDealt(breakdown?.finalDamage || 0);
 
-      let direction;
-      if (Math.abs(dx) > Math.abs(dy)) {
-        direction = dx > 0 ? "right" : "left";
-      } else {
-        direction = dy > 0 ? "down" : "up";
+      // Apply on-hit status effect (e.g. poison arrows)
+      if (this.statusEffect) {
+        player.applyStatusEffect(this.statusEffect, this.monster.monsterType);
       }
 
-      // Make sure the monster is facing the player when attacking
-      const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
-      if (movementComponent) {
-        movementComponent.facePlayer();
-      } else {
-        // Fallback if no movement component
-        this.monster.playAnimation(direction, false);
-      }
+      // Emit attack event
+      eventBus.emit("monster.attack.hit", {
+        entityId: this.entity.id,
+        targetId: "player",
+        damage: finalDamage, // CHANGED: Use calculated damage
+        attackType: this.attackType,
+        damageType: this.damageType,
+        outcome: roll.outcome,
+        direction: direction,
+      });
 
-      // Flash the monster briefly to indicate attack
-      this.entity.setTint(0xff0000);
-      this.entity.scene.time.delayedCall(100, () => {
-        this.entity.setTint(this.entity.color);
+      return true;
+    } catch (error) {
+      console.error(`Error in monster ${this.entity.id} attackPlayerCharacter:`, error);
+      eventBus.emit("error.monster.attack", {
+        entityId: this.entity.id,
+        error,
       });
+      return false;
+    }
+  }
 
-      // Create attack effect
-      this.createAttackEffect(player.x, player.y);
+  /**
+   * Basic attack against a hired companion. Companions dodge with their own chance
+   * and take the hit through their own armor.
+   */
+  attackCompanion(companion: Companion): boolean {
+    try {
+      if (companion.isDead) return false;
 
-      // CHANGED: Calculate damage using formulas and determine if magic
-      const finalDamage = DamageFormulas.calculateMonsterDamage(this.damage, 1);
+      const direction = this.beginAttack(companion);
+      if (!direction) return false;
+
+      const roll = DamageFormulas.rollAttack(
+        DamageFormulas.getMonsterAttackRollChancesAgainstCompanion(companion.dodgeChance)
+      );
+
+      if (roll.damageMultiplier <= 0) {
+        this.createDamageText(companion.x, companion.y, "Dodge");
+        eventBus.emit("monster.attack.dodged", {
+          entityId: this.entity.id,
+          targetId: companion.id,
+          attackType: this.attackType,
+        });
+        return true;
+      }
+
+      const finalDamage = DamageFormulas.applyCombatRoll(
+        DamageFormulas.calculateMonsterDamage(this.damage, 1),
+        roll
+      );
       const isMagicDamage = DamageFormulas.isMagicDamage(this.attackType);
+      const { finalDamage: damageTaken } = companion.calculateMitigation(
+        finalDamage,
+        isMagicDamage,
+        this.damageType
+      );
 
-      // CHANGED: Call player's takeDamage method with calculated damage and magic flag
-      player.takeDamage(finalDamage, isMagicDamage, this.monster.monsterType);
+      this.createDamageText(companion.x, companion.y, damageTaken);
+      companion.takeDamage(finalDamage, isMagicDamage, this.monster.monsterType, this.damageType);
+      this.monster.components.get<MonsterAffixComponent>("affixes")?.onDamageDealt(damageTaken);
+
+      // Apply on-hit status effect (e.g. poison arrows)
+      if (this.statusEffect) {
+        companion.applyStatusEffect(this.statusEffect, this.monster.monsterType);
+      }
 
-      // Emit attack event
       eventBus.emit("monster.attack.hit", {
         entityId: this.entity.id,
-        targetId: "player",
-        damage: finalDamage, // CHANGED: Use calculated damage
+        targetId: companion.id,
+        damage: finalDamage,
         attackType: this.attackType,
+        damageType: this.damageType,
+        outcome: roll.outcome,
         direction: direction,
       });
 
       return true;
     } catch (error) {
-      console.error(`Error in monster ${this.entity.id} attackPlayerCharacter:`, error);
+      console.error(`Error in monster ${this.entity.id} attackCompanion:`, error);
       eventBus.emit("error.monster.attack", {
         entityId: this.entity.id,
         error,
@@ -122,12 +268,13 @@ export class MonsterCombatComponent extends Component {
     }
   }
 
-  createDamageText(x: number, y: number, damage: number): void {
+  createDamageText(x: number, y: number, damage: number | string): void {
     try {
-      const text = this.entity.scene.add.text(x, y - 20, `-${damage}`, {
+      const isNumber = typeof damage === "number";
+      const text = this.entity.scene.add.text(x, y - 20, isNumber ? `-${damage}` : damage, {
         fontFamily: "Arial",
         fontSize: "14px",
-        color: "#ff0000",
+        color: isNumber ? "#ff0000" : "#aaaaaa",
         stroke: "#000000",
         strokeThickness: 3,
       });
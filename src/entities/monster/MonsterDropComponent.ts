@@ -1,12 +1,17 @@
 import { ItemDictionary } from "@/services/ItemDictionaryService";
 import { Component } from "../Component";
 import { Monster } from "../Monster";
-import { ItemDrop } from "@/types";
+import { Item } from "../Item";
+import { ItemDrop, ItemRoll, WeightedItemDrop } from "@/types";
+import { CHAMPION_LOOT_TABLE } from "@/data/monsterAffixes";
+import { getMonsterItemLevel } from "@/data/itemRarity";
 import { eventBus } from "@/utils/EventBus";
 import { KillBonusService } from "@/services/KillBonusService";
+import { RandomService } from "@/services/RandomService";
 
 export class MonsterDropComponent extends Component {
   private possibleDrops: ItemDrop[] = [];
+  private championLoot: boolean = false;
 
   constructor(entity: Monster, drops: ItemDrop[]) {
     super(entity);
@@ -27,13 +32,21 @@ export class MonsterDropComponent extends Component {
     });
   }
 
+  /**
+   * Champions roll once more on the shared champion loot table
+   */
+  enableChampionLoot(): void {
+    this.championLoot = true;
+  }
+
   processDrops(x: number, y: number): void {
     try {
       // No drops if empty
-      if (this.possibleDrops.length === 0) return;
+      if (this.possibleDrops.length === 0 && !this.championLoot) return;
 
       // Check if any item dropped
       let droppedItems = 0;
+      const random = RandomService.stream("loot");
       const drops: Array<{ itemId: string; quantity: number }> = [];
 
       // Process each possible drop
@@ -45,63 +58,25 @@ export class MonsterDropComponent extends Component {
         );
 
         // Calculate if the item drops based on modified chance
-        if (Math.random() < modifiedChance) {
-          // Get the game scene
-          const gameScene = this.entity.scene as any;
-
+        if (random.chance(modifiedChance)) {
           // Determine quantity for this drop
-          const minQuantity = drop.minQuantity || 1;
-          const maxQuantity = drop.maxQuantity || 1;
-          const quantity =
-            Math.floor(Math.random() * (maxQuantity - minQuantity + 1)) + minQuantity;
-
-          // Spawn the item(s)
-          if (gameScene.spawnItem) {
-            // Adjust position for multiple different drops
-            const offsetX = droppedItems > 0 ? Math.random() * 20 - 10 : 0;
-            const offsetY = droppedItems > 0 ? Math.random() * 20 - 10 : 0;
-
-            // For stackable items (like gold), create ONE item with the full quantity
-            const itemData = ItemDictionary.getItem(drop.itemId);
-            if (itemData?.stackable) {
-              // Create a single item with the correct quantity
-              const item = gameScene.spawnItem(
-                drop.itemId,
-                x + offsetX,
-                y + offsetY,
-                undefined, // instanceId
-                undefined, // bonusStats
-                quantity // quantity
-              );
-
-              if (item) {
-                drops.push({
-                  itemId: item.templateId,
-                  quantity: quantity,
-                });
-              }
-            } else {
-              // For non-stackable items, create individual items
-              for (let i = 0; i < quantity; i++) {
-                const itemX = x + offsetX + (i > 0 ? Math.random() * 10 - 5 : 0);
-                const itemY = y + offsetY + (i > 0 ? Math.random() * 10 - 5 : 0);
-
-                const item = gameScene.spawnItem(drop.itemId, itemX, itemY);
-
-                if (item) {
-                  drops.push({
-                    itemId: item.templateId,
-                    quantity: 1,
-                  });
-                }
-              }
-            }
+          const quantity = random.int(drop.minQuantity || 1, drop.maxQuantity || 1);
 
+          if (this.spawnDrop(drop.itemId, quantity, x, y, droppedItems > 0, drops)) {
             droppedItems += 1; // Count the drop type, not individual items
           }
         }
       });
 
+      // Guaranteed extra roll for champions
+      if (this.championLoot) {
+        const drop = this.pickChampionDrop();
+        if (drop) {
+          const quantity = random.int(drop.minQuantity || 1, drop.maxQuantity || 1);
+          this.spawnDrop(drop.itemId, quantity, x, y, droppedItems > 0, drops);
+        }
+      }
+
       // Emit drops processed event if any items were dropped
       if (drops.length > 0) {
         eventBus.emit("monster.drops.processed", {
@@ -120,4 +95,83 @@ export class MonsterDropComponent extends Component {
       });
     }
   }
+
+  private pickChampionDrop(): WeightedItemDrop | null {
+    const totalWeight = CHAMPION_LOOT_TABLE.reduce((total, drop) => total + drop.weight, 0);
+    let roll = RandomService.stream("loot").float(0, totalWeight);
+
+    for (const drop of CHAMPION_LOOT_TABLE) {
+      roll -= drop.weight;
+      if (roll < 0) return drop;
+    }
+
+    return CHAMPION_LOOT_TABLE[CHAMPION_LOOT_TABLE.length - 1] || null;
+  }
+
+  /**
+   * Spawn one drop at the corpse and record it in `drops`
+   * @param scatter offset the drop so it doesn't cover the ones already on the ground
+   * @returns whether the item could be spawned
+   */
+  private spawnDrop(
+    itemId: string,
+    quantity: number,
+    x: number,
+    y: number,
+    scatter: boolean,
+    drops: Array<{ itemId: string; quantity: number }>
+  ): boolean {
+    const gameScene = this.entity.scene as Phaser.Scene & {
+      spawnItem?: (
+        templateId: string,
+        x: number,
+        y: number,
+        instanceId?: string,
+        bonusStats?: Record<string, number>,
+        quantity?: number,
+        roll?: ItemRoll
+      ) => Item | null;
+    };
+    if (!gameScene.spawnItem) return false;
+
+    const random = RandomService.stream("loot");
+
+    // Adjust position for multiple different drops
+    const offsetX = scatter ? random.float(-10, 10) : 0;
+    const offsetY = scatter ? random.float(-10, 10) : 0;
+
+    // For stackable items (like gold), create ONE item with the full quantity
+    const itemData = ItemDictionary.getItem(itemId);
+    if (itemData?.stackable) {
+      const item = gameScene.spawnItem(
+        itemId,
+        x + offsetX,
+        y + offsetY,
+        undefined, // instanceId
+        undefined, // bonusStats
+        quantity // quantity
+      );
+
+      if (item) {
+        drops.push({ itemId: item.templateId, quantity });
+      }
+    } else {
+      // For non-stackable items, create individual items
+      for (let i = 0; i < quantity; i++) {
+        const itemX = x + offsetX + (i > 0 ? random.float(-5, 5) : 0);
+        const itemY = y + offsetY + (i > 0 ? random.float(-5, 5) : 0);
+
+        // Equipment rolls its rarity and affixes at the monster's item level
+        const item = gameScene.spawnItem(itemId, itemX, itemY, undefined, undefined, undefined, {
+          itemLevel: getMonsterItemLevel(this.monster),
+        });
+
+        if (item) {
+          drops.push({ itemId: item.templateId, quantity: 1 });
+        }
+      }
+    }
+
+    return true;
+  }
 }
@@ -3,6 +3,8 @@ import { Monster } from "../Monster";
 import { MonsterAttackType } from "@/types";
 import { eventBus } from "@/utils/EventBus";
 import { MapService } from "@/services/MapService";
+import { PathfindingService, TilePoint } from "@/services/PathfindingService";
+import { RandomService } from "@/services/RandomService";
 import { useGameStore } from "@/stores/gameStore";
 
 export class MonsterMovementComponent extends MovementComponent {
@@ -20,6 +22,13 @@ export class MonsterMovementComponent extends MovementComponent {
   private wanderTimer: Phaser.Time.TimerEvent | null = null;
   private moveInProgress: boolean = false;
   private continuousPursuit: boolean = false;
+  private isReturning: boolean = false;
+
+  // Cached A* path, in collision grid tiles
+  private path: TilePoint[] = [];
+  private pathMode: "chase" | "retreat" | "home" | null = null;
+  private pathGoal: TilePoint | null = null;
+  private pathGridVersion: number = -1;
 
   // Movement parameters
   private moveChance: number = 0.8; // Increased chance to move
@@ -41,6 +50,10 @@ export class MonsterMovementComponent extends MovementComponent {
       this.setupWanderingBehavior();
     }
 
+    // Claim the spawn tile so other monsters path around it
+    const spawnTile = PathfindingService.worldToTile(entity.x, entity.y);
+    PathfindingService.occupyTile(entity, spawnTile.x, spawnTile.y);
+
     // Emit initialization event
     eventBus.emit("monster.movement.initialized", {
       entityId: this.entity.id,
@@ -55,10 +68,17 @@ export class MonsterMovementComponent extends MovementComponent {
   }
 
   /**
-   * Override parent getMoveSpeed to return monster speed
+   * Override parent getMoveSpeed to return monster speed, including slows
    */
   getMoveSpeed(): number {
-    return this.speed;
+    return this.speed * this.getStatusMoveSpeedMultiplier();
+  }
+
+  /**
+   * Permanently change the base speed, e.g. for champion affixes
+   */
+  scaleSpeed(multiplier: number): void {
+    this.speed *= multiplier;
   }
 
   /**
@@ -171,7 +191,7 @@ export class MonsterMovementComponent extends MovementComponent {
       }
 
       this.wanderTimer = this.entity.scene.time.addEvent({
-        delay: 5000 + Math.random() * 2000,
+        delay: RandomService.stream("ai").float(5000, 7000),
         callback: this.wander,
         callbackScope: this,
         loop: true,
@@ -185,7 +205,7 @@ export class MonsterMovementComponent extends MovementComponent {
   moveToTile(tileX: number, tileY: number): Promise<void> {
     return new Promise<void>((resolve) => {
       try {
-        if (this.moveInProgress) {
+        if (this.moveInProgress || this.isStunned()) {
           resolve();
           return;
         }
@@ -194,6 +214,10 @@ export class MonsterMovementComponent extends MovementComponent {
 
         const worldPos = this.tiledTileToWorld(tileX, tileY);
 
+        // Reserve the destination so paths of other monsters avoid it
+        const gridTile = PathfindingService.worldToTile(worldPos.x, worldPos.y);
+        PathfindingService.occupyTile(this.entity, gridTile.x, gridTile.y);
+
         // Calculate direction for animation
         const currentTiledTile = this.worldToTiledTile(this.entity.x, this.entity.y);
         const dx = tileX - currentTiledTile.x;
@@ -220,7 +244,7 @@ export class MonsterMovementComponent extends MovementComponent {
         // FIXED: Calculate duration based on monster's speed
         let moveDuration = 400; // Base duration
         const baseMoveSpeed = 120; // Base monster speed
-        moveDuration = moveDuration * (baseMoveSpeed / this.speed);
+        moveDuration = moveDuration * (baseMoveSpeed / this.getMoveSpeed());
 
         // If it's a ranged or magic monster maintaining distance, move faster
         if (
@@ -292,16 +316,15 @@ export class MonsterMovementComponent extends MovementComponent {
         return;
       }
 
-      const gameScene = this.entity.scene as any;
-      if (!gameScene || !gameScene.playerCharacter) return;
-
-      const player = gameScene.playerCharacter;
+      // The player or a hired companion
+      const target = this.monster.getAggroTarget();
+      if (!target) return;
 
       const distance = Phaser.Math.Distance.Between(
         this.entity.x,
         this.entity.y,
-        player.x,
-        player.y
+        target.x,
+        target.y
       );
 
       // Different behavior based on attack type
@@ -316,15 +339,15 @@ export class MonsterMovementComponent extends MovementComponent {
         this.attackType === MonsterAttackType.Magic ||
         this.attackType === MonsterAttackType.Ranged
       ) {
-        // If too close to player, retreat
+        // If too close to target, retreat
         if (distance < this.preferredDistance * 0.8) {
           this.continueRetreating();
         }
-        // If too far from player, chase
+        // If too far from target, chase
         else if (distance > this.preferredDistance * 1.2) {
           this.continueChasing();
         }
-        // If at good distance, face player
+        // If at good distance, face target
         else {
           this.facePlayer();
         }
@@ -386,12 +409,20 @@ export class MonsterMovementComponent extends MovementComponent {
         return null;
       }
 
-      const player = gameScene.playerCharacter;
+      // Chase or retreat from whoever the monster is targeting
+      const target = this.monster.getAggroTarget();
+      if (!target) return null;
+
+      if (PathfindingService.hasGrid()) {
+        return towards ? this.getNextChaseStep(target) : this.getNextRetreatStep(target);
+      }
+
+      // Greedy stepping until the pathfinding grid is available
       const monsterTile = this.worldToTiledTile(this.entity.x, this.entity.y);
-      const playerTile = this.worldToTiledTile(player.x, player.y);
+      const targetTile = this.worldToTiledTile(target.x, target.y);
 
-      const diffX = playerTile.x - monsterTile.x;
-      const diffY = playerTile.y - monsterTile.y;
+      const diffX = targetTile.x - monsterTile.x;
+      const diffY = targetTile.y - monsterTile.y;
 
       return this.calculateMovementDirection(monsterTile, diffX, diffY, towards);
     } catch (error) {
@@ -403,6 +434,91 @@ export class MonsterMovementComponent extends MovementComponent {
     }
   }
 
+  /**
+   * Next step along an A* path to the player, re-planned when the player changes
+   * tile or another entity blocks the cached path
+   */
+  private getNextChaseStep(player: { x: number; y: number }): { dx: number; dy: number } | null {
+    const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+    const goal = PathfindingService.worldToTile(player.x, player.y);
+
+    const goalMoved = !this.pathGoal || this.pathGoal.x !== goal.x || this.pathGoal.y !== goal.y;
+
+    if (this.pathMode !== "chase" || goalMoved || !this.isCachedPathUsable(start)) {
+      const path = PathfindingService.findPath(start, goal, {
+        ignore: this.entity,
+        allowPartial: true,
+      });
+      this.setPath("chase", path || [], goal);
+    }
+
+    return this.takePathStep(start);
+  }
+
+  /**
+   * Next step along an A* path to a tile at the preferred distance from the player
+   */
+  private getNextRetreatStep(player: { x: number; y: number }): { dx: number; dy: number } | null {
+    const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+
+    if (this.pathMode !== "retreat" || !this.isCachedPathUsable(start)) {
+      const threat = PathfindingService.worldToTile(player.x, player.y);
+      const path = PathfindingService.findRetreatPath(
+        start,
+        threat,
+        Math.round(this.preferredDistance / this.tileSize),
+        { ignore: this.entity }
+      );
+      this.setPath("retreat", path || [], null);
+    }
+
+    return this.takePathStep(start);
+  }
+
+  private isCachedPathUsable(start: TilePoint): boolean {
+    if (this.pathGridVersion !== PathfindingService.getGridVersion() || this.path.length === 0) {
+      return false;
+    }
+
+    // The next step must still be adjacent (the monster may have been pushed)
+    const next = this.path[0];
+    if (Math.abs(next.x - start.x) + Math.abs(next.y - start.y) !== 1) return false;
+
+    return PathfindingService.isPathClear(this.path, { ignore: this.entity });
+  }
+
+  private setPath(
+    mode: "chase" | "retreat" | "home",
+    path: TilePoint[],
+    goal: TilePoint | null
+  ): void {
+    this.path = path;
+    this.pathMode = mode;
+    this.pathGoal = goal;
+    this.pathGridVersion = PathfindingService.getGridVersion();
+  }
+
+  private clearPath(): void {
+    this.path = [];
+    this.pathMode = null;
+    this.pathGoal = null;
+  }
+
+  private takePathStep(start: TilePoint): { dx: number; dy: number } | null {
+    const next = this.path.shift();
+    if (!next) return null;
+
+    const dx = next.x - start.x;
+    const dy = next.y - start.y;
+
+    if (Math.abs(dx) + Math.abs(dy) !== 1) {
+      this.clearPath();
+      return null;
+    }
+
+    return { dx, dy };
+  }
+
   private calculateMovementDirection(
     monsterTile: { x: number; y: number },
     diffX: number,
@@ -461,10 +577,7 @@ export class MonsterMovementComponent extends MovementComponent {
     ];
 
     // Randomize direction order
-    for (let i = directions.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [directions[i], directions[j]] = [directions[j], directions[i]];
-    }
+    RandomService.stream("ai").shuffle(directions);
 
     // Find first valid direction
     for (const dir of directions) {
@@ -527,6 +640,7 @@ export class MonsterMovementComponent extends MovementComponent {
       if (distance > this.loseAggroRange) {
         // Lost aggro, return to wandering behavior
         this.isProvoked = false;
+        this.clearPath();
         this.setAggression(false);
         this.setupWanderingBehavior();
 
@@ -635,6 +749,61 @@ export class MonsterMovementComponent extends MovementComponent {
     }
   }
 
+  /**
+   * Walk one tile back towards the initial position after a leash reset
+   * @returns true once the monster is home, or can't find a way there
+   */
+  returnToInitialPosition(): boolean {
+    try {
+      if (this.moveInProgress) return false;
+
+      const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+      const goal = PathfindingService.worldToTile(this.initialPosition.x, this.initialPosition.y);
+
+      let move: { dx: number; dy: number } | null = null;
+      if (PathfindingService.hasGrid() && (start.x !== goal.x || start.y !== goal.y)) {
+        if (this.pathMode !== "home" || !this.isCachedPathUsable(start)) {
+          const path = PathfindingService.findPath(start, goal, {
+            ignore: this.entity,
+            allowPartial: true,
+          });
+          this.setPath("home", path || [], goal);
+        }
+        move = this.takePathStep(start);
+
+        // Someone else is standing on the home tile: stop next to it instead
+        if (
+          move &&
+          start.x + move.dx === goal.x &&
+          start.y + move.dy === goal.y &&
+          !PathfindingService.isWalkable(goal.x, goal.y, { ignore: this.entity })
+        ) {
+          move = null;
+        }
+      }
+
+      // Home, or nowhere left to go: settle here and go back to wandering
+      if (!move) {
+        this.isReturning = false;
+        this.clearPath();
+        return true;
+      }
+
+      this.isReturning = true;
+      const currentTiledTile = this.worldToTiledTile(this.entity.x, this.entity.y);
+      this.moveToTileWithPursuit(currentTiledTile.x + move.dx, currentTiledTile.y + move.dy);
+      return false;
+    } catch (error) {
+      console.error(`Error in monster ${this.entity.id} returnToInitialPosition:`, error);
+      eventBus.emit("error.monster.return", {
+        entityId: this.entity.id,
+        error,
+      });
+      this.isReturning = false;
+      return true;
+    }
+  }
+
   facePlayer(): void {
     try {
       // FIXED: Add validation check
@@ -642,13 +811,12 @@ export class MonsterMovementComponent extends MovementComponent {
         return;
       }
 
-      const gameScene = this.entity.scene as any;
-      if (!gameScene || !gameScene.playerCharacter) return;
-
-      const player = gameScene.playerCharacter;
+      // Face the player or the companion being attacked
+      const target = this.monster.getAggroTarget();
+      if (!target) return;
 
-      const dx = player.x - this.entity.x;
-      const dy = player.y - this.entity.y;
+      const dx = target.x - this.entity.x;
+      const dy = target.y - this.entity.y;
 
       let direction;
       if (Math.abs(dx) > Math.abs(dy)) {
@@ -675,7 +843,13 @@ export class MonsterMovementComponent extends MovementComponent {
 
   private wander(): void {
     try {
-      if (this.monster.isDead || this.isAggressive || this.isProvoked || this.moveInProgress) {
+      if (
+        this.monster.isDead ||
+        this.isAggressive ||
+        this.isProvoked ||
+        this.isReturning ||
+        this.moveInProgress
+      ) {
         return;
       }
 
@@ -684,10 +858,11 @@ export class MonsterMovementComponent extends MovementComponent {
         return;
       }
 
+      const random = RandomService.stream("ai");
+
       // 70% chance to just play animation without moving
-      if (Math.random() < 0.7) {
-        const directions = ["down", "left", "up", "right"];
-        const randomDirection = directions[Math.floor(Math.random() * directions.length)];
+      if (random.chance(0.7)) {
+        const randomDirection = random.pick(["down", "left", "up", "right"]);
         this.monster.playAnimation(randomDirection, false);
         return;
       }
@@ -740,7 +915,7 @@ export class MonsterMovementComponent extends MovementComponent {
       else if (currentTile.y > initialTile.y) dy = -1;
     } else {
       // Random movement
-      const randomDirection = Math.floor(Math.random() * 4);
+      const randomDirection = RandomService.stream("ai").int(0, 3);
       switch (randomDirection) {
         case 0:
           dx = 1;
@@ -767,6 +942,9 @@ export class MonsterMovementComponent extends MovementComponent {
         this.wanderTimer = null;
       }
 
+      this.clearPath();
+      PathfindingService.releaseTile(this.entity);
+
       super.destroy();
     } catch (error) {
       console.error(`Error destroying MonsterMovementComponent for ${this.entity.id}:`, error);
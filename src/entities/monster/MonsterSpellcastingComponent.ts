@@ -0,0 +1,347 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { PlayerCharacter } from "../PlayerCharacter";
+import { MonsterMovementComponent } from "./MonsterMovementComponent";
+import { StatusEffectComponent } from "../StatusEffectComponent";
+import { AbilityRegistry } from "@/abilityAnimations/AbilityRegistry";
+import { getMonsterAbility } from "@/data/monsterAbilities";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
+import { MonsterAbility } from "@/types";
+
+const TILE_SIZE = 32;
+const TELEGRAPH_COLOR = 0xff3333;
+
+/**
+ * Casts the spells listed in MonsterData.abilities at the player. Each cast is
+ * telegraphed on the ground for the ability's castTime, then played through the
+ * shared ability animation strategies as a hostile cast that damages the player.
+ */
+export class MonsterSpellcastingComponent extends Component {
+  private abilities: MonsterAbility[] = [];
+  private readyAt: Map<string, number> = new Map();
+  private activeAnimations: Map<string, Phaser.GameObjects.GameObject[]> = new Map();
+  private castingAbility: MonsterAbility | null = null;
+  private castTimer: Phaser.Time.TimerEvent | null = null;
+  private telegraph: Phaser.GameObjects.Graphics | null = null;
+  private inRotation: boolean = false;
+  private rotationIndex: number = 0;
+  private missingStrategyWarned: Set<string> = new Set();
+
+  constructor(entity: Monster, abilityIds: string[] = []) {
+    super(entity);
+    this.abilities = this.resolveAbilities(abilityIds);
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  isCasting(): boolean {
+    return this.castingAbility !== null;
+  }
+
+  /**
+   * Replace the spell list with a fixed rotation, as boss phases do: spells are cast
+   * strictly in order, each waiting for its own cooldown and range
+   */
+  setRotation(abilityIds: string[]): void {
+    this.abilities = this.resolveAbilities(abilityIds);
+    this.inRotation = true;
+    this.rotationIndex = 0;
+  }
+
+  private resolveAbilities(abilityIds: string[]): MonsterAbility[] {
+    const abilities: MonsterAbility[] = [];
+
+    abilityIds.forEach((abilityId) => {
+      const ability = getMonsterAbility(abilityId);
+      if (ability) {
+        abilities.push(ability);
+      } else {
+        console.warn(`Unknown monster ability '${abilityId}' on ${this.monster.monsterType}`);
+      }
+    });
+
+    return abilities;
+  }
+
+  /**
+   * Start casting the first ability that is off cooldown and in range of the player
+   * @returns true if a cast was started
+   */
+  tryCastAtPlayer(): boolean {
+    try {
+      if (!this.isEnabled || this.monster.isDead || this.isCasting()) return false;
+
+      const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+      if (statusEffects?.isStunned()) return false;
+
+      const player = this.getPlayer();
+      if (!player || player.isDead) return false;
+
+      const distance = Phaser.Math.Distance.Between(
+        this.entity.x,
+        this.entity.y,
+        player.x,
+        player.y
+      );
+      const now = Date.now();
+
+      // A rotation spell that can't be played is skipped so the rotation doesn't stall
+      const rotationAbility = this.inRotation ? this.abilities[this.rotationIndex] : undefined;
+      if (rotationAbility && !this.hasAnimationStrategy(rotationAbility)) {
+        this.rotationIndex = (this.rotationIndex + 1) % this.abilities.length;
+        return false;
+      }
+
+      const candidates = this.inRotation
+        ? this.abilities.slice(this.rotationIndex, this.rotationIndex + 1)
+        : this.abilities;
+      const ability = candidates.find(
+        (candidate) =>
+          (this.readyAt.get(candidate.id) || 0) <= now &&
+          distance <= (candidate.range || 0) &&
+          this.hasAnimationStrategy(candidate)
+      );
+      if (!ability) return false;
+
+      this.beginCast(ability, player);
+      return true;
+    } catch (error) {
+      console.error(`Error in monster ${this.entity.id} tryCastAtPlayer:`, error);
+      eventBus.emit("error.monster.ability.cast", { entityId: this.entity.id, error });
+      return false;
+    }
+  }
+
+  // Spells without a strategy can't be played, so don't telegraph them at all
+  private hasAnimationStrategy(ability: MonsterAbility): boolean {
+    if (AbilityRegistry.hasStrategy(ability.animationType)) return true;
+
+    if (!this.missingStrategyWarned.has(ability.id)) {
+      this.missingStrategyWarned.add(ability.id);
+      console.warn(
+        `No animation strategy found for monster ability: ${ability.name}, it won't be cast`
+      );
+    }
+    return false;
+  }
+
+  private getPlayer(): PlayerCharacter | undefined {
+    const scene = this.entity.scene as
+      (Phaser.Scene & { playerCharacter?: PlayerCharacter }) | undefined;
+    return scene?.playerCharacter;
+  }
+
+  private beginCast(ability: MonsterAbility, player: PlayerCharacter): void {
+    this.castingAbility = ability;
+    this.readyAt.set(ability.id, Date.now() + ability.cooldown * 1000);
+
+    if (this.inRotation) {
+      this.rotationIndex = (this.rotationIndex + 1) % this.abilities.length;
+    }
+
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    movementComponent?.facePlayer();
+
+    // Origin and aim are locked in when the telegraph appears, so the player can dodge
+    const origin = { x: this.entity.x, y: this.entity.y };
+    const angle = Phaser.Math.Angle.Between(origin.x, origin.y, player.x, player.y);
+
+    this.showTelegraph(ability, origin.x, origin.y, angle);
+
+    eventBus.emit("monster.ability.cast.start", {
+      entityId: this.entity.id,
+      type: this.monster.monsterType,
+      abilityId: ability.id,
+      castTime: ability.castTime,
+    });
+
+    this.castTimer = this.entity.scene.time.delayedCall(ability.castTime, () =>
+      this.releaseCast(ability, origin.x, origin.y, angle)
+    );
+  }
+
+  private releaseCast(ability: MonsterAbility, x: number, y: number, angle: number): void {
+    try {
+      this.castTimer = null;
+      this.castingAbility = null;
+      this.clearTelegraph();
+
+      const scene = this.entity.scene;
+      const player = this.getPlayer();
+      const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+
+      if (this.monster.isDead || statusEffects?.isStunned() || !player) {
+        eventBus.emit("monster.ability.cast.interrupted", {
+          entityId: this.entity.id,
+          abilityId: ability.id,
+        });
+        return;
+      }
+
+      if (!AbilityRegistry.hasStrategy(ability.animationType)) {
+        console.warn(`No animation strategy found for monster ability: ${ability.name}`);
+        eventBus.emit("monster.ability.cast.interrupted", {
+          entityId: this.entity.id,
+          abilityId: ability.id,
+        });
+        return;
+      }
+
+      const strategy = AbilityRegistry.getStrategy(ability.animationType);
+      strategy
+        .play(scene, player, ability, x, y, this.activeAnimations, {
+          angle,
+          onPlayerHit: () => this.applyAbilityHit(ability, player),
+        })
+        .catch((error) => {
+          console.error(`Error playing monster ability ${ability.id}:`, error);
+        });
+
+      eventBus.emit("monster.ability.cast", {
+        entityId: this.entity.id,
+        type: this.monster.monsterType,
+        name: this.monster.monsterName,
+        abilityId: ability.id,
+      });
+    } catch (error) {
+      console.error(`Error in monster ${this.entity.id} releaseCast:`, error);
+      eventBus.emit("error.monster.ability.cast", { entityId: this.entity.id, error });
+    }
+  }
+
+  private applyAbilityHit(ability: MonsterAbility, player: PlayerCharacter): void {
+    try {
+      if (player.isDead) return;
+
+      const finalDamage = DamageFormulas.calculateMonsterDamage(ability.damage, 1);
+      const isMagicDamage = DamageFormulas.isMagicDamage(undefined, ability.skillId);
+
+      const taken = player.calculateDamageTaken(
+        finalDamage,
+        isMagicDamage,
+        this.monster.monsterType,
+        ability.damageType
+      );
+
+      player.takeDamage(finalDamage, isMagicDamage, this.monster.monsterType, ability.damageType);
+
+      eventBus.emit("combat.damage.received", {
+        damage: taken.finalDamage,
+        source: this.monster.monsterName,
+        monsterType: this.monster.monsterType,
+        attackType: ability.name,
+        outcome: "hit",
+        breakdown: DamageFormulas.createMonsterHitBreakdown(
+          ability.damage,
+          1,
+          1,
+          taken,
+          ability.damageType,
+          isMagicDamage
+        ),
+      });
+
+      if (ability.statusEffect) {
+        player.applyStatusEffect(ability.statusEffect, this.monster.monsterType);
+      }
+
+      eventBus.emit("monster.ability.hit", {
+        entityId: this.entity.id,
+        targetId: "player",
+        abilityId: ability.id,
+        damage: finalDamage,
+        damageType: ability.damageType,
+      });
+    } catch (error) {
+      console.error(`Error applying monster ability ${ability.id} to player:`, error);
+      eventBus.emit("error.monster.ability.hit", { entityId: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Draw the area the spell is about to hit, pulsing until the cast goes off
+   */
+  private showTelegraph(ability: MonsterAbility, x: number, y: number, angle: number): void {
+    try {
+      this.clearTelegraph();
+
+      const graphics = this.entity.scene.add.graphics();
+      graphics.setDepth(3);
+      graphics.fillStyle(TELEGRAPH_COLOR, 0.25);
+      graphics.lineStyle(2, TELEGRAPH_COLOR, 0.7);
+
+      const range = ability.range || TILE_SIZE;
+
+      switch (ability.animationType) {
+        case "projectile": {
+          // Lane along the aim direction, as wide as the projectile
+          const halfWidth = 12;
+          const normalX = -Math.sin(angle) * halfWidth;
+          const normalY = Math.cos(angle) * halfWidth;
+          const endX = x + Math.cos(angle) * range;
+          const endY = y + Math.sin(angle) * range;
+          const points = [
+            new Phaser.Math.Vector2(x + normalX, y + normalY),
+            new Phaser.Math.Vector2(endX + normalX, endY + normalY),
+            new Phaser.Math.Vector2(endX - normalX, endY - normalY),
+            new Phaser.Math.Vector2(x - normalX, y - normalY),
+          ];
+          graphics.fillPoints(points, true);
+          graphics.strokePoints(points, true);
+          break;
+        }
+        case "expanding": {
+          const radius = ability.animationConfig?.endRadius || range;
+          graphics.fillCircle(x, y, radius);
+          graphics.strokeCircle(x, y, radius);
+          break;
+        }
+        case "tileGrid": {
+          // Matches TileGridStrategy: two rings of tiles around the caster
+          for (let dx = -2; dx <= 2; dx++) {
+            for (let dy = -2; dy <= 2; dy++) {
+              if (dx === 0 && dy === 0) continue;
+              const tileX = x + dx * TILE_SIZE - TILE_SIZE / 2;
+              const tileY = y + dy * TILE_SIZE - TILE_SIZE / 2;
+              graphics.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
+              graphics.strokeRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
+            }
+          }
+          break;
+        }
+      }
+
+      this.entity.scene.tweens.add({
+        targets: graphics,
+        alpha: { from: 1, to: 0.4 },
+        duration: 250,
+        ease: "Sine.easeInOut",
+        yoyo: true,
+        repeat: -1,
+      });
+
+      this.telegraph = graphics;
+    } catch (error) {
+      console.error(`Error showing telegraph for monster ${this.entity.id}:`, error);
+    }
+  }
+
+  private clearTelegraph(): void {
+    if (this.telegraph) {
+      this.entity.scene?.tweens.killTweensOf(this.telegraph);
+      this.telegraph.destroy();
+      this.telegraph = null;
+    }
+  }
+
+  destroy(): void {
+    this.castTimer?.remove();
+    this.castTimer = null;
+    this.castingAbility = null;
+    this.clearTelegraph();
+    super.destroy();
+  }
+}
@@ -0,0 +1,203 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { Character } from "../Character";
+import type { MonsterAIComponent } from "./MonsterAIComponent";
+import { eventBus } from "@/utils/EventBus";
+import { useGameStore } from "@/stores/gameStore";
+
+// Healing is worth half as much threat as damage, on every monster already fighting the healer
+const HEALING_THREAT_MULTIPLIER = 0.5;
+// A taunt puts the taunter this far above the current top of the table
+const TAUNT_THREAT_MULTIPLIER = 1.1;
+
+export interface ThreatEntry {
+  entity: Character;
+  threat: number;
+}
+
+/**
+ * Per-monster threat table. Damage, healing and taunts add threat for whoever caused
+ * them; the AI component reads the table to choose its target.
+ */
+export class MonsterThreatComponent extends Component {
+  private table: Map<string, ThreatEntry> = new Map();
+  private debugText: Phaser.GameObjects.Text | null = null;
+  private unsubscribeHealing: (() => void) | null = null;
+
+  constructor(entity: Monster) {
+    super(entity);
+
+    this.unsubscribeHealing = eventBus.on("healing.dealt", (data: { amount: number }) =>
+      this.handlePlayerHealing(data.amount)
+    );
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  addThreat(entity: Character, amount: number): void {
+    try {
+      if (this.monster.isDead || entity.isDead || amount < 0) return;
+
+      // Nothing sticks while the monster is walking home after a leash reset
+      if (this.monster.components.get<MonsterAIComponent>("ai")?.isResetting()) return;
+
+      const entry = this.table.get(entity.id);
+      if (entry) {
+        entry.entity = entity;
+        entry.threat += amount;
+      } else {
+        this.table.set(entity.id, { entity, threat: amount });
+      }
+
+      this.emitChanged();
+    } catch (error) {
+      console.error(`Error adding threat on monster ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.threat", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Put an entity at the top of the table, just past whoever is there now
+   */
+  taunt(entity: Character): void {
+    const highest = this.getEntries()[0]?.threat || 0;
+    const current = this.getThreat(entity);
+    const tauntThreat = Math.max(current, highest * TAUNT_THREAT_MULTIPLIER + 1);
+
+    this.addThreat(entity, tauntThreat - current);
+
+    eventBus.emit("monster.taunted", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      tauntedBy: entity.id,
+    });
+  }
+
+  getThreat(entity: Character): number {
+    return this.table.get(entity.id)?.threat || 0;
+  }
+
+  has(entity: Character): boolean {
+    return this.table.has(entity.id);
+  }
+
+  isEmpty(): boolean {
+    return this.table.size === 0;
+  }
+
+  /**
+   * Entries ordered from most to least threat
+   */
+  getEntries(): ThreatEntry[] {
+    return Array.from(this.table.values()).sort((a, b) => b.threat - a.threat);
+  }
+
+  /**
+   * Drop entries that can no longer be targeted, e.g. dead or out of range
+   */
+  removeWhere(predicate: (entity: Character) => boolean): void {
+    let removed = false;
+
+    this.table.forEach((entry, entityId) => {
+      if (predicate(entry.entity)) {
+        this.table.delete(entityId);
+        removed = true;
+      }
+    });
+
+    if (removed) {
+      this.emitChanged();
+    }
+  }
+
+  clear(): void {
+    if (this.table.size === 0) return;
+
+    this.table.clear();
+    this.emitChanged();
+  }
+
+  /**
+   * Healing the player draws threat from monsters already fighting them
+   */
+  private handlePlayerHealing(amount: number): void {
+    if (!this.isEnabled || this.monster.isDead) return;
+
+    const playerEntry = this.table.get("player");
+    if (playerEntry) {
+      this.addThreat(playerEntry.entity, amount * HEALING_THREAT_MULTIPLIER);
+    }
+  }
+
+  private emitChanged(): void {
+    eventBus.emit("monster.threat.changed", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      entries: this.getEntries().map((entry) => ({
+        entityId: entry.entity.id,
+        threat: Math.round(entry.threat),
+      })),
+    });
+  }
+
+  update(): void {
+    try {
+      if (!useGameStore.getState().debugOverlay || !this.entity.active || this.monster.isDead) {
+        this.debugText?.setVisible(false);
+        return;
+      }
+
+      this.renderDebugText();
+    } catch (error) {
+      console.error(`Error in MonsterThreatComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.threat", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * List the threat table above the monster while the debug overlay is on
+   */
+  private renderDebugText(): void {
+    if (!this.debugText) {
+      this.debugText = this.entity.scene.add.text(this.entity.x, this.entity.y - 64, "", {
+        fontFamily: "monospace",
+        fontSize: "9px",
+        color: "#ffcc00",
+        backgroundColor: "rgba(0, 0, 0, 0.6)",
+        padding: { x: 2, y: 1 },
+      });
+      this.debugText.setOrigin(0.5, 1);
+      this.debugText.setDepth(1001);
+    }
+
+    // The current target is marked; it can trail the top entry until it is overtaken by enough
+    const target = this.monster.components.get<MonsterAIComponent>("ai")?.getTarget();
+    const lines = this.getEntries().map((entry) => {
+      const name =
+        "companionName" in entry.entity ? String(entry.entity.companionName) : entry.entity.id;
+      return `${entry.entity === target ? ">" : " "} ${name}: ${Math.round(entry.threat)}`;
+    });
+    const text = lines.length > 0 ? lines.join("\n") : "no threat";
+
+    if (this.debugText.text !== text) {
+      this.debugText.setText(text);
+    }
+    this.debugText.setPosition(this.entity.x, this.entity.y - 64);
+    this.debugText.setVisible(true);
+  }
+
+  destroy(): void {
+    this.unsubscribeHealing?.();
+    this.unsubscribeHealing = null;
+
+    if (this.debugText) {
+      this.debugText.destroy();
+      this.debugText = null;
+    }
+
+    this.table.clear();
+    super.destroy();
+  }
+}
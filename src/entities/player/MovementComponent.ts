@@ -2,6 +2,9 @@ import { Component } from "../Component";
 import { Character } from "../Character";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
+import { StatusEffectComponent } from "../StatusEffectComponent";
+import { BossEncounterService } from "@/services/BossEncounterService";
+import { getEncumbranceLevel } from "@/data/encumbrance";
 
 interface Scene extends Phaser.Scene {
   collisionLayer?: Phaser.Tilemaps.TilemapLayer;
@@ -57,10 +60,38 @@ export class MovementComponent extends Component {
   }
 
   /**
-   * Get current move speed (mainly for debugging/external access)
+   * Get current move speed, including slows from status effects and carried weight
    */
   getMoveSpeed(): number {
-    return this.moveSpeed;
+    return (
+      this.moveSpeed *
+      this.getStatusMoveSpeedMultiplier() *
+      this.getEncumbranceMoveSpeedMultiplier()
+    );
+  }
+
+  /**
+   * Movement multiplier from the weight the player is carrying (1 = unaffected)
+   */
+  protected getEncumbranceMoveSpeedMultiplier(): number {
+    const { currentCapacity, maxCapacity } = useGameStore.getState().playerCharacter;
+    return getEncumbranceLevel(currentCapacity, maxCapacity).moveSpeedMultiplier;
+  }
+
+  /**
+   * Movement multiplier from the entity's status effects (1 = unaffected)
+   */
+  protected getStatusMoveSpeedMultiplier(): number {
+    const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+    return statusEffects ? statusEffects.getMoveSpeedMultiplier() : 1;
+  }
+
+  /**
+   * Whether a status effect currently prevents the entity from moving
+   */
+  isStunned(): boolean {
+    const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+    return statusEffects ? statusEffects.isStunned() : false;
   }
 
   /**
@@ -68,8 +99,8 @@ export class MovementComponent extends Component {
    */
   moveToPosition(x: number, y: number, time: number): void {
     try {
-      // Don't start a new movement if we're already moving
-      if (this.isMoving) return;
+      // Don't start a new movement if we're already moving or stunned
+      if (this.isMoving || this.isStunned()) return;
 
       this.isMoving = true;
 
@@ -78,13 +109,13 @@ export class MovementComponent extends Component {
         entityId: this.entity.id,
         position: { x, y },
         time,
-        moveSpeed: this.moveSpeed,
+        moveSpeed: this.getMoveSpeed(),
       });
 
       // FIXED: Convert move speed to duration (higher speed = lower duration = faster movement)
       const baseDuration = 400; // Base time to move one tile (400ms)
       const baseMoveSpeed = 250; // Base move speed
-      const duration = baseDuration * (baseMoveSpeed / this.moveSpeed);
+      const duration = baseDuration * (baseMoveSpeed / this.getMoveSpeed());
 
       // Use tweening for smooth movement
       this.entity.scene.tweens.add({
@@ -124,6 +155,7 @@ export class MovementComponent extends Component {
       if (!this.isWithinBounds(nextX, nextY)) return false;
       if (this.collidesWithTerrain(scene, nextX, nextY)) return false;
       if (this.collidesWithEntity(scene, nextX, nextY)) return false;
+      if (!BossEncounterService.isMoveAllowed(this.entity, nextX, nextY)) return false;
 
       return true;
     } catch (error) {
@@ -232,7 +264,7 @@ export class MovementComponent extends Component {
     const targetY = tileY * this.tileSize + this.tileSize / 2;
 
     return new Promise((resolve) => {
-      if (this.isMoving) {
+      if (this.isMoving || this.isStunned()) {
         resolve();
         return;
       }
@@ -249,7 +281,7 @@ export class MovementComponent extends Component {
       // FIXED: Convert move speed to duration (higher speed = faster movement)
       const baseDuration = 400; // Base time to move one tile
       const baseMoveSpeed = 250; // Base move speed
-      const duration = baseDuration * (baseMoveSpeed / this.moveSpeed);
+      const duration = baseDuration * (baseMoveSpeed / this.getMoveSpeed());
 
       this.isMoving = true;
 
@@ -5,6 +5,8 @@ import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
 import { autoAttackSystem } from "@/services/AutoAttackSystem";
 import { MapService } from "@/services/MapService";
+import { PathfindingService, TilePoint } from "@/services/PathfindingService";
+import { BossEncounterService } from "@/services/BossEncounterService";
 
 export class PlayerInputComponent extends Component {
   private cursors: Phaser.Types.Input.Keyboard.CursorKeys | null = null;
@@ -18,6 +20,11 @@ export class PlayerInputComponent extends Component {
   private movementComponent: MovementComponent | null = null;
   private targetingEnabled: boolean = true;
 
+  // Click-to-move and follow-target state
+  private autoWalkPath: TilePoint[] = [];
+  private autoWalkGoal: TilePoint | null = null;
+  private followingTarget: boolean = false;
+
   constructor(entity: Character) {
     super(entity);
   }
@@ -45,6 +52,9 @@ export class PlayerInputComponent extends Component {
       // Setup item pickup handler
       keyboard.on("keydown-E", this.handleItemPickup, this);
 
+      // Any keyboard input takes control back from click-to-move
+      keyboard.on("keydown", this.handleKeyboardInput, this);
+
       // Setup monster targeting with mouse
       this.setupLeftClick();
 
@@ -81,15 +91,17 @@ export class PlayerInputComponent extends Component {
 
         // Check what was clicked in priority order
         if (this.targetingEnabled && this.checkMonsterClick(worldPoint)) {
-          // Monster was clicked and targeting is enabled
+          // Monster was clicked and targeting is enabled - walk into attack range
+          this.startFollowingTarget();
           return;
         }
 
         // Check for chest interaction using tile-based system
         if (this.checkChestClick(worldPoint)) return;
 
-        // Nothing was clicked - clear target
+        // Nothing was clicked - clear target and walk to the clicked tile
         autoAttackSystem.clearTarget();
+        this.startClickToMove(worldPoint);
       });
     } catch (error) {
       console.error("Error setting up interaction system:", error);
@@ -263,7 +275,11 @@ export class PlayerInputComponent extends Component {
       const inputFocused = useGameStore.getState().inputFocused;
 
       if (!inputFocused) {
-        this.handleGridMovement(time);
+        if (this.isAutoWalking() && !this.isMovementKeyDown()) {
+          this.updateAutoWalk();
+        } else {
+          this.handleGridMovement(time);
+        }
       }
     } catch (error) {
       console.error("Error in PlayerInputComponent update:", error);
@@ -275,6 +291,223 @@ export class PlayerInputComponent extends Component {
     }
   }
 
+  /**
+   * Path the player to a clicked tile
+   */
+  startClickToMove(worldPoint: Phaser.Math.Vector2): boolean {
+    try {
+      this.cancelAutoWalk();
+
+      const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+      const goal = PathfindingService.worldToTile(worldPoint.x, worldPoint.y);
+
+      if (!PathfindingService.isWalkable(goal.x, goal.y)) return false;
+
+      const path = PathfindingService.findPath(start, goal, { ignore: this.entity });
+      if (!path || path.length === 0) return false;
+
+      this.autoWalkPath = path;
+      this.autoWalkGoal = goal;
+      this.showMoveMarker(goal);
+
+      eventBus.emit("player.autoWalk.started", {
+        entityId: this.entity.id,
+        destination: goal,
+        steps: path.length,
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Error in PlayerInputComponent.startClickToMove:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Keep walking towards the auto-attack target until it is in range
+   */
+  startFollowingTarget(): void {
+    this.cancelAutoWalk();
+    this.followingTarget = true;
+
+    eventBus.emit("player.autoWalk.following", {
+      entityId: this.entity.id,
+      target: autoAttackSystem.getCurrentTarget()?.id,
+    });
+  }
+
+  cancelAutoWalk(): void {
+    const wasAutoWalking = this.isAutoWalking();
+
+    this.autoWalkPath = [];
+    this.autoWalkGoal = null;
+    this.followingTarget = false;
+
+    if (wasAutoWalking) {
+      eventBus.emit("player.autoWalk.cancelled", { entityId: this.entity.id });
+    }
+  }
+
+  isAutoWalking(): boolean {
+    return this.autoWalkPath.length > 0 || this.followingTarget;
+  }
+
+  private handleKeyboardInput(): void {
+    if (useGameStore.getState().inputFocused) return;
+    this.cancelAutoWalk();
+  }
+
+  private isMovementKeyDown(): boolean {
+    if (!this.cursors || !this.wasdKeys) return false;
+
+    return (
+      this.cursors.left.isDown ||
+      this.cursors.right.isDown ||
+      this.cursors.up.isDown ||
+      this.cursors.down.isDown ||
+      this.wasdKeys.left.isDown ||
+      this.wasdKeys.right.isDown ||
+      this.wasdKeys.up.isDown ||
+      this.wasdKeys.down.isDown
+    );
+  }
+
+  /**
+   * Take the next click-to-move or follow step once the previous tile move finished
+   */
+  private updateAutoWalk(): void {
+    try {
+      if (!this.movementComponent || this.movementComponent.isMoving) return;
+      if (this.movementComponent.isStunned()) return;
+
+      const start = PathfindingService.worldToTile(this.entity.x, this.entity.y);
+
+      if (this.followingTarget && !this.updateFollowPath(start)) {
+        return;
+      }
+
+      const next = this.autoWalkPath[0];
+      if (!next) return;
+
+      // Re-plan if something stepped into the path since it was computed
+      if (!PathfindingService.isWalkable(next.x, next.y, { ignore: this.entity })) {
+        const goal = this.autoWalkGoal;
+        const path = goal
+          ? PathfindingService.findPath(start, goal, { ignore: this.entity, allowPartial: true })
+          : null;
+
+        if (!path || path.length === 0) {
+          this.finishAutoWalk();
+          return;
+        }
+
+        this.autoWalkPath = path;
+      }
+
+      const step = this.autoWalkPath.shift()!;
+
+      // Paths don't know about boss arenas: stop at the edge instead of walking out
+      const stepPosition = PathfindingService.tileToWorld(step.x, step.y);
+      if (!BossEncounterService.isMoveAllowed(this.entity, stepPosition.x, stepPosition.y)) {
+        this.finishAutoWalk();
+        return;
+      }
+
+      const direction = { dx: step.x - start.x, dy: step.y - start.y };
+
+      this.movementComponent.updateFacing(direction);
+      this.playWalkAnimation(true);
+
+      this.movementComponent.moveToTile(step.x, step.y).then(() => {
+        if (this.autoWalkPath.length > 0) return;
+
+        if (this.autoWalkGoal && !this.followingTarget) {
+          this.finishAutoWalk();
+        } else {
+          this.playWalkAnimation(false);
+        }
+      });
+    } catch (error) {
+      console.error("Error in PlayerInputComponent.updateAutoWalk:", error);
+      eventBus.emit("error.player.movement", { entityId: this.entity.id, error });
+      this.cancelAutoWalk();
+    }
+  }
+
+  /**
+   * Refresh the path towards the followed target
+   * @returns false when there is nothing to walk this frame
+   */
+  private updateFollowPath(start: TilePoint): boolean {
+    const target = autoAttackSystem.getCurrentTarget();
+    if (!target || !target.active || target.isDead) {
+      this.finishAutoWalk();
+      return false;
+    }
+
+    const distance = Phaser.Math.Distance.Between(this.entity.x, this.entity.y, target.x, target.y);
+    if (distance <= autoAttackSystem.getAttackRange()) {
+      // In range - wait here, but keep following in case the target moves away
+      this.autoWalkPath = [];
+      return false;
+    }
+
+    const goal = PathfindingService.worldToTile(target.x, target.y);
+    const goalMoved =
+      !this.autoWalkGoal || this.autoWalkGoal.x !== goal.x || this.autoWalkGoal.y !== goal.y;
+
+    if (goalMoved || this.autoWalkPath.length === 0) {
+      this.autoWalkGoal = goal;
+      this.autoWalkPath =
+        PathfindingService.findPath(start, goal, { ignore: this.entity, allowPartial: true }) || [];
+
+      // The target's own tile is the goal, stop next to it instead
+      const last = this.autoWalkPath[this.autoWalkPath.length - 1];
+      if (last && last.x === goal.x && last.y === goal.y) {
+        this.autoWalkPath.pop();
+      }
+    }
+
+    return this.autoWalkPath.length > 0;
+  }
+
+  private finishAutoWalk(): void {
+    const destination = this.autoWalkGoal;
+
+    this.autoWalkPath = [];
+    this.autoWalkGoal = null;
+    this.followingTarget = false;
+
+    this.playWalkAnimation(false);
+
+    eventBus.emit("player.autoWalk.completed", { entityId: this.entity.id, destination });
+  }
+
+  private playWalkAnimation(isMoving: boolean): void {
+    const character = this.entity as Character & {
+      playAnimation?: (direction: string, isMoving: boolean) => void;
+    };
+    character.playAnimation?.(this.movementComponent?.facing || "down", isMoving);
+  }
+
+  private showMoveMarker(tile: TilePoint): void {
+    try {
+      const position = PathfindingService.tileToWorld(tile.x, tile.y);
+      const marker = this.entity.scene.add.circle(position.x, position.y, 6, 0xffffff, 0.6);
+      marker.setDepth(4);
+
+      this.entity.scene.tweens.add({
+        targets: marker,
+        alpha: 0,
+        scale: 2,
+        duration: 400,
+        onComplete: () => marker.destroy(),
+      });
+    } catch (error) {
+      console.error("Error showing move marker:", error);
+    }
+  }
+
   handleGridMovement(time: number): void {
     try {
       if (!this.movementComponent || !this.cursors || !this.wasdKeys) return;
@@ -423,11 +656,13 @@ export class PlayerInputComponent extends Component {
       // Remove keyboard listeners
       if (this.entity.scene.input.keyboard) {
         this.entity.scene.input.keyboard.off("keydown-E", this.handleItemPickup, this);
+        this.entity.scene.input.keyboard.off("keydown", this.handleKeyboardInput, this);
       }
 
       // Remove pointer listeners
       this.entity.scene.input.off("pointerdown");
 
+      this.cancelAutoWalk();
       this.cursors = null;
       this.wasdKeys = null;
       this.pickupKey = null;
@@ -4,6 +4,7 @@ import { useGameStore } from "@/stores/gameStore";
 import { eventBus } from "@/utils/EventBus";
 import { Item } from "../Item";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
+import { RandomService } from "@/services/RandomService";
 import { ItemCategory } from "@/types";
 
 export class PlayerItemInteractionComponent extends Component {
@@ -65,7 +66,7 @@ export class PlayerItemInteractionComponent extends Component {
 
   checkForNearbyItems(): void {
     try {
-      if (Math.random() < 0.05 && this.entity.scene) {
+      if (RandomService.stream("interaction").chance(0.05) && this.entity.scene) {
         const items = (this.entity.scene as any).items?.getChildren() || [];
         items.forEach((item: Item) => {
           const distance = Phaser.Math.Distance.Between(
@@ -173,12 +174,7 @@ export class PlayerItemInteractionComponent extends Component {
             });
           } else {
             // Handle regular item pickup - add to inventory
-            const added = store.addItemInstanceToInventory({
-              templateId: item.templateId,
-              instanceId: item.instanceId,
-              bonusStats: item.bonusStats,
-              quantity: item.quantity, // Make sure to include quantity for stackable items
-            });
+            const added = store.addItemInstanceToInventory(item.getItemInstance());
 
             if (added) {
               this.removeNearbyItem(item);
@@ -190,6 +186,9 @@ export class PlayerItemInteractionComponent extends Component {
                 name: item.name,
                 templateId: item.templateId,
               });
+            } else {
+              // Too heavy: the item stays on the ground
+              eventBus.emit("ui.message.show", `${item.name} is too heavy to carry`);
             }
           }
         }
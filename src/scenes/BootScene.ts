@@ -423,8 +423,8 @@ export class BootScene extends Phaser.Scene {
       // Emit assets loaded event
       eventBus.emit("assets.loaded", null);
 
-      // Start the game scene
-      this.scene.start("game");
+      // Pick a character before the game scene reads from the store
+      this.scene.start("character-select");
     } catch (error) {
       console.error("Error in BootScene.create:", error);
       this.loadErrors.push(error as Error);
@@ -0,0 +1,60 @@
+// src/scenes/CharacterSelectScene.ts
+import Phaser from "phaser";
+import { SaveService } from "@/services/SaveService";
+import { eventBus } from "@/utils/EventBus";
+
+/**
+ * Sits between BootScene and GameScene. The character list itself is rendered
+ * by the React CharacterSelect overlay; this scene waits for a character to be
+ * picked, restores its save and starts the game.
+ */
+export class CharacterSelectScene extends Phaser.Scene {
+  private unsubscribers: (() => void)[] = [];
+
+  constructor() {
+    super({ key: "character-select" });
+  }
+
+  create(): void {
+    try {
+      this.cameras.main.setBackgroundColor("#1a1a1a");
+
+      this.unsubscribers.push(
+        eventBus.on("characterSelect.play", (data: { characterId: string }) =>
+          this.playCharacter(data.characterId)
+        )
+      );
+
+      this.events.once("shutdown", this.cleanup, this);
+
+      eventBus.emit("characterSelect.show", { characters: SaveService.listCharacters() });
+    } catch (error) {
+      console.error("Error in CharacterSelectScene.create:", error);
+    }
+  }
+
+  playCharacter(characterId: string): void {
+    try {
+      if (!SaveService.loadCharacter(characterId)) {
+        eventBus.emit("characterSelect.error", "That character's save could not be loaded.");
+        return;
+      }
+
+      SaveService.startAutoSave();
+
+      const character = SaveService.getCharacter(characterId);
+      eventBus.emit("characterSelect.hide", null);
+      eventBus.emit("ui.message.show", `Welcome back, ${character?.name || "adventurer"}!`);
+
+      this.scene.start("game");
+    } catch (error) {
+      console.error("Error in CharacterSelectScene.playCharacter:", error);
+      eventBus.emit("characterSelect.error", "Failed to start the game.");
+    }
+  }
+
+  private cleanup(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
@@ -1,7 +1,9 @@
 // src/scenes/GameScene.ts
 import { eventBus } from "../utils/EventBus";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
+import { Companion } from "@/entities/Companion";
 import { useGameStore } from "@/stores/gameStore";
+import { ItemRoll } from "@/types";
 import {
   GameSceneMapManager,
   GameSceneEntitySpawner,
@@ -17,6 +19,7 @@ export class GameScene extends Phaser.Scene {
   declare monsters: Phaser.GameObjects.Group;
   declare npcs: Phaser.GameObjects.Group;
   declare chests: Phaser.GameObjects.Group;
+  declare companions: Phaser.GameObjects.Group;
 
   // Map-related properties
   map?: Phaser.Tilemaps.Tilemap;
@@ -67,7 +70,7 @@ export class GameScene extends Phaser.Scene {
         this.mapManager.analyzeMapChunks();
       }
 
-      // Create item, monster, NPC, and chest groups
+      // Create item, monster, NPC, chest and companion groups
       this.createGameGroups();
 
       // Initialize chests from interact-layer
@@ -105,7 +108,7 @@ export class GameScene extends Phaser.Scene {
 
       // Update playerCharacter
       if (this.playerCharacter && this.playerCharacter.active) {
-        this.playerCharacter.update(time);
+        this.playerCharacter.update(time, delta);
 
         // Ensure camera follows smoothly by updating every frame
         this.cameras.main.scrollX = Phaser.Math.Linear(
@@ -141,6 +144,7 @@ export class GameScene extends Phaser.Scene {
       this.monsters = this.add.group();
       this.npcs = this.add.group();
       this.chests = this.add.group();
+      this.companions = this.add.group();
     } catch (error) {
       console.error("Error creating game groups:", error);
       eventBus.emit("ui.error.show", `Error creating game groups: ${(error as Error).message}`);
@@ -246,6 +250,16 @@ export class GameScene extends Phaser.Scene {
           }
         });
       }
+
+      // Update hired companions
+      if (this.companions) {
+        this.companions.getChildren().forEach((gameObject) => {
+          const companion = gameObject as Companion;
+          if (companion.active) {
+            companion.update(time, delta);
+          }
+        });
+      }
     } catch (error) {
       console.error("Error updating game entities:", error);
     }
@@ -262,9 +276,10 @@ export class GameScene extends Phaser.Scene {
     y: number,
     instanceId?: string,
     bonusStats?: any,
-    quantity?: number
+    quantity?: number,
+    roll?: ItemRoll
   ): any {
-    return this.entitySpawner.spawnItem(templateId, x, y, instanceId, bonusStats, quantity);
+    return this.entitySpawner.spawnItem(templateId, x, y, instanceId, bonusStats, quantity, roll);
   }
 
   spawnMonster(monsterType: string, x: number, y: number): any {
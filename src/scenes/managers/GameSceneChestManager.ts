@@ -163,9 +163,11 @@ export class GameSceneChestManager {
         chestState.lootTable,
         chest.x,
         chest.y,
-        (itemId: string, x: number, y: number, quantity?: number) => {
+        (itemId: string, x: number, y: number, quantity?: number, itemLevel?: number) => {
           // Pass all parameters including quantity to spawnItem via entitySpawner
-          this.scene.entitySpawner.spawnItem(itemId, x, y, undefined, undefined, quantity);
+          this.scene.entitySpawner.spawnItem(itemId, x, y, undefined, undefined, quantity, {
+            itemLevel,
+          });
         }
       );
 
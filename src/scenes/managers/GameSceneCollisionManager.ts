@@ -1,5 +1,6 @@
 // src/scenes/managers/GameSceneCollisionManager.ts
 import { NPC } from "@/entities/NPC";
+import { PathfindingService } from "@/services/PathfindingService";
 import type { GameScene } from "../GameScene";
 
 export class GameSceneCollisionManager {
@@ -55,6 +56,9 @@ export class GameSceneCollisionManager {
           }
         );
       }
+
+      // Cache walkable tiles for monster pursuit and click-to-walk
+      PathfindingService.buildGrid(this.scene.map, this.scene.collisionLayer);
     } catch (error) {
       console.error("Error in GameSceneCollisionManager.setupCollisions:", error);
     }
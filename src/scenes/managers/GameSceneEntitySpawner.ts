@@ -1,9 +1,10 @@
 import { Item } from "@/entities/Item";
 import { Monster } from "@/entities/Monster";
 import { NPC } from "@/entities/NPC";
+import { Companion } from "@/entities/Companion";
 import { MapService } from "@/services/MapService";
 import { useGameStore } from "@/stores/gameStore";
-import { ItemBonusStats, ItemCategory, ItemData, NPCData } from "@/types";
+import { CompanionData, ItemBonusStats, ItemCategory, ItemData, ItemRoll, NPCData } from "@/types";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { NPCService } from "@/services/NPCService";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
@@ -22,7 +23,8 @@ export class GameSceneEntitySpawner {
     y: number,
     instanceId?: string,
     bonusStats?: ItemBonusStats,
-    quantity?: number
+    quantity?: number,
+    roll?: ItemRoll
   ): Item | null {
     try {
       // Get current map for coordinate conversion
@@ -39,12 +41,21 @@ export class GameSceneEntitySpawner {
         const itemData = ItemDictionary.getItem(templateId);
         const shouldGetBonusStats = this.isEligibleForBonusStats(itemData);
 
-        // For equipment items dropped in the world, 20% chance of random bonus stats
-        if (shouldGetBonusStats && Math.random() < 0.2) {
-          const instance = ItemInstanceManager.createRandomInstance(templateId, quantity);
+        // Equipment dropped in the world rolls a rarity and affixes at the source's item level
+        if (shouldGetBonusStats) {
+          const instance = ItemInstanceManager.createRandomInstance(
+            templateId,
+            quantity,
+            roll?.itemLevel
+          );
           instanceId = instance.instanceId;
           bonusStats = instance.bonusStats;
           quantity = instance.quantity;
+          roll = {
+            rarity: instance.rarity,
+            itemLevel: instance.itemLevel,
+            affixes: instance.affixes,
+          };
         } else {
           const instance = ItemInstanceManager.createItemInstance(templateId, bonusStats, quantity);
           instanceId = instance.instanceId;
@@ -60,7 +71,8 @@ export class GameSceneEntitySpawner {
         templateId,
         instanceId,
         bonusStats,
-        quantity
+        quantity,
+        roll
       );
       this.scene.items.add(item);
 
@@ -110,6 +122,18 @@ export class GameSceneEntitySpawner {
     }
   }
 
+  spawnCompanion(companionData: CompanionData, x: number, y: number): Companion | null {
+    try {
+      const companion = new Companion(this.scene, x, y, companionData);
+      this.scene.companions.add(companion);
+
+      return companion;
+    } catch (error) {
+      console.error("Error in GameSceneEntitySpawner.spawnCompanion:", error);
+      return null;
+    }
+  }
+
   spawnInitialContent(): void {
     this.spawnInitialNPCs();
     this.spawnTestItems();
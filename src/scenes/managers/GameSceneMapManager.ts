@@ -1,6 +1,7 @@
 // src/scenes/managers/GameSceneMapManager.ts
 import { eventBus } from "@/utils/EventBus";
 import { MapService } from "@/services/MapService";
+import { PathfindingService } from "@/services/PathfindingService";
 import { useGameStore } from "@/stores/gameStore";
 import type { GameScene } from "../GameScene";
 
@@ -131,6 +132,7 @@ export class GameSceneMapManager {
         // Clean up layer references
         this.scene.groundLayer = undefined;
         this.scene.collisionLayer = undefined;
+        PathfindingService.clearGrid();
 
         // Destroy the map itself
         this.scene.map.destroy();
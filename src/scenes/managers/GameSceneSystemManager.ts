@@ -6,6 +6,7 @@ import { MonsterSpawnSystem } from "@/services/MonsterSpawnSystem";
 import { autoAttackSystem } from "@/services/AutoAttackSystem";
 import { experienceSystem } from "@/services/ExperienceSystem";
 import { skillProgressionSystem } from "@/services/SkillProgressionSystem";
+import { regenerationSystem } from "@/services/RegenerationSystem";
 import { useGameStore } from "@/stores/gameStore";
 import { eventBus } from "@/utils/EventBus";
 import type { GameScene } from "../GameScene";
@@ -42,6 +43,7 @@ export class GameSceneSystemManager {
       store.registerSystem("skillProgressionSystem", skillProgressionSystem);
       store.registerSystem("monsterSpawnSystem", this.monsterSpawnSystem);
       store.registerSystem("experienceSystem", experienceSystem);
+      store.registerSystem("regenerationSystem", regenerationSystem);
 
       // Setup systems
       this.itemHoverSystem.setupGlobalPointerHandler(this.scene);
@@ -122,6 +124,9 @@ export class GameSceneSystemManager {
       if (this.portalSystem) {
         this.portalSystem.update(time, delta);
       }
+
+      // Tick health and mana regeneration
+      regenerationSystem.update(time, delta);
     } catch (error) {
       console.error("Error in GameSceneSystemManager.updateSystems:", error);
     }
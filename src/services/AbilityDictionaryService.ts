@@ -1,11 +1,14 @@
 // src/services/AbilityDictionaryService.ts
-import { Ability } from "@/types";
+import { Ability, Classes, DamageType, StatusEffectType } from "@/types";
 import { eventBus } from "../utils/EventBus";
+import { getClassDefinition } from "../data/classConfig";
 
 export interface IAbilityDictionary {
   getAbility(abilityId: string): Ability | null;
   getAllAbilities(): Ability[];
   getAbilitiesByWeaponType(weaponType: string): Ability[];
+  getLearnableAbilities(playerClass: Classes): Ability[];
+  canClassLearnAbility(abilityId: string, playerClass: Classes): boolean;
   getLearnedAbilities(): Ability[];
   isAbilityLearned(abilityId: string): boolean;
   learnAbility(abilityId: string): boolean;
@@ -31,6 +34,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Restore 10 health instantly.",
         icon: "assets/abilities/light-healing.png",
         cooldown: 3, // 3 seconds cooldown
+        manaCost: 5,
         damage: 0,
         weaponType: "general", // Special type for learned abilities
         requiredWeapon: "any",
@@ -55,6 +59,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "A powerful melee attack that deals damage to enemies in front of you.",
         icon: "assets/abilities/sword-slash.png",
         cooldown: 0.5,
+        manaCost: 0,
         damage: 10,
         weaponType: "melee",
         requiredWeapon: "any",
@@ -73,10 +78,12 @@ class AbilityDictionaryService implements IAbilityDictionary {
       this.abilityDatabase.whirlwind = {
         id: "whirlwind",
         name: "Whirlwind",
-        description: "Spin in a circle, dealing damage to all nearby enemies.",
+        description: "Spin in a circle, dealing damage to all nearby enemies and taunting them.",
         icon: "assets/abilities/whirlwind.png",
         cooldown: 3,
+        manaCost: 8,
         damage: 8,
+        taunt: true,
         weaponType: "melee",
         requiredWeapon: "any",
         skillId: "melee",
@@ -99,7 +106,9 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "A heavy attack that deals massive damage to a single target.",
         icon: "assets/abilities/bash.png",
         cooldown: 4,
+        manaCost: 6,
         damage: 20,
+        statusEffect: { type: StatusEffectType.STUN },
         weaponType: "melee",
         requiredWeapon: "any",
         skillId: "melee",
@@ -122,6 +131,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Fire a powerful arrow that pierces through enemies.",
         icon: "assets/abilities/power-shot.png",
         cooldown: 2,
+        manaCost: 5,
         damage: 15,
         weaponType: "archery",
         requiredWeapon: "any",
@@ -144,6 +154,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Increase accuracy and critical hit chance for a short time.",
         icon: "assets/abilities/focus.png",
         cooldown: 8,
+        manaCost: 10,
         damage: 0,
         weaponType: "archery",
         requiredWeapon: "any",
@@ -165,6 +176,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Fire multiple arrows in a spread pattern.",
         icon: "assets/abilities/rain-of-arrows.png",
         cooldown: 6,
+        manaCost: 12,
         damage: 6,
         weaponType: "archery",
         requiredWeapon: "any",
@@ -189,7 +201,10 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Launch a ball of fire that explodes on impact.",
         icon: "assets/abilities/fireball.png",
         cooldown: 3,
+        manaCost: 10,
         damage: 12,
+        damageType: DamageType.FIRE,
+        statusEffect: { type: StatusEffectType.BURN, chance: 0.3 },
         weaponType: "magic",
         requiredWeapon: "any",
         skillId: "magic",
@@ -211,7 +226,10 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Send out a wave of energy that damages enemies in a line.",
         icon: "assets/abilities/energy-wave.png",
         cooldown: 4,
+        manaCost: 8,
         damage: 10,
+        damageType: DamageType.ENERGY,
+        statusEffect: { type: StatusEffectType.SLOW, chance: 0.5 },
         weaponType: "magic",
         requiredWeapon: "any",
         skillId: "magic",
@@ -233,7 +251,10 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Create a wall of fire that damages enemies who walk through it.",
         icon: "assets/abilities/firewall.png",
         cooldown: 8,
+        manaCost: 15,
         damage: 5,
+        damageType: DamageType.FIRE,
+        statusEffect: { type: StatusEffectType.BURN },
         weaponType: "magic",
         requiredWeapon: "any",
         skillId: "magic",
@@ -266,6 +287,19 @@ class AbilityDictionaryService implements IAbilityDictionary {
     );
   }
 
+  getLearnableAbilities(playerClass: Classes): Ability[] {
+    return Object.values(this.abilityDatabase).filter((ability) =>
+      this.canClassLearnAbility(ability.id, playerClass)
+    );
+  }
+
+  canClassLearnAbility(abilityId: string, playerClass: Classes): boolean {
+    const ability = this.getAbility(abilityId);
+    if (!ability) return false;
+
+    return getClassDefinition(playerClass).learnableAbilityTypes.includes(ability.weaponType);
+  }
+
   getLearnedAbilities(): Ability[] {
     return Array.from(this.learnedAbilities)
       .map((abilityId) => this.getAbility(abilityId))
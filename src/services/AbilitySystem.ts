@@ -5,6 +5,7 @@ import { abilityAnimationSystem } from "./AbilityAnimationSystem";
 import { ItemDictionary } from "./ItemDictionaryService";
 import { Ability, PlayerCharacterEquipment } from "@/types";
 import { useGameStore } from "@/stores/gameStore";
+import { getClassDefinition } from "@/data/classConfig";
 
 class AbilitySystemService {
   private activeAbilities: Record<number, Ability> = {};
@@ -15,6 +16,8 @@ class AbilitySystemService {
     // Subscribe to equipment change events
     eventBus.on("equipment.changed", this.handleEquipmentChanged.bind(this));
     eventBus.on("playerCharacter.skill.updated", this.handleSkillUpdate.bind(this));
+    // The class decides which weapon abilities are usable
+    eventBus.on("player.class.changed", this.handleSkillUpdate.bind(this));
     eventBus.on("ability.activate", this.handleAbilityActivation.bind(this));
     eventBus.on("ability.setForSlot", this.handleSetAbilityForSlot.bind(this));
 
@@ -134,8 +137,17 @@ class AbilitySystemService {
       this.getDefaultMagicAbilities(defaultAbilities);
     }
 
+    // Weapons only grant the abilities the player's class can use
+    Object.entries(defaultAbilities).forEach(([slot, ability]) => {
+      if (!this.canPlayerClassUse(ability)) {
+        delete defaultAbilities[parseInt(slot)];
+      }
+    });
+
     // Get bonus abilities from equipped items
-    const bonusAbilities = this.getBonusAbilitiesFromEquipment(equipment);
+    const bonusAbilities = this.getBonusAbilitiesFromEquipment(equipment).filter((ability) =>
+      this.canPlayerClassUse(ability)
+    );
     const bonusAbilityIds = bonusAbilities.map((ability) => ability.id);
 
     // If weapon type changed, reset all abilities to defaults
@@ -164,6 +176,14 @@ class AbilitySystemService {
       }
     }
 
+    // Clear slots holding abilities the class can't use (e.g. after a class change)
+    Object.entries(this.activeAbilities).forEach(([slot, ability]) => {
+      if (this.canPlayerClassUse(ability)) return;
+
+      delete this.activeAbilities[parseInt(slot)];
+      eventBus.emit("ability.removeFromSlot", { slotIndex: parseInt(slot) });
+    });
+
     // Update the action bar immediately
     this.updateActionBar();
 
@@ -173,6 +193,14 @@ class AbilitySystemService {
     }
   }
 
+  /**
+   * Whether the player's class may use an ability, weapon abilities included
+   */
+  private canPlayerClassUse(ability: Ability): boolean {
+    const playerClass = useGameStore.getState().playerCharacter.class;
+    return AbilityDictionary.canClassLearnAbility(ability.id, playerClass);
+  }
+
   /**
    * Gets bonus abilities from equipped items
    */
@@ -320,53 +348,99 @@ class AbilitySystemService {
       return;
     }
 
+    if (!this.canPlayerClassUse(ability)) {
+      const className = getClassDefinition(useGameStore.getState().playerCharacter.class).name;
+      eventBus.emit("ui.message.show", `A ${className} cannot use ${ability.name}`);
+      return;
+    }
+
     // Check if this is a learned ability (general type) and if player has learned it
     if (ability.weaponType === "general" && !this.isAbilityLearned(ability.id)) {
       eventBus.emit("ui.message.show", `You haven't learned ${ability.name} yet`);
       return;
     }
 
+    // Pay the mana cost up front so it can't be spent twice while the animation plays
+    const manaCost = ability.manaCost || 0;
+    const store = useGameStore.getState();
+    const currentMana = store.playerCharacter.mana;
+    if (!store.spendPlayerMana(manaCost)) {
+      eventBus.emit("ability.mana.insufficient", {
+        abilityId: ability.id,
+        abilityName: ability.name,
+        manaCost,
+        currentMana,
+      });
+      return;
+    }
+
     // Get the current weapon type for the skill progression event
-    const equipment = useGameStore.getState().playerCharacter.equipment;
+    const equipment = store.playerCharacter.equipment;
     const weaponType = equipment.weapon?.templateId
       ? ItemDictionary.getWeaponType(equipment.weapon.templateId)
       : "general"; // Use general for learned abilities
 
-    // Handle special ability effects
+    // Light Healing has no animation strategy and resolves immediately
     if (ability.id === "lightHealing") {
-      this.castLightHealing(ability);
+      if (this.castLightHealing(ability)) {
+        this.completeAbilityUse(ability, index, weaponType, now);
+      } else {
+        this.refundMana(manaCost);
+      }
+      return;
     }
 
     // Play the ability animation
     abilityAnimationSystem.playAbilityAnimation(ability.id).then((success) => {
-      if (success) {
-        // Start cooldown
-        this.abilityCooldowns[ability.id] = now + ability.cooldown * 1000;
-
-        // Emit cooldown start event for UI
-        eventBus.emit("ability.cooldown.start", {
-          slotIndex: index,
-          duration: ability.cooldown,
-        });
+      if (!success) {
+        // The ability never went off, so give the mana back
+        this.refundMana(manaCost);
+        return;
+      }
 
-        // Emit damage event for skill progression (if it's a damage ability)
-        if (ability.damage && ability.damage > 0) {
-          eventBus.emit("damage.dealt", {
-            source: "ability",
-            abilityId: ability.id,
-            weaponType: weaponType,
-            targetType: "monster",
-            targetId: "unknown", // We don't know which monster was hit
-            damage: ability.damage,
-          });
-        }
+      this.completeAbilityUse(ability, index, weaponType, now);
+    });
+  }
 
-        // Emit ability activated event
-        eventBus.emit("ability.activated", {
-          slotIndex: index,
-          abilityId: ability.id,
-        });
-      }
+  private refundMana(manaCost: number): void {
+    const store = useGameStore.getState();
+    store.updatePlayerMana(store.playerCharacter.mana + manaCost);
+  }
+
+  /**
+   * Start the cooldown and report the use once an ability has gone off
+   */
+  private completeAbilityUse(
+    ability: Ability,
+    index: number,
+    weaponType: string | null,
+    usedAt: number
+  ): void {
+    // Start cooldown
+    this.abilityCooldowns[ability.id] = usedAt + ability.cooldown * 1000;
+
+    // Emit cooldown start event for UI
+    eventBus.emit("ability.cooldown.start", {
+      slotIndex: index,
+      duration: ability.cooldown,
+    });
+
+    // Emit damage event for skill progression (if it's a damage ability)
+    if (ability.damage && ability.damage > 0) {
+      eventBus.emit("damage.dealt", {
+        source: "ability",
+        abilityId: ability.id,
+        weaponType: weaponType,
+        targetType: "monster",
+        targetId: "unknown", // We don't know which monster was hit
+        damage: ability.damage,
+      });
+    }
+
+    // Emit ability activated event
+    eventBus.emit("ability.activated", {
+      slotIndex: index,
+      abilityId: ability.id,
     });
   }
 
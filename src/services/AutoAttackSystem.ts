@@ -2,14 +2,18 @@
 import { eventBus } from "../utils/EventBus";
 import { useGameStore } from "../stores/gameStore";
 import { ItemDictionary } from "./ItemDictionaryService";
-import { DamageFormulas } from "@/utils/formulas";
+import {
+  DamageFormulas,
+  ARCHERY_ADJACENT_DISTANCE,
+  ARCHERY_ADJACENT_MISS_CHANCE,
+} from "@/utils/formulas";
 import { KillBonusService } from "./KillBonusService";
-import { DamageType } from "@/types";
+import { RandomService } from "./RandomService";
+import { AttackOutcome, CombatRoll, DamageBreakdown, DamageType } from "@/types";
 
 class AutoAttackSystemService {
   private targetedEnemy: any | null = null;
   private lastAttackTime: number = 0;
-  private baseAttackCooldown: number = 2000; // Base 2 seconds for players
   private attackRange: number = 64; // Default range (2 tiles)
   private isAutoAttacking: boolean = false;
   private currentWeaponType: string = "melee"; // Default weapon type
@@ -54,12 +58,8 @@ class AutoAttackSystemService {
     // Get total attack speed from calculated stats (includes equipment + base)
     const totalAttackSpeed = calculatedStats?.totalAttackSpeed || 1;
 
-    // Base 2 seconds, reduced by 50ms per attack speed point
-    // Formula: 2000 - ((attackSpeed - 1) * 50)
-    const cooldown = this.baseAttackCooldown - (totalAttackSpeed - 1) * 50;
-
-    // Ensure minimum cooldown of 200ms
-    return Math.max(200, cooldown);
+    // Formula lives in DamageFormulas so the combat simulator shares it
+    return DamageFormulas.calculatePlayerAttackCooldown(totalAttackSpeed);
   }
 
   /**
@@ -181,25 +181,48 @@ class AutoAttackSystemService {
 
   /**
    * Display floating damage number above the target
+   * Critical hits are larger with a gold outline; misses show grey "Miss" text
    */
-  private showDamageNumber(x: number, y: number, damage: number, damageType?: DamageType): void {
+  private showDamageNumber(
+    x: number,
+    y: number,
+    damage: number,
+    damageType?: DamageType,
+    outcome: AttackOutcome = "hit"
+  ): void {
     try {
       const gameScene = this.getGameScene();
       if (!gameScene) return;
 
-      const color = this.getDamageTypeColor(damageType);
+      const isCritical = outcome === "critical";
+      const isMiss = outcome === "miss" || outcome === "dodge";
 
       // Create floating damage text
-      const damageText = gameScene.add.text(x, y - 20, damage.toString(), {
-        fontSize: "14px",
-        color: color,
-        stroke: "#000000",
-        strokeThickness: 2,
-      });
+      const damageText = gameScene.add.text(
+        x,
+        y - 20,
+        isMiss ? "Miss" : isCritical ? `${damage}!` : damage.toString(),
+        {
+          fontSize: isCritical ? "20px" : "14px",
+          fontStyle: isCritical ? "bold" : isMiss ? "italic" : "normal",
+          color: isMiss ? "#aaaaaa" : this.getDamageTypeColor(damageType),
+          stroke: isCritical ? "#ffb300" : "#000000",
+          strokeThickness: isCritical ? 3 : 2,
+        }
+      );
 
       damageText.setDepth(10);
       damageText.setOrigin(0.5, 0.5);
 
+      if (isCritical) {
+        gameScene.tweens.add({
+          targets: damageText,
+          scale: { from: 1.6, to: 1 },
+          duration: 200,
+          ease: "Back.easeOut",
+        });
+      }
+
       // Animate the text
       gameScene.tweens.add({
         targets: damageText,
@@ -217,9 +240,11 @@ class AutoAttackSystemService {
 
   /**
    * Calculate attack damages - returns primary damage and optional secondary damage
+   * @param roll Combat roll for this attack; critical hits scale both damages
    */
-  private calculateAttackDamages(): {
+  private calculateAttackDamages(roll: CombatRoll): {
     primary: number;
+    primaryType: DamageType;
     secondary?: { damage: number; type: DamageType; attackType: string };
   } {
     // Read from GameStore (single source of truth)
@@ -228,11 +253,12 @@ class AutoAttackSystemService {
     const skills = store.playerCharacter.skills;
 
     // Calculate primary damage using existing formula
-    const primaryDamage = DamageFormulas.calculatePlayerAutoAttackDamage(
+    const rawDamage = DamageFormulas.calculatePlayerAutoAttackDamage(
       equipment,
       skills,
       this.currentWeaponType
     );
+    const primaryDamage = DamageFormulas.applyCombatRoll(rawDamage, roll);
 
     // Apply kill bonus to primary damage
     const bonusedPrimaryDamage =
@@ -244,6 +270,7 @@ class AutoAttackSystemService {
     const weaponEquipped = equipment.weapon;
     if (weaponEquipped && weaponEquipped.templateId) {
       const weaponData = ItemDictionary.getItem(weaponEquipped.templateId);
+      const primaryType = weaponData?.damageType || DamageType.PHYSICAL;
 
       if (weaponData?.secondaryAttackType && weaponData?.secondaryDamagePeanlty) {
         // Calculate secondary damage as percentage of primary damage
@@ -259,6 +286,7 @@ class AutoAttackSystemService {
 
         return {
           primary: bonusedPrimaryDamage,
+          primaryType,
           secondary: {
             damage: Math.max(1, secondaryDamage),
             type: weaponData.secondaryDamageType || DamageType.PHYSICAL,
@@ -266,9 +294,56 @@ class AutoAttackSystemService {
           },
         };
       }
+
+      return { primary: bonusedPrimaryDamage, primaryType };
     }
 
-    return { primary: bonusedPrimaryDamage };
+    return { primary: bonusedPrimaryDamage, primaryType: DamageType.PHYSICAL };
+  }
+
+  /**
+   * Explain how a primary auto-attack hit reached its damage, including what the
+   * target's resistances and armor will take off it
+   */
+  private createDamageBreakdown(
+    roll: CombatRoll,
+    bonusedDamage: number,
+    damageType: DamageType
+  ): DamageBreakdown {
+    const store = useGameStore.getState();
+    const equipment = store.playerCharacter.equipment;
+    const skills = store.playerCharacter.skills;
+
+    const components = DamageFormulas.getPlayerDamageComponents(
+      equipment,
+      skills,
+      this.currentWeaponType
+    );
+    const rawDamage = DamageFormulas.calculatePlayerAutoAttackDamage(
+      equipment,
+      skills,
+      this.currentWeaponType
+    );
+    const rolledDamage = DamageFormulas.applyCombatRoll(rawDamage, roll);
+    const monsterType = this.targetedEnemy?.monsterType;
+    const mitigation =
+      typeof this.targetedEnemy?.calculateMitigation === "function"
+        ? this.targetedEnemy.calculateMitigation(bonusedDamage, false, damageType)
+        : DamageFormulas.calculateMitigation(bonusedDamage, 0, false, damageType);
+
+    return {
+      ...components,
+      baseDamage: 0,
+      rawDamage,
+      critMultiplier: roll.outcome === "critical" ? roll.damageMultiplier : 1,
+      killBonusPercent: monsterType ? KillBonusService.getKillBonuses(monsterType).damageBonus : 0,
+      killBonusDamage: bonusedDamage - rolledDamage,
+      elementalMultiplier: mitigation.elementalMultiplier,
+      armorReduction: mitigation.armorReduction,
+      damageType,
+      isMagic: false,
+      finalDamage: mitigation.finalDamage,
+    };
   }
 
   /**
@@ -309,6 +384,11 @@ class AutoAttackSystemService {
         return false;
       }
 
+      // Stunned players can't attack
+      if (player.components.get("statusEffects")?.isStunned()) {
+        return false;
+      }
+
       // Calculate actual distance
       const distance = Phaser.Math.Distance.Between(
         player.x,
@@ -319,32 +399,53 @@ class AutoAttackSystemService {
 
       // Only attack if in range
       if (distance <= this.attackRange) {
-        // Default to hit
-        let doesHit = true;
-
-        // Handle special case for archery weapons
-        if (this.currentWeaponType === "archery") {
-          // Archers have penalty at close range
-          const adjacentDistance = 48; // About 1.5 tiles
-
-          if (distance <= adjacentDistance) {
-            // 25% chance to miss when adjacent
-            doesHit = Math.random() >= 0.25;
-          }
+        const store = useGameStore.getState();
+        let roll: CombatRoll = { outcome: "miss", damageMultiplier: 0 };
+
+        // Archers have penalty at close range
+        const fumbled =
+          this.currentWeaponType === "archery" &&
+          distance <= ARCHERY_ADJACENT_DISTANCE &&
+          RandomService.stream("combat").chance(ARCHERY_ADJACENT_MISS_CHANCE);
+
+        if (!fumbled) {
+          roll = DamageFormulas.rollAttack(
+            DamageFormulas.getPlayerAttackRollChances(
+              store.playerCharacter.equipment,
+              store.playerCharacter.skills,
+              this.currentWeaponType
+            )
+          );
         }
 
+        const doesHit = roll.outcome === "hit" || roll.outcome === "critical";
+
         // Get attack damages (calculate regardless of hit/miss for event data)
-        const attacks = this.calculateAttackDamages();
+        const attacks = this.calculateAttackDamages(roll);
+
+        const breakdown = doesHit
+          ? this.createDamageBreakdown(roll, attacks.primary, attacks.primaryType)
+          : undefined;
+
+        eventBus.emit("combat.damage.dealt", {
+          damage: breakdown ? breakdown.finalDamage : 0,
+          target: this.targetedEnemy.monsterName || this.targetedEnemy.monsterType,
+          monsterType: this.targetedEnemy.monsterType,
+          attackType: "auto-attack",
+          outcome: roll.outcome,
+          breakdown,
+        });
 
         // If the attack will hit, apply damage
         if (doesHit) {
           // Apply primary damage
-          this.applyDamageToTarget(attacks.primary);
+          this.applyDamageToTarget(attacks.primary, attacks.primaryType);
           this.showDamageNumber(
             this.targetedEnemy.x,
             this.targetedEnemy.y,
             attacks.primary,
-            DamageType.PHYSICAL
+            attacks.primaryType,
+            roll.outcome
           );
 
           // Emit primary damage event for skill progression
@@ -358,12 +459,13 @@ class AutoAttackSystemService {
 
           // Apply secondary damage if it exists
           if (attacks.secondary) {
-            this.applyDamageToTarget(attacks.secondary.damage);
+            this.applyDamageToTarget(attacks.secondary.damage, attacks.secondary.type);
             this.showDamageNumber(
               this.targetedEnemy.x + 15, // Slight offset so both numbers are visible
               this.targetedEnemy.y - 10,
               attacks.secondary.damage,
-              attacks.secondary.type
+              attacks.secondary.type,
+              roll.outcome
             );
 
             // Emit secondary damage event for skill progression
@@ -384,6 +486,8 @@ class AutoAttackSystemService {
             this.targetedEnemy.x,
             this.targetedEnemy.y
           );
+        } else {
+          this.showDamageNumber(this.targetedEnemy.x, this.targetedEnemy.y, 0, undefined, "miss");
         }
 
         // Update last attack time
@@ -398,6 +502,7 @@ class AutoAttackSystemService {
           },
           damage: doesHit ? attacks.primary : 0,
           didHit: doesHit,
+          outcome: roll.outcome,
           attackCooldown: currentCooldown, // Include current cooldown in event
         });
 
@@ -453,10 +558,10 @@ class AutoAttackSystemService {
   /**
    * Apply damage to the target
    */
-  private applyDamageToTarget(damage: number): void {
+  private applyDamageToTarget(damage: number, damageType: DamageType): void {
     // Direct damage application if takeDamage is available
     if (this.targetedEnemy && typeof this.targetedEnemy.takeDamage === "function") {
-      this.targetedEnemy.takeDamage(damage);
+      this.targetedEnemy.takeDamage(damage, false, damageType);
       return;
     }
 
@@ -464,6 +569,7 @@ class AutoAttackSystemService {
     eventBus.emit("monster.damage.taken", {
       targetId: this.targetedEnemy.id,
       damage: damage,
+      damageType,
       source: "player",
       weaponType: this.currentWeaponType,
     });
@@ -615,6 +721,13 @@ class AutoAttackSystemService {
     return this.targetedEnemy;
   }
 
+  /**
+   * Get the current attack range in pixels
+   */
+  getAttackRange(): number {
+    return this.attackRange;
+  }
+
   /**
    * Get the current weapon type
    */
@@ -0,0 +1,53 @@
+// src/services/BossEncounterService.ts
+import { eventBus } from "@/utils/EventBus";
+import { BossArena } from "@/types";
+
+/**
+ * Tracks the boss fight in progress, if any, so player movement can be kept inside
+ * its arena. The fight itself is run by the boss's MonsterBossComponent.
+ */
+class BossEncounterServiceClass {
+  private activeBossId: string | null = null;
+  private arena: BossArena | null = null;
+
+  startEncounter(bossId: string, arena: BossArena): void {
+    this.activeBossId = bossId;
+    this.arena = arena;
+
+    eventBus.emit("boss.arena.locked", { bossId, arena });
+  }
+
+  endEncounter(bossId: string): void {
+    if (this.activeBossId !== bossId) return;
+
+    this.activeBossId = null;
+    this.arena = null;
+
+    eventBus.emit("boss.arena.unlocked", { bossId });
+  }
+
+  getActiveBossId(): string | null {
+    return this.activeBossId;
+  }
+
+  getArena(): BossArena | null {
+    return this.arena;
+  }
+
+  isInsideArena(x: number, y: number): boolean {
+    if (!this.arena) return true;
+    return Phaser.Math.Distance.Between(this.arena.x, this.arena.y, x, y) <= this.arena.radius;
+  }
+
+  /**
+   * Whether moving from one position to another is allowed by the arena. Walking into
+   * the arena is always allowed; walking out of it is not while the fight is on.
+   */
+  isMoveAllowed(from: { x: number; y: number }, toX: number, toY: number): boolean {
+    if (!this.arena) return true;
+    return !this.isInsideArena(from.x, from.y) || this.isInsideArena(toX, toY);
+  }
+}
+
+// Create and export singleton instance
+export const BossEncounterService = new BossEncounterServiceClass();
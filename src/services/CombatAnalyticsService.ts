@@ -0,0 +1,201 @@
+// src/services/CombatAnalyticsService.ts
+import { eventBus } from "@/utils/EventBus";
+import { DAMAGE_TYPE_LABELS } from "@/data/damageTypes";
+import {
+  CombatAnalyticsSnapshot,
+  CombatDamageDealtEvent,
+  CombatDamageReceivedEvent,
+  DamageBreakdown,
+  DamageSourceStats,
+  MonsterDamageTakenStats,
+} from "@/types";
+
+/**
+ * Hits further apart than this start a new stretch of combat, so walking
+ * between fights doesn't drag the DPS down
+ */
+const COMBAT_TIMEOUT_MS = 6000;
+const AUTO_ATTACK_SOURCE_ID = "autoAttack";
+
+/**
+ * Collects the session's combat.damage.* events into DPS, damage taken per
+ * monster type and per-ability totals for the combat analytics panel
+ */
+class CombatAnalyticsServiceClass {
+  private sessionStartedAt: number = Date.now();
+  private combatTimeMs: number = 0;
+  private lastCombatEventAt: number | null = null;
+  private totalDamageDealt: number = 0;
+  private totalDamageTaken: number = 0;
+  private sources = new Map<string, DamageSourceStats>();
+  private monsters = new Map<string, MonsterDamageTakenStats>();
+  private lastHit: CombatDamageDealtEvent | null = null;
+
+  constructor() {
+    eventBus.on("combat.damage.dealt", (data: CombatDamageDealtEvent) =>
+      this.recordDamageDealt(data)
+    );
+    eventBus.on("combat.damage.received", (data: CombatDamageReceivedEvent) =>
+      this.recordDamageReceived(data)
+    );
+  }
+
+  recordDamageDealt(data: CombatDamageDealtEvent): void {
+    try {
+      this.trackCombatTime();
+
+      const id = data.abilityId || AUTO_ATTACK_SOURCE_ID;
+      const stats = this.sources.get(id) || {
+        id,
+        name: data.attackType === "auto-attack" ? "Auto-attack" : data.attackType,
+        hits: 0,
+        misses: 0,
+        criticalHits: 0,
+        totalDamage: 0,
+        highestHit: 0,
+      };
+
+      if (data.outcome === "miss" || data.outcome === "dodge") {
+        stats.misses++;
+      } else {
+        stats.hits++;
+        stats.totalDamage += data.damage;
+        stats.highestHit = Math.max(stats.highestHit, data.damage);
+        if (data.outcome === "critical") stats.criticalHits++;
+
+        this.totalDamageDealt += data.damage;
+        this.lastHit = data;
+      }
+
+      this.sources.set(id, stats);
+      this.emitUpdate();
+    } catch (error) {
+      console.error("Error in CombatAnalyticsService.recordDamageDealt:", error);
+      eventBus.emit("error.combatAnalytics.record", { error });
+    }
+  }
+
+  recordDamageReceived(data: CombatDamageReceivedEvent): void {
+    try {
+      this.trackCombatTime();
+
+      const monsterType = data.monsterType || data.source;
+      const stats = this.monsters.get(monsterType) || {
+        monsterType,
+        name: data.source,
+        hits: 0,
+        dodges: 0,
+        totalDamage: 0,
+        highestHit: 0,
+      };
+
+      if (data.outcome === "miss" || data.outcome === "dodge") {
+        stats.dodges++;
+      } else {
+        stats.hits++;
+        stats.totalDamage += data.damage;
+        stats.highestHit = Math.max(stats.highestHit, data.damage);
+
+        this.totalDamageTaken += data.damage;
+      }
+
+      this.monsters.set(monsterType, stats);
+      this.emitUpdate();
+    } catch (error) {
+      console.error("Error in CombatAnalyticsService.recordDamageReceived:", error);
+      eventBus.emit("error.combatAnalytics.record", { error });
+    }
+  }
+
+  getSnapshot(): CombatAnalyticsSnapshot {
+    const combatSeconds = this.combatTimeMs / 1000;
+
+    return {
+      sessionStartedAt: this.sessionStartedAt,
+      combatTimeMs: this.combatTimeMs,
+      totalDamageDealt: this.totalDamageDealt,
+      totalDamageTaken: this.totalDamageTaken,
+      dps: combatSeconds > 0 ? this.totalDamageDealt / combatSeconds : 0,
+      damageTakenPerSecond: combatSeconds > 0 ? this.totalDamageTaken / combatSeconds : 0,
+      sources: [...this.sources.values()].sort((a, b) => b.totalDamage - a.totalDamage),
+      monsters: [...this.monsters.values()].sort((a, b) => b.totalDamage - a.totalDamage),
+      lastHit: this.lastHit,
+    };
+  }
+
+  /**
+   * Start a fresh session
+   */
+  reset(): void {
+    this.sessionStartedAt = Date.now();
+    this.combatTimeMs = 0;
+    this.lastCombatEventAt = null;
+    this.totalDamageDealt = 0;
+    this.totalDamageTaken = 0;
+    this.sources.clear();
+    this.monsters.clear();
+    this.lastHit = null;
+
+    this.emitUpdate();
+  }
+
+  /**
+   * Readable lines explaining a damage breakdown, e.g. for tooltips
+   */
+  describeBreakdown(breakdown: DamageBreakdown): string[] {
+    const lines: string[] = [];
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    if (breakdown.baseDamage) lines.push(`Base damage: ${breakdown.baseDamage}`);
+    if (breakdown.powerComponent) lines.push(`Power: +${round(breakdown.powerComponent)}`);
+    if (breakdown.skillComponent) lines.push(`Skill: +${round(breakdown.skillComponent)}`);
+    if (breakdown.levelComponent) lines.push(`Level: +${round(breakdown.levelComponent)}`);
+    lines.push(`Raw damage: ${breakdown.rawDamage}`);
+
+    if (breakdown.critMultiplier !== 1) {
+      lines.push(`Critical hit: ×${round(breakdown.critMultiplier)}`);
+    }
+    if (breakdown.killBonusDamage) {
+      const sign = breakdown.killBonusDamage > 0 ? "+" : "";
+      lines.push(
+        `Kill bonus (${sign}${breakdown.killBonusPercent}%): ${sign}${breakdown.killBonusDamage}`
+      );
+    }
+    if (breakdown.elementalMultiplier !== 1) {
+      lines.push(
+        `${DAMAGE_TYPE_LABELS[breakdown.damageType]} modifier: ×${round(breakdown.elementalMultiplier)}`
+      );
+    }
+    if (breakdown.isMagic) {
+      lines.push("Armor: bypassed (magic)");
+    } else if (breakdown.armorReduction) {
+      lines.push(`Armor: -${breakdown.armorReduction}`);
+    }
+
+    lines.push(`Final damage: ${breakdown.finalDamage}`);
+    return lines;
+  }
+
+  /**
+   * Add the time since the previous combat event, unless combat had lapsed
+   */
+  private trackCombatTime(): void {
+    const now = Date.now();
+
+    if (this.lastCombatEventAt !== null) {
+      const elapsed = now - this.lastCombatEventAt;
+      if (elapsed <= COMBAT_TIMEOUT_MS) {
+        this.combatTimeMs += elapsed;
+      }
+    }
+
+    this.lastCombatEventAt = now;
+  }
+
+  private emitUpdate(): void {
+    eventBus.emit("combatAnalytics.updated", this.getSnapshot());
+  }
+}
+
+// Create and export singleton instance
+export const CombatAnalyticsService = new CombatAnalyticsServiceClass();
@@ -0,0 +1,145 @@
+// src/services/CompanionService.ts
+import { eventBus } from "@/utils/EventBus";
+import { useGameStore } from "@/stores/gameStore";
+import { PhaserSceneManager } from "./PhaserSceneManager";
+import { getCompanionDefinition } from "@/data/companions";
+import { CompanionFollowComponent } from "@/entities/companion/CompanionFollowComponent";
+import type { Companion } from "@/entities/Companion";
+import type { GameScene } from "@/scenes/GameScene";
+import { CompanionData } from "@/types";
+
+/**
+ * Hiring and dismissing companions. One companion can be hired at a time; it stays
+ * hired across map changes and reloads until it dies or is dismissed.
+ */
+class CompanionServiceClass {
+  private hiredCompanionId: string | null = null;
+
+  constructor() {
+    // Bring the hired companion along into every (re)created game scene
+    eventBus.on("game.scene.ready", (data: { scene: GameScene }) =>
+      this.spawnHiredCompanion(data.scene)
+    );
+    eventBus.on("companion.died", (data: { companionId: string; name: string }) =>
+      this.handleCompanionDied(data)
+    );
+  }
+
+  getHiredCompanionId(): string | null {
+    return this.hiredCompanionId;
+  }
+
+  /**
+   * Put back the companion a save was hired with, without charging for it again
+   */
+  restoreHiredCompanion(companionId: string | null): void {
+    try {
+      this.getActiveCompanion()?.destroy();
+      this.hiredCompanionId =
+        companionId && getCompanionDefinition(companionId) ? companionId : null;
+
+      const gameScene = PhaserSceneManager.getScene<GameScene>("game");
+      if (gameScene) {
+        this.spawnHiredCompanion(gameScene);
+      }
+    } catch (error) {
+      console.error("Error in CompanionService.restoreHiredCompanion:", error);
+      eventBus.emit("error.companion.restore", { companionId, error });
+    }
+  }
+
+  getHiredCompanion(): CompanionData | null {
+    return this.hiredCompanionId ? getCompanionDefinition(this.hiredCompanionId) : null;
+  }
+
+  /**
+   * The hired companion's entity in the current scene, if it is alive
+   */
+  getActiveCompanion(): Companion | null {
+    const gameScene = PhaserSceneManager.getScene<GameScene>("game");
+    if (!gameScene?.companions) return null;
+
+    const companion = gameScene.companions.getChildren()[0] as Companion | undefined;
+    return companion && companion.active && !companion.isDead ? companion : null;
+  }
+
+  /**
+   * Pay for a companion and spawn it next to the player, replacing any current one
+   */
+  hire(companionId: string): boolean {
+    try {
+      const companionData = getCompanionDefinition(companionId);
+      if (!companionData) return false;
+      if (this.hiredCompanionId === companionId) return false;
+
+      const store = useGameStore.getState();
+      if (store.playerCharacter.gold < companionData.price) {
+        eventBus.emit(
+          "ui.message.show",
+          `You need ${companionData.price} gold to hire ${companionData.name}.`
+        );
+        return false;
+      }
+
+      store.updatePlayerGold(store.playerCharacter.gold - companionData.price);
+
+      this.dismiss();
+      this.hiredCompanionId = companionId;
+
+      const gameScene = PhaserSceneManager.getScene<GameScene>("game");
+      if (gameScene) {
+        this.spawnHiredCompanion(gameScene);
+      }
+
+      eventBus.emit("companion.hired", { companionId, name: companionData.name });
+      eventBus.emit("ui.message.show", `${companionData.name} joins you.`);
+      return true;
+    } catch (error) {
+      console.error("Error in CompanionService.hire:", error);
+      eventBus.emit("error.companion.hire", { companionId, error });
+      return false;
+    }
+  }
+
+  dismiss(): void {
+    try {
+      const companionData = this.getHiredCompanion();
+      if (!companionData) return;
+
+      this.hiredCompanionId = null;
+      this.getActiveCompanion()?.destroy();
+
+      eventBus.emit("companion.dismissed", {
+        companionId: companionData.id,
+        name: companionData.name,
+      });
+    } catch (error) {
+      console.error("Error in CompanionService.dismiss:", error);
+      eventBus.emit("error.companion.dismiss", { error });
+    }
+  }
+
+  private spawnHiredCompanion(gameScene: GameScene): void {
+    try {
+      const companionData = this.getHiredCompanion();
+      const player = gameScene.playerCharacter;
+      if (!companionData || !player || this.getActiveCompanion()) return;
+
+      const companion = gameScene.entitySpawner.spawnCompanion(companionData, player.x, player.y);
+      companion?.components.get<CompanionFollowComponent>("movement")?.placeNextTo(player);
+    } catch (error) {
+      console.error("Error in CompanionService.spawnHiredCompanion:", error);
+      eventBus.emit("error.companion.spawn", { error });
+    }
+  }
+
+  private handleCompanionDied(data: { companionId: string; name: string }): void {
+    if (data.companionId !== this.hiredCompanionId) return;
+
+    this.hiredCompanionId = null;
+    eventBus.emit("ui.message.show", `${data.name} has fallen.`);
+  }
+}
+
+// Create and export singleton instance
+export const CompanionService = new CompanionServiceClass();
@@ -82,8 +82,11 @@ class ExperienceSystemService {
     try {
       if (!data || !data.type) return;
 
-      // Get experience reward for this monster type
-      const expReward = MonsterDictionary.getExperienceReward(data.type);
+      // The dying monster reports its own reward, which champion affixes scale
+      const expReward =
+        typeof data.experience === "number"
+          ? data.experience
+          : MonsterDictionary.getExperienceReward(data.type);
 
       if (expReward > 0) {
         this.awardExperience(expReward, data.x, data.y);
@@ -1,5 +1,14 @@
 // src/services/ItemDictionaryService.ts
-import { ItemData, ItemCategory, ItemSets, ItemType, PlayerAttackType, DamageType } from "@/types";
+import {
+  ItemData,
+  ItemCategory,
+  ItemRarity,
+  ItemSets,
+  ItemType,
+  PlayerAttackType,
+  DamageType,
+  PlayerCharacterEquipment,
+} from "@/types";
 
 const ITEM_DATA: Record<string, ItemData> = {
   // Melee Weapons
@@ -16,7 +25,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     texture: "commoner-sword",
     attackSpeed: 1000,
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -37,7 +46,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A magical sword engulfed in flames. Deal bonus magic damage",
     texture: "fire-sword",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -57,7 +66,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     },
     texture: "bone-club",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -72,10 +81,12 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     secondaryAttackType: PlayerAttackType.Magic,
     moveSpeed: 200,
+    critChance: 5,
+    critDamage: 25,
     description: "A two-handed sword that deals heavy damage.",
     texture: "great-sword",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -92,7 +103,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A simple wooden staff for casting spells.",
     texture: "wooden-staff",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
     moveSpeed: 500,
   },
@@ -113,7 +124,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     },
     texture: "bone-wand",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -126,11 +137,12 @@ const ITEM_DATA: Record<string, ItemData> = {
     weaponType: "archery",
     power: 2,
     armor: 2,
+    accuracy: 5,
     weight: 10,
     description: "A simple bow made from flexible twigs.",
     texture: "twig-bow",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -149,7 +161,7 @@ const ITEM_DATA: Record<string, ItemData> = {
       archery: 1,
     },
     texture: "throwable-skull",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -165,9 +177,10 @@ const ITEM_DATA: Record<string, ItemData> = {
     set: ItemSets.SKELETAL_SET,
     setBonus: {
       armor: 1,
+      physicalResist: 5,
     },
     texture: "bone-shield",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -178,6 +191,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     category: ItemCategory.ARMOR,
     type: ItemType.ARMOR,
     armor: 1,
+    poisonResist: 10,
     set: ItemSets.SKELETAL_SET,
     setBonus: {
       health: 20,
@@ -185,7 +199,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "A cheap coat encased in skeletal ribs.",
     texture: "skeletal-armor",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -196,6 +210,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     category: ItemCategory.TRINKET,
     type: ItemType.TRINKET,
     armor: 1,
+    dodge: 3,
     set: ItemSets.SKELETAL_SET,
     setBonus: {
       manaRegen: 1,
@@ -205,7 +220,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "Bone charm",
     texture: "bone-charm",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -219,11 +234,12 @@ const ITEM_DATA: Record<string, ItemData> = {
     set: ItemSets.SKELETAL_SET,
     setBonus: {
       mana: 20,
+      iceResist: 10,
     },
     weight: 10,
     description: "A hollowed out skull.",
     texture: "skull-cap",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -234,6 +250,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     category: ItemCategory.AMULET,
     type: ItemType.AMULET,
     armor: 2,
+    energyResist: 5,
     set: ItemSets.SKELETAL_SET,
     setBonus: {
       moveSpeed: 200,
@@ -241,7 +258,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "skeletalMedallion",
     texture: "skeletal-medallion",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -268,6 +285,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 1,
     mpRegen: 3,
     stackable: true,
+    maxStack: 10,
   },
   chickenLegs: {
     id: "chickenLegs",
@@ -279,6 +297,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 3,
     mpRegen: 1,
     stackable: true,
+    maxStack: 10,
   },
   dirtyFish: {
     id: "dirtyFish",
@@ -290,6 +309,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 2,
     mpRegen: 2,
     stackable: true,
+    maxStack: 10,
   },
 
   // CURRENCY
@@ -300,6 +320,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     category: ItemCategory.CURRENCY,
     weight: 0.1,
     stackable: true,
+    maxStack: 1000,
     description: "Shiny gold coins used as currency throughout the realm",
     texture: "gold-coins",
     sellValue: 1,
@@ -319,6 +340,51 @@ const ITEM_DATA: Record<string, ItemData> = {
     consumable: true,
     sellValue: 50,
   },
+
+  // CONTAINERS
+  lootPouch: {
+    id: "lootPouch",
+    name: "Loot Pouch",
+    category: ItemCategory.CONTAINER,
+    type: ItemType.CONTAINER,
+    weight: 1,
+    containerSlots: 4,
+    description: "A small drawstring pouch for odds and ends.",
+  },
+  smallBag: {
+    id: "smallBag",
+    name: "Small Bag",
+    category: ItemCategory.CONTAINER,
+    type: ItemType.CONTAINER,
+    weight: 2,
+    containerSlots: 8,
+    description: "A sturdy cloth bag. Fits inside a backpack.",
+  },
+  backpack: {
+    id: "backpack",
+    name: "Backpack",
+    category: ItemCategory.CONTAINER,
+    type: ItemType.CONTAINER,
+    weight: 4,
+    containerSlots: 12,
+    description: "A leather backpack. Wear it to keep your hands free.",
+  },
+};
+
+// Equipment slots that take a different item type than their name
+const SLOT_ITEM_TYPES: Record<string, ItemType> = {
+  backpack: ItemType.CONTAINER,
+};
+
+// Equipment slot each equippable item type goes in
+const ITEM_TYPE_SLOTS: Partial<Record<ItemType, keyof PlayerCharacterEquipment>> = {
+  [ItemType.WEAPON]: "weapon",
+  [ItemType.OFFHAND]: "shield",
+  [ItemType.ARMOR]: "armor",
+  [ItemType.HELMET]: "helmet",
+  [ItemType.AMULET]: "amulet",
+  [ItemType.TRINKET]: "trinket",
+  [ItemType.CONTAINER]: "backpack",
 };
 
 // Define interface for the class
@@ -329,6 +395,7 @@ export interface IItemDictionary {
   getWeaponType(itemId: string): string | null;
   getItemTexture(itemId: string): string;
   canEquipInSlot(itemId: string, slotType: string): boolean;
+  getEquipmentSlot(itemId: string): keyof PlayerCharacterEquipment | null;
   getItemsByCategory(category: ItemCategory): ItemData[];
   getAllWeapons(): ItemData[];
   getAllItems(): Record<string, ItemData>;
@@ -365,7 +432,14 @@ class ItemDictionaryService {
 
   canEquipInSlot(itemId: string, slotType: string): boolean {
     const itemType = this.getItemType(itemId);
-    return itemType === slotType;
+    return itemType === (SLOT_ITEM_TYPES[slotType] || slotType);
+  }
+
+  /**
+   * Equipment slot an item goes in, or null if it can't be equipped
+   */
+  getEquipmentSlot(itemId: string): keyof PlayerCharacterEquipment | null {
+    return ITEM_TYPE_SLOTS[this.getItemType(itemId) as ItemType] || null;
   }
 
   getItemsByCategory(category: ItemCategory): ItemData[] {
@@ -402,6 +476,7 @@ class ItemDictionaryService {
       consumable: "valuables",
       quest: "valuables",
       spell_scroll: "general", // ADD THIS LINE for spell scrolls
+      container: "general",
     };
 
     return categoryToFolderMap[item.category!] || "valuables";
@@ -180,13 +180,8 @@ export class ItemHoverSystem {
         closestItem.applyGlowEffect();
       }
 
-      // Get item instance data - INCLUDE THE QUANTITY!
-      const itemInstance = {
-        templateId: closestItem.templateId,
-        instanceId: closestItem.instanceId,
-        bonusStats: closestItem.bonusStats,
-        quantity: closestItem.quantity, // THIS WAS MISSING!
-      };
+      // Get item instance data, including quantity and rolled rarity
+      const itemInstance = closestItem.getItemInstance();
 
       // Emit event for React tooltip component to display
       eventBus.emit("item.world.tooltip.show", {
@@ -1,4 +1,11 @@
-import { MonsterData, ItemDrop, MonsterCategory, MonsterAttackType } from "@/types";
+import {
+  MonsterData,
+  ItemDrop,
+  MonsterCategory,
+  MonsterAttackType,
+  DamageType,
+  StatusEffectType,
+} from "@/types";
 import { eventBus } from "../utils/EventBus";
 
 export interface KillProgressMilestone {
@@ -22,6 +29,7 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     experience: 40000,
     damage: 3,
     armor: 2,
+    resistances: { [DamageType.FIRE]: -50, [DamageType.POISON]: 75, [DamageType.ICE]: 25 },
     drops: [
       { itemId: "sword1", chance: 0.15 },
       { itemId: "boneShield", chance: 0.05 },
@@ -48,6 +56,7 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     experience: 40,
     damage: 3,
     armor: 2,
+    resistances: { [DamageType.FIRE]: -50, [DamageType.POISON]: 75, [DamageType.ICE]: 25 },
     drops: [
       { itemId: "sword1", chance: 0.15 },
       { itemId: "goldCoins", chance: 0.95, minQuantity: 5, maxQuantity: 8 },
@@ -69,22 +78,27 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     category: MonsterCategory.UNDEAD,
     sprite: "assets/sprites/skeleton.png",
     preview: "assets/outfit-preview/skeleton-outfit-preview.png",
-    health: 8,
-    maxHealth: 8,
+    health: 80,
+    maxHealth: 80,
     speed: 50,
     experience: 40,
     damage: 3,
+    damageType: DamageType.ICE,
+    statusEffect: { type: StatusEffectType.SLOW, chance: 0.25 },
     armor: 2,
+    resistances: { [DamageType.FIRE]: -25, [DamageType.POISON]: 75, [DamageType.ENERGY]: 25 },
     drops: [
       { itemId: "sword1", chance: 0.15 },
       { itemId: "goldCoins", chance: 0.95, minQuantity: 5, maxQuantity: 8 },
     ],
+    abilities: ["frostNova"],
+    itemLevel: 3,
     isAggressive: true,
     attackType: MonsterAttackType.Magic,
     runawayPercent: 0,
     description: "A Big Skeleton.",
     color: 0x191970,
-    isRare: true,
+    isBoss: true,
   },
 
   // Dark Elf Category
@@ -99,9 +113,12 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     speed: 65,
     experience: 40,
     damage: 2,
+    damageType: DamageType.FIRE,
     armor: 1,
+    resistances: { [DamageType.FIRE]: 25, [DamageType.ENERGY]: 25, [DamageType.PHYSICAL]: -25 },
     drops: [{ itemId: "sword1", chance: 0.75 }],
-    abilities: ["fireball"],
+    itemLevel: 2,
+    abilities: ["flameBolt"],
     isAggressive: true,
     attackType: MonsterAttackType.Magic,
     runawayPercent: 20,
@@ -120,11 +137,13 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     experience: 60,
     damage: 4,
     armor: 4,
+    resistances: { [DamageType.PHYSICAL]: 15, [DamageType.ENERGY]: -30 },
     drops: [
       { itemId: "greatSword", chance: 0.5 },
       { itemId: "sword1", chance: 0.8 },
     ],
-    abilities: ["swordSlash"],
+    itemLevel: 3,
+    abilities: ["groundSlam"],
     isAggressive: true,
     attackType: MonsterAttackType.Melee,
     runawayPercent: 0,
@@ -142,9 +161,13 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     speed: 110,
     experience: 50,
     damage: 3,
+    damageType: DamageType.POISON,
+    statusEffect: { type: StatusEffectType.POISON, chance: 0.3 },
     armor: 2,
+    resistances: { [DamageType.POISON]: 25, [DamageType.FIRE]: -25 },
     drops: [{ itemId: "twigBow", chance: 0.4 }],
-    abilities: ["powerShot"],
+    itemLevel: 2,
+    abilities: ["venomArrow"],
     isAggressive: true,
     attackType: MonsterAttackType.Ranged,
     runawayPercent: 30,
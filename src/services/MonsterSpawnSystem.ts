@@ -2,6 +2,9 @@
 import { eventBus } from "../utils/EventBus";
 import { MapService } from "../services/MapService";
 import { useGameStore } from "../stores/gameStore";
+import { RandomService } from "./RandomService";
+import { CHAMPION_AFFIX_COUNT } from "../data/monsterAffixes";
+import { MonsterAffixType } from "../types";
 import type { GameScene } from "../scenes/GameScene";
 import type { Monster } from "../entities/Monster";
 
@@ -19,6 +22,8 @@ interface SpawnPoint {
   isBoss?: boolean;
   isRare?: boolean;
   maxCount: number;
+  // Pixels a monster may be pulled from the spawn point before it resets
+  leashRadius?: number;
   currentMonsters: Monster[];
   lastRespawnTime: number;
   isActive: boolean;
@@ -71,6 +76,7 @@ export class MonsterSpawnSystem {
         const maxCount = this.getObjectProperty(obj, "maxCount", 1);
         const isBoss = this.getObjectProperty(obj, "isBoss", false);
         const isRare = this.getObjectProperty(obj, "isRare", false);
+        const leashRadius = this.getObjectProperty(obj, "leashRadius", 0); // In tiles
 
         if (!monsterType) {
           console.warn("Spawn point missing monsterType property:", obj);
@@ -129,6 +135,7 @@ export class MonsterSpawnSystem {
           y: phaserCoords.y,
           monsterType,
           maxCount,
+          leashRadius: leashRadius > 0 ? leashRadius * tileSize : undefined,
           currentMonsters: [],
           lastRespawnTime: 0,
           isActive: true,
@@ -160,7 +167,7 @@ export class MonsterSpawnSystem {
       // For boss/rare monsters, generate random time between min and max
       const minTime = spawnPoint.minSpawnTime || 60000; // Default 60s
       const maxTime = spawnPoint.maxSpawnTime || 120000; // Default 120s
-      const randomTime = Math.floor(Math.random() * (maxTime - minTime + 1)) + minTime;
+      const randomTime = RandomService.stream("spawn").int(minTime, maxTime);
 
       return randomTime;
     } else {
@@ -205,13 +212,21 @@ export class MonsterSpawnSystem {
     try {
       // Add some randomization to spawn position to prevent overlapping
       const offsetRange = 16; // ±16 pixels
-      const randomX = spawnPoint.x + (Math.random() - 0.5) * offsetRange;
-      const randomY = spawnPoint.y + (Math.random() - 0.5) * offsetRange;
+      const random = RandomService.stream("spawn");
+      const randomX = spawnPoint.x + random.float(-0.5, 0.5) * offsetRange;
+      const randomY = spawnPoint.y + random.float(-0.5, 0.5) * offsetRange;
 
       const monster = this.scene.spawnMonster(spawnPoint.monsterType, randomX, randomY);
 
       if (monster) {
-        (monster as any).spawnPointId = spawnPoint.id;
+        monster.setSpawnPoint(spawnPoint.id, spawnPoint.x, spawnPoint.y, spawnPoint.leashRadius);
+
+        // Rare spawns come out as champions; bosses have their own encounter instead
+        if ((spawnPoint.isRare || monster.isRare) && !monster.isBoss) {
+          const affixCount = random.int(CHAMPION_AFFIX_COUNT.min, CHAMPION_AFFIX_COUNT.max);
+          const affixes = random.shuffle(Object.values(MonsterAffixType)).slice(0, affixCount);
+          monster.makeChampion(affixes);
+        }
 
         // Add to spawn point's monster list
         spawnPoint.currentMonsters.push(monster);
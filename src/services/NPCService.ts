@@ -17,6 +17,8 @@ const NPC_DATA: Record<string, NPCData> = {
       { itemId: "twigBow", price: 40 },
       { itemId: "woodenStaff", price: 45 },
       { itemId: "boneShield", price: 35 },
+      { itemId: "smallBag", price: 15 },
+      { itemId: "backpack", price: 30 },
     ],
     interactionRadius: 200, // 5 tiles at 32px per tile
   },
@@ -57,6 +59,38 @@ const NPC_DATA: Record<string, NPCData> = {
     interactionRadius: 200,
     isStatSeller: true,
   },
+  "warrior-trainer": {
+    id: "warrior-trainer",
+    name: "Sir Bram",
+    texture: "playerCharacter",
+    dialog: ["Steel and discipline, recruit. That is the way of the Knight."],
+    interactionRadius: 200,
+    isWarriorTrainer: true,
+  },
+  "mage-trainer": {
+    id: "mage-trainer",
+    name: "Elder Myra",
+    texture: "playerCharacter",
+    dialog: ["Magic answers only to those with the patience to learn it."],
+    interactionRadius: 200,
+    isMageTrainer: true,
+  },
+  "archer-trainer": {
+    id: "archer-trainer",
+    name: "Fen the Hunter",
+    texture: "playerCharacter",
+    dialog: ["Keep your distance and your aim true, and nothing will reach you."],
+    interactionRadius: 200,
+    isArcherTrainer: true,
+  },
+  "mercenary-captain": {
+    id: "mercenary-captain",
+    name: "Captain Hale",
+    texture: "playerCharacter",
+    dialog: ["The cave is no place to walk alone. My people fight for coin, not glory."],
+    interactionRadius: 200,
+    companionIds: ["sellsword-garrick", "scout-lira", "hedge-mage-orin"],
+  },
 };
 
 class NPCServicel {
@@ -0,0 +1,388 @@
+// src/services/PathfindingService.ts
+import { eventBus } from "@/utils/EventBus";
+
+/**
+ * Tile coordinates in the collision layer's own grid (not Tiled chunk coordinates)
+ */
+export interface TilePoint {
+  x: number;
+  y: number;
+}
+
+export interface PathQueryOptions {
+  ignore?: Phaser.GameObjects.GameObject; // Entity whose own tile doesn't count as blocked
+  ignoreOccupants?: boolean; // Only consider walls
+  maxNodes?: number; // Search budget, keeps long queries from stalling a frame
+  allowPartial?: boolean; // Return a path to the closest reachable tile if the goal isn't reachable
+}
+
+const TILE_SIZE = 32;
+const DEFAULT_MAX_NODES = 2000;
+const NEIGHBOR_OFFSETS: TilePoint[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+/**
+ * Binary min-heap of tile indices keyed by A* f-score
+ */
+class OpenSet {
+  private nodes: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, score: number): void {
+    this.nodes.push(node);
+    this.scores.push(score);
+
+    let index = this.nodes.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.scores[parent] <= this.scores[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.nodes.length === 0) return undefined;
+
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastScore = this.scores.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.scores[0] = lastScore;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < this.nodes.length && this.scores[left] < this.scores[smallest]) {
+          smallest = left;
+        }
+        if (right < this.nodes.length && this.scores[right] < this.scores[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+/**
+ * Shared tile-grid pathfinding. Walkability is cached from the map's collision
+ * layer when GameSceneCollisionManager sets up collisions; entities register the
+ * tile they stand on so paths route around them.
+ */
+class PathfindingServiceClass {
+  private width: number = 0;
+  private height: number = 0;
+  private walkable: Uint8Array | null = null;
+  private gridVersion: number = 0;
+  private occupiedTiles = new Map<Phaser.GameObjects.GameObject, TilePoint>();
+  private occupantCounts = new Map<number, number>(); // By tile index, rebuilt with the grid
+
+  /**
+   * Cache walkability for the current map from its collision layer
+   */
+  buildGrid(map?: Phaser.Tilemaps.Tilemap, collisionLayer?: Phaser.Tilemaps.TilemapLayer): void {
+    try {
+      if (!map) {
+        this.clearGrid();
+        return;
+      }
+
+      this.width = map.width;
+      this.height = map.height;
+      this.walkable = new Uint8Array(this.width * this.height).fill(1);
+
+      if (collisionLayer) {
+        for (let y = 0; y < this.height; y++) {
+          for (let x = 0; x < this.width; x++) {
+            if (collisionLayer.getTileAt(x, y)?.collides) {
+              this.walkable[this.toIndex(x, y)] = 0;
+            }
+          }
+        }
+      }
+
+      // Entities spawned before the grid existed couldn't be counted yet
+      this.occupantCounts.clear();
+      this.occupiedTiles.forEach((tile) => this.countOccupant(tile, 1));
+
+      this.gridVersion++;
+
+      eventBus.emit("pathfinding.grid.built", {
+        width: this.width,
+        height: this.height,
+        version: this.gridVersion,
+      });
+    } catch (error) {
+      console.error("Error in PathfindingService.buildGrid:", error);
+      eventBus.emit("error.pathfinding.build", { error });
+      this.clearGrid();
+    }
+  }
+
+  clearGrid(): void {
+    this.width = 0;
+    this.height = 0;
+    this.walkable = null;
+    this.occupiedTiles.clear();
+    this.occupantCounts.clear();
+    this.gridVersion++;
+  }
+
+  hasGrid(): boolean {
+    return this.walkable !== null;
+  }
+
+  /**
+   * Increments whenever the cached walls change; cached paths from an older
+   * version must be discarded
+   */
+  getGridVersion(): number {
+    return this.gridVersion;
+  }
+
+  worldToTile(worldX: number, worldY: number): TilePoint {
+    return { x: Math.floor(worldX / TILE_SIZE), y: Math.floor(worldY / TILE_SIZE) };
+  }
+
+  tileToWorld(tileX: number, tileY: number): { x: number; y: number } {
+    return { x: tileX * TILE_SIZE + TILE_SIZE / 2, y: tileY * TILE_SIZE + TILE_SIZE / 2 };
+  }
+
+  isInBounds(tileX: number, tileY: number): boolean {
+    return tileX >= 0 && tileY >= 0 && tileX < this.width && tileY < this.height;
+  }
+
+  /**
+   * Whether a tile is free of walls (and, unless ignored, other entities)
+   */
+  isWalkable(tileX: number, tileY: number, options: PathQueryOptions = {}): boolean {
+    if (!this.walkable || !this.isInBounds(tileX, tileY)) return false;
+    if (!this.walkable[this.toIndex(tileX, tileY)]) return false;
+
+    return options.ignoreOccupants || !this.isTileOccupied(tileX, tileY, options.ignore);
+  }
+
+  isTileOccupied(tileX: number, tileY: number, ignore?: Phaser.GameObjects.GameObject): boolean {
+    if (!this.isInBounds(tileX, tileY)) return false;
+
+    let count = this.occupantCounts.get(this.toIndex(tileX, tileY)) || 0;
+
+    const ignoredTile = ignore && this.occupiedTiles.get(ignore);
+    if (ignoredTile && ignoredTile.x === tileX && ignoredTile.y === tileY) {
+      count--;
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * Record the tile an entity stands on (or is moving into)
+   */
+  occupyTile(entity: Phaser.GameObjects.GameObject, tileX: number, tileY: number): void {
+    const current = this.occupiedTiles.get(entity);
+    if (current && current.x === tileX && current.y === tileY) return;
+
+    this.releaseTile(entity);
+
+    const tile = { x: tileX, y: tileY };
+    this.occupiedTiles.set(entity, tile);
+    this.countOccupant(tile, 1);
+  }
+
+  releaseTile(entity: Phaser.GameObjects.GameObject): void {
+    const tile = this.occupiedTiles.get(entity);
+    if (!tile) return;
+
+    this.occupiedTiles.delete(entity);
+    this.countOccupant(tile, -1);
+  }
+
+  /**
+   * Tile indices depend on the grid's width, so occupants are only counted once
+   * a grid exists; buildGrid counts everyone registered before it
+   */
+  private countOccupant(tile: TilePoint, change: number): void {
+    if (!this.walkable || !this.isInBounds(tile.x, tile.y)) return;
+
+    const index = this.toIndex(tile.x, tile.y);
+    const count = (this.occupantCounts.get(index) || 0) + change;
+    if (count > 0) {
+      this.occupantCounts.set(index, count);
+    } else {
+      this.occupantCounts.delete(index);
+    }
+  }
+
+  /**
+   * A* search over the cached grid using 4-directional movement
+   * @returns Steps from (excluding) start to (including) goal, or null if no path
+   */
+  findPath(start: TilePoint, goal: TilePoint, options: PathQueryOptions = {}): TilePoint[] | null {
+    try {
+      if (!this.walkable || !this.isInBounds(start.x, start.y)) return null;
+      if (start.x === goal.x && start.y === goal.y) return [];
+
+      const maxNodes = options.maxNodes || DEFAULT_MAX_NODES;
+      const startIndex = this.toIndex(start.x, start.y);
+      const goalIndex = this.isInBounds(goal.x, goal.y) ? this.toIndex(goal.x, goal.y) : -1;
+
+      const openSet = new OpenSet();
+      const cameFrom = new Map<number, number>();
+      const gScore = new Map<number, number>([[startIndex, 0]]);
+      const closed = new Set<number>();
+
+      let closestIndex = startIndex;
+      let closestDistance = this.heuristic(start, goal);
+      let expanded = 0;
+
+      openSet.push(startIndex, closestDistance);
+
+      while (openSet.size > 0 && expanded < maxNodes) {
+        const current = openSet.pop()!;
+        if (current === goalIndex) {
+          return this.reconstructPath(cameFrom, current);
+        }
+        if (closed.has(current)) continue;
+        closed.add(current);
+        expanded++;
+
+        const currentTile = this.fromIndex(current);
+        const currentG = gScore.get(current) || 0;
+
+        for (const offset of NEIGHBOR_OFFSETS) {
+          const nextX = currentTile.x + offset.x;
+          const nextY = currentTile.y + offset.y;
+          if (!this.isInBounds(nextX, nextY)) continue;
+
+          const next = this.toIndex(nextX, nextY);
+          if (closed.has(next)) continue;
+
+          // The goal itself may be occupied (e.g. by the target); only walls block it
+          const passable =
+            next === goalIndex ? this.walkable[next] === 1 : this.isWalkable(nextX, nextY, options);
+          if (!passable) continue;
+
+          const tentativeG = currentG + 1;
+          if (tentativeG >= (gScore.get(next) ?? Infinity)) continue;
+
+          cameFrom.set(next, current);
+          gScore.set(next, tentativeG);
+
+          const distanceToGoal = this.heuristic({ x: nextX, y: nextY }, goal);
+          if (distanceToGoal < closestDistance) {
+            closestDistance = distanceToGoal;
+            closestIndex = next;
+          }
+
+          openSet.push(next, tentativeG + distanceToGoal);
+        }
+      }
+
+      if (options.allowPartial && closestIndex !== startIndex) {
+        return this.reconstructPath(cameFrom, closestIndex);
+      }
+
+      return null;
+    } catch (error) {
+      console.error("Error in PathfindingService.findPath:", error);
+      eventBus.emit("error.pathfinding.query", { start, goal, error });
+      return null;
+    }
+  }
+
+  /**
+   * Find a path to a tile roughly `distance` tiles away from a threat, preferring
+   * directions that lead directly away from it
+   */
+  findRetreatPath(
+    start: TilePoint,
+    threat: TilePoint,
+    distance: number,
+    options: PathQueryOptions = {}
+  ): TilePoint[] | null {
+    try {
+      const awayAngle = Math.atan2(start.y - threat.y, start.x - threat.x);
+      const angleSteps = [0, 1, -1, 2, -2, 3, -3, 4];
+
+      for (const step of angleSteps) {
+        const angle = awayAngle + (step * Math.PI) / 8;
+        const candidate = {
+          x: Math.round(threat.x + Math.cos(angle) * distance),
+          y: Math.round(threat.y + Math.sin(angle) * distance),
+        };
+
+        if (!this.isWalkable(candidate.x, candidate.y, options)) continue;
+
+        const path = this.findPath(start, candidate, { ...options, allowPartial: false });
+        if (path && path.length > 0) {
+          return path;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      console.error("Error in PathfindingService.findRetreatPath:", error);
+      eventBus.emit("error.pathfinding.query", { start, threat, error });
+      return null;
+    }
+  }
+
+  /**
+   * Whether every remaining step of a cached path is still walkable. Paths are
+   * invalidated when an entity steps into them.
+   */
+  isPathClear(path: TilePoint[], options: PathQueryOptions = {}): boolean {
+    return path.every((tile) => this.isWalkable(tile.x, tile.y, options));
+  }
+
+  private heuristic(a: TilePoint, b: TilePoint): number {
+    return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+  }
+
+  private reconstructPath(cameFrom: Map<number, number>, endIndex: number): TilePoint[] {
+    const path: TilePoint[] = [];
+    let current: number | undefined = endIndex;
+
+    while (current !== undefined && cameFrom.has(current)) {
+      path.unshift(this.fromIndex(current));
+      current = cameFrom.get(current);
+    }
+
+    return path;
+  }
+
+  private toIndex(tileX: number, tileY: number): number {
+    return tileY * this.width + tileX;
+  }
+
+  private fromIndex(index: number): TilePoint {
+    return { x: index % this.width, y: Math.floor(index / this.width) };
+  }
+}
+
+// Create and export singleton instance
+export const PathfindingService = new PathfindingServiceClass();
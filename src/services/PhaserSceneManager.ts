@@ -2,6 +2,7 @@ import { eventBus } from "../utils/EventBus";
 import { useGameStore } from "../stores/gameStore";
 import { MapTransitionScene } from "@/scenes/MapTransitionScene";
 import { BootScene } from "@/scenes/BootScene";
+import { CharacterSelectScene } from "@/scenes/CharacterSelectScene";
 import { GameScene } from "@/scenes/GameScene";
 
 /**
@@ -142,6 +143,7 @@ class PhaserSceneManagerService {
 
     // If a scene already exists with these keys, don't add them again
     const bootExists = game.scene.getScene("boot");
+    const characterSelectExists = game.scene.getScene("character-select");
     const gameExists = game.scene.getScene("game");
     const transitionExists = game.scene.getScene("map-transition");
 
@@ -150,6 +152,10 @@ class PhaserSceneManagerService {
       game.scene.add("boot", BootScene);
     }
 
+    if (!characterSelectExists) {
+      game.scene.add("character-select", CharacterSelectScene);
+    }
+
     if (!gameExists) {
       game.scene.add("game", GameScene);
     }
@@ -233,18 +233,18 @@ class QuestRewardService {
         addedToInventory++;
         eventBus.emit("ui.message.show", `Received ${this.getItemDisplayName(itemName)}!`);
       } else {
-        // Inventory full, drop to ground
+        // Too heavy to carry, drop to ground
         if (this.dropItemToGround(itemInstance)) {
           droppedToGround++;
           eventBus.emit(
             "ui.message.show",
-            `${this.getItemDisplayName(itemName)} dropped on ground (inventory full)!`
+            `${this.getItemDisplayName(itemName)} dropped on ground (too heavy to carry)!`
           );
         } else {
           console.error(`Failed to drop item ${itemName} to ground`);
           eventBus.emit(
             "ui.message.show",
-            `Failed to receive ${this.getItemDisplayName(itemName)} (inventory full, ground drop failed)!`
+            `Failed to receive ${this.getItemDisplayName(itemName)} (too heavy to carry, ground drop failed)!`
           );
         }
       }
@@ -281,7 +281,12 @@ class QuestRewardService {
         playerY + offsetY,
         itemInstance.instanceId,
         itemInstance.bonusStats,
-        itemInstance.quantity || 1
+        itemInstance.quantity || 1,
+        {
+          rarity: itemInstance.rarity,
+          itemLevel: itemInstance.itemLevel,
+          affixes: itemInstance.affixes,
+        }
       );
 
       if (worldItem) {
@@ -0,0 +1,140 @@
+// src/services/RandomService.ts
+import { eventBus } from "@/utils/EventBus";
+
+/**
+ * Independent random sequences, so e.g. extra AI rolls don't shift which loot drops
+ */
+export type RandomStreamName = "loot" | "spawn" | "combat" | "ai" | "interaction";
+
+const STREAM_NAMES: RandomStreamName[] = ["loot", "spawn", "combat", "ai", "interaction"];
+
+/**
+ * Deterministic PRNG (mulberry32). The same seed always produces the same sequence.
+ */
+export class RandomStream {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Float in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max], both inclusive
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle in place
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+/**
+ * Derive a per-stream seed from the session seed and the stream name (FNV-1a)
+ */
+const deriveStreamSeed = (seed: number, name: string): number => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash;
+};
+
+/**
+ * Central seedable randomness for gameplay rolls (drops, spawns, combat, AI).
+ * The session seed comes from `?seed=` in the URL when present so a seed from a
+ * bug report replays the same rolls; the F3 debug overlay shows the session seed.
+ * Purely visual effects still use Math.random.
+ */
+class RandomServiceClass {
+  private seed: number = 0;
+  private streams = new Map<RandomStreamName, RandomStream>();
+
+  constructor() {
+    this.setSeed(this.getInitialSeed());
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Reseed every stream; each stream restarts its sequence from the new seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+
+    STREAM_NAMES.forEach((name) => {
+      this.streams.set(name, new RandomStream(deriveStreamSeed(this.seed, name)));
+    });
+
+    eventBus.emit("random.seed.changed", { seed: this.seed });
+  }
+
+  stream(name: RandomStreamName): RandomStream {
+    return this.streams.get(name)!;
+  }
+
+  private getInitialSeed(): number {
+    try {
+      const seedParam =
+        typeof window !== "undefined"
+          ? new URLSearchParams(window.location.search).get("seed")
+          : null;
+      // An empty ?seed= means no seed rather than seed 0
+      const parsed = seedParam?.trim() ? Number(seedParam) : NaN;
+
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    } catch (error) {
+      console.error("Error reading seed from URL:", error);
+    }
+
+    return (Date.now() ^ Math.floor(Math.random() * 0xffffffff)) >>> 0;
+  }
+}
+
+// Create and export singleton instance
+export const RandomService = new RandomServiceClass();
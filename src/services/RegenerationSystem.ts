@@ -0,0 +1,104 @@
+// src/services/RegenerationSystem.ts
+import { eventBus } from "@/utils/EventBus";
+import { useGameStore } from "@/stores/gameStore";
+
+const REGEN_TICK_INTERVAL = 1000; // 1 second
+const COMBAT_TIMEOUT = 6000; // Time without dealing or taking damage before leaving combat
+const OUT_OF_COMBAT_REGEN_MULTIPLIER = 3;
+
+/**
+ * Restores player health and mana on a fixed tick, driven by the calculated regen
+ * stats. Regeneration is boosted while the player is out of combat.
+ */
+class RegenerationSystemService {
+  private tickAccumulator: number = 0;
+  private lastCombatTime: number = 0;
+  private inCombat: boolean = false;
+
+  constructor() {
+    this.initialize();
+  }
+
+  initialize(): void {
+    // Dealing or taking damage puts the player in combat
+    eventBus.on("damage.dealt", this.handleCombatActivity.bind(this));
+    eventBus.on("playerCharacter.damage.taken", this.handleCombatActivity.bind(this));
+  }
+
+  /**
+   * Handles damage events by (re)entering combat
+   */
+  handleCombatActivity(): void {
+    this.lastCombatTime = Date.now();
+    this.setInCombat(true);
+  }
+
+  isInCombat(): boolean {
+    return this.inCombat;
+  }
+
+  update(_time: number, delta: number): void {
+    try {
+      if (this.inCombat && Date.now() - this.lastCombatTime >= COMBAT_TIMEOUT) {
+        this.setInCombat(false);
+      }
+
+      this.tickAccumulator += delta;
+
+      while (this.tickAccumulator >= REGEN_TICK_INTERVAL) {
+        this.tickAccumulator -= REGEN_TICK_INTERVAL;
+        this.tick();
+      }
+    } catch (error) {
+      console.error("Error in RegenerationSystem.update:", error);
+      eventBus.emit("error.regeneration.update", { error });
+    }
+  }
+
+  private tick(): void {
+    const store = useGameStore.getState();
+    const { playerCharacter, calculatedStats } = store;
+
+    // Dead players don't regenerate
+    if (playerCharacter.health <= 0) return;
+
+    const multiplier = this.inCombat ? 1 : OUT_OF_COMBAT_REGEN_MULTIPLIER;
+
+    if (
+      playerCharacter.health < calculatedStats.totalHealth &&
+      calculatedStats.totalHealthRegen > 0
+    ) {
+      const newHealth = Math.min(
+        calculatedStats.totalHealth,
+        playerCharacter.health + calculatedStats.totalHealthRegen * multiplier
+      );
+      store.updatePlayerHealth(newHealth);
+    }
+
+    if (playerCharacter.mana < calculatedStats.totalMana && calculatedStats.totalManaRegen > 0) {
+      store.updatePlayerMana(playerCharacter.mana + calculatedStats.totalManaRegen * multiplier);
+    }
+  }
+
+  private setInCombat(inCombat: boolean): void {
+    if (this.inCombat === inCombat) return;
+
+    this.inCombat = inCombat;
+    eventBus.emit("player.combat.changed", { inCombat });
+  }
+
+  reset(): void {
+    this.tickAccumulator = 0;
+    this.lastCombatTime = 0;
+    this.setInCombat(false);
+  }
+
+  dispose(): void {
+    // Clean up event listeners
+    eventBus.off("damage.dealt", this.handleCombatActivity);
+    eventBus.off("playerCharacter.damage.taken", this.handleCombatActivity);
+  }
+}
+
+// Create and export singleton instance
+export const regenerationSystem = new RegenerationSystemService();
@@ -0,0 +1,151 @@
+// src/services/SaveMigrations.ts
+import { SaveData, SaveSnapshot } from "@/types";
+
+/**
+ * Save data of unknown shape, read from storage or from an older version
+ */
+export type SaveRecord = Record<string, unknown>;
+
+export const isSaveRecord = (value: unknown): value is SaveRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Upgrade function that converts save data from the previous version to this one
+ */
+export type SaveMigrationFn = (data: unknown) => unknown;
+
+interface SaveMigration {
+  version: number; // Version this migration upgrades TO
+  description: string;
+  upgrade: SaveMigrationFn;
+}
+
+/**
+ * Registry of save-format migrations. Every save-format version registers the
+ * function that upgrades data from the version before it, and loaders walk a
+ * snapshot through the chain until it reaches the current version.
+ */
+class SaveMigrationRegistryClass {
+  private migrations: Map<number, SaveMigration> = new Map();
+
+  /**
+   * Register the upgrade from `version - 1` to `version`
+   */
+  register(version: number, description: string, upgrade: SaveMigrationFn): void {
+    if (this.migrations.has(version)) {
+      console.warn(`Save migration to version ${version} is already registered, replacing it`);
+    }
+
+    this.migrations.set(version, { version, description, upgrade });
+  }
+
+  /**
+   * The current save-format version is the newest registered migration
+   */
+  getCurrentVersion(): number {
+    return Math.max(0, ...Array.from(this.migrations.keys()));
+  }
+
+  hasMigration(version: number): boolean {
+    return this.migrations.has(version);
+  }
+
+  /**
+   * Walk a stored snapshot from its version up to the current version.
+   * Snapshots without a version are treated as version 0 (pre-versioning dumps).
+   */
+  migrate(stored: unknown): SaveSnapshot {
+    const currentVersion = this.getCurrentVersion();
+    const versioned = isSaveRecord(stored) && typeof stored.version === "number" ? stored : null;
+
+    let version = typeof versioned?.version === "number" ? versioned.version : 0;
+    let data = versioned ? versioned.data : stored;
+
+    if (version > currentVersion) {
+      throw new Error(`Save version ${version} is newer than supported version ${currentVersion}`);
+    }
+
+    while (version < currentVersion) {
+      const migration = this.migrations.get(version + 1);
+      if (!migration) {
+        throw new Error(`No save migration registered from version ${version} to ${version + 1}`);
+      }
+
+      data = migration.upgrade(data);
+      version = migration.version;
+    }
+
+    return {
+      version,
+      savedAt: typeof versioned?.savedAt === "number" ? versioned.savedAt : Date.now(),
+      // Shape is checked by SaveValidator before the snapshot is used
+      data: data as SaveData,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const SaveMigrationRegistry = new SaveMigrationRegistryClass();
+
+// =============================================================================
+// REGISTERED MIGRATIONS
+// =============================================================================
+
+/**
+ * v1: first versioned format. Version 0 is the legacy GameStateData dump of the
+ * store, which kept learned abilities under the old spellStore's spellState.
+ */
+SaveMigrationRegistry.register(1, "Wrap legacy GameStateData dumps into SaveData", (legacy) => {
+  const state = isSaveRecord(legacy) ? legacy : {};
+  const abilityState = isSaveRecord(state.abilityState) ? state.abilityState : {};
+  const spellState = isSaveRecord(state.spellState) ? state.spellState : {};
+  const outfitState = isSaveRecord(state.outfitState) ? state.outfitState : {};
+
+  const learnedAbilities = Array.isArray(abilityState.learnedAbilities)
+    ? abilityState.learnedAbilities
+    : Array.isArray(spellState.learnedSpells)
+      ? spellState.learnedSpells
+      : [];
+
+  return {
+    playerCharacter: state.playerCharacter,
+    quests: state.quests || { active: [], completed: [], completionHistory: {} },
+    killedCreatures: state.killedCreatures || {},
+    learnedAbilities: [...learnedAbilities],
+    unlockedOutfitIds: outfitState.unlockedOutfitIds || ["default"],
+    currentOutfit: outfitState.currentOutfit || "default",
+    currentTint: outfitState.currentTint ?? 0xffffff,
+    setCollections: state.setCollections || {},
+    currentMap: state.currentMap || "game-map",
+  };
+});
+
+/**
+ * v2: mana became a tracked resource. Older saves start with a full pool, which
+ * applySnapshot clamps to the character's total mana once stats are recalculated.
+ */
+SaveMigrationRegistry.register(2, "Track current mana on the player character", (data) => {
+  if (!isSaveRecord(data) || !isSaveRecord(data.playerCharacter)) return data;
+
+  const { playerCharacter } = data;
+  return {
+    ...data,
+    playerCharacter: {
+      ...playerCharacter,
+      mana: typeof playerCharacter.mana === "number" ? playerCharacter.mana : 100,
+    },
+  };
+});
+
+/**
+ * v3: hired companions are saved. Older saves were written before the hired
+ * companion was persisted, so they load without one.
+ */
+SaveMigrationRegistry.register(3, "Save the hired companion", (data) => {
+  if (!isSaveRecord(data)) return data;
+
+  return {
+    ...data,
+    hiredCompanionId: typeof data.hiredCompanionId === "string" ? data.hiredCompanionId : null,
+  };
+});
@@ -0,0 +1,554 @@
+// src/services/SaveService.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { AbilityDictionary } from "./AbilityDictionaryService";
+import { CompanionService } from "./CompanionService";
+import { LocalStorageBackend } from "./SaveStorage";
+import { SaveMigrationRegistry } from "./SaveMigrations";
+import { SaveValidator } from "./SaveValidator";
+import { createInitialPlayerState } from "../stores/components/playerStore";
+import {
+  CharacterRoster,
+  CharacterSlot,
+  Classes,
+  SaveData,
+  SaveSnapshot,
+  SaveStorageBackend,
+} from "@/types";
+
+export const CURRENT_SAVE_VERSION = SaveMigrationRegistry.getCurrentVersion();
+
+// Legacy single-slot key; character snapshots live under `${SAVE_KEY}.<characterId>`
+const SAVE_KEY = "rpg-game-react.save";
+const ROSTER_KEY = "rpg-game-react.characters";
+export const MAX_CHARACTER_SLOTS = 6;
+export const MAX_CHARACTER_NAME_LENGTH = 20;
+const AUTO_SAVE_INTERVAL = 30000; // 30 seconds
+
+// Events that represent meaningful progress and should trigger an immediate save
+const SAVE_TRIGGER_EVENTS = [
+  "player.map.changed",
+  "quest.turned.in",
+  "player.levelup",
+  "player.class.changed",
+];
+
+/**
+ * Service for persisting the game store between sessions. Every character owns
+ * its own snapshot; a roster index lists the characters for the select screen.
+ */
+class SaveServiceClass {
+  private storage: SaveStorageBackend = new LocalStorageBackend();
+  private autoSaveTimer: ReturnType<typeof setInterval> | null = null;
+  private eventUnsubscribers: (() => void)[] = [];
+  private activeCharacterId: string | null = null;
+
+  /**
+   * Swap the storage backend (e.g. MemoryStorageBackend for tests)
+   */
+  setStorageBackend(storage: SaveStorageBackend): void {
+    this.storage = storage;
+  }
+
+  getStorageBackend(): SaveStorageBackend {
+    return this.storage;
+  }
+
+  /**
+   * Build a versioned snapshot from the current store state
+   */
+  createSnapshot(): SaveSnapshot {
+    const state = useGameStore.getState();
+
+    // Teleport positions only matter mid-transition and must not survive a reload
+    const playerCharacter = { ...state.playerCharacter };
+    delete playerCharacter.teleportPosition;
+
+    const data: SaveData = {
+      playerCharacter,
+      quests: state.quests,
+      killedCreatures: state.killedCreatures,
+      learnedAbilities: state.getLearnedAbilities(),
+      unlockedOutfitIds: [...state.outfitState.unlockedOutfitIds],
+      currentOutfit: state.outfitState.currentOutfit,
+      currentTint: state.outfitState.currentTint,
+      setCollections: state.setCollections,
+      currentMap: state.currentMap,
+      hiredCompanionId: CompanionService.getHiredCompanionId(),
+    };
+
+    return {
+      version: CURRENT_SAVE_VERSION,
+      savedAt: Date.now(),
+      data,
+    };
+  }
+
+  /**
+   * Serialize the current store state and write it to the active character's slot
+   */
+  save(): boolean {
+    if (!this.activeCharacterId) {
+      console.warn("No active character, skipping save");
+      return false;
+    }
+
+    try {
+      const characterId = this.activeCharacterId;
+      const snapshot = this.createSnapshot();
+      this.storage.write(this.getCharacterKey(characterId), JSON.stringify(snapshot));
+      this.updateRosterSlot(characterId, snapshot.data, snapshot.savedAt);
+
+      eventBus.emit("save.written", {
+        characterId,
+        version: snapshot.version,
+        savedAt: snapshot.savedAt,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error saving game:", error);
+      eventBus.emit("error.save.write", { error });
+      eventBus.emit("save.failed", { characterId: this.activeCharacterId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Read a character's stored snapshot, migrate it to the current version and
+   * validate it without applying it
+   */
+  load(characterId: string | null = this.activeCharacterId): SaveSnapshot | null {
+    if (!characterId) return null;
+
+    try {
+      const raw = this.storage.read(this.getCharacterKey(characterId));
+      if (!raw) return null;
+
+      const stored = JSON.parse(raw);
+      if (!stored || typeof stored !== "object") {
+        console.warn("Ignoring malformed save snapshot");
+        return null;
+      }
+
+      const snapshot = SaveMigrationRegistry.migrate(stored);
+      const result = SaveValidator.validate(snapshot.data);
+
+      if (!result.valid || !result.data) {
+        console.warn("Rejected invalid save snapshot:", result.errors);
+        eventBus.emit("save.rejected", { errors: result.errors });
+        return null;
+      }
+
+      if (result.repairs.length > 0) {
+        console.warn("Repaired save snapshot:", result.repairs);
+        eventBus.emit("save.repaired", { repairs: result.repairs });
+      }
+
+      return { ...snapshot, data: result.data };
+    } catch (error) {
+      console.error("Error loading save:", error);
+      eventBus.emit("error.save.read", { error });
+      return null;
+    }
+  }
+
+  /**
+   * Load a character's stored snapshot and apply it to the store
+   * @returns True if a save was found and restored
+   */
+  restore(characterId: string | null = this.activeCharacterId): boolean {
+    const snapshot = this.load(characterId);
+    if (!snapshot) return false;
+
+    try {
+      this.applySnapshot(snapshot);
+      return true;
+    } catch (error) {
+      console.error("Error restoring save:", error);
+      eventBus.emit("error.save.restore", { error });
+      return false;
+    }
+  }
+
+  /**
+   * Apply a snapshot to the store, replacing the persisted slices
+   */
+  applySnapshot(snapshot: SaveSnapshot): void {
+    const { data } = snapshot;
+    const state = useGameStore.getState();
+
+    // Rebuild outfit definitions so unlocked flags match the saved ids
+    const availableOutfits = { ...state.outfitState.availableOutfits };
+    Object.keys(availableOutfits).forEach((outfitId) => {
+      availableOutfits[outfitId] = {
+        ...availableOutfits[outfitId],
+        isUnlocked:
+          !!availableOutfits[outfitId].isDefault || data.unlockedOutfitIds.includes(outfitId),
+      };
+    });
+
+    const currentOutfit = availableOutfits[data.currentOutfit]?.isUnlocked
+      ? data.currentOutfit
+      : state.outfitState.currentOutfit;
+
+    useGameStore.setState({
+      playerCharacter: data.playerCharacter,
+      quests: data.quests,
+      killedCreatures: data.killedCreatures,
+      abilityState: {
+        ...state.abilityState,
+        learnedAbilities: [...data.learnedAbilities],
+        abilityCooldowns: {},
+      },
+      outfitState: {
+        ...state.outfitState,
+        availableOutfits,
+        unlockedOutfitIds: Object.keys(availableOutfits).filter(
+          (outfitId) => availableOutfits[outfitId].isUnlocked
+        ),
+        currentOutfit,
+        currentTint: data.currentTint,
+      },
+      setCollections: data.setCollections,
+      currentMap: data.currentMap,
+    });
+
+    // Keep derived state and singletons in sync with the restored data
+    AbilityDictionary.syncLearnedAbilities(data.learnedAbilities);
+    CompanionService.restoreHiredCompanion(data.hiredCompanionId);
+    const restored = useGameStore.getState();
+    restored.recalculateStats();
+    restored.updateInventoryCapacity();
+    useGameStore.getState().updatePlayerMana(data.playerCharacter.mana);
+
+    eventBus.emit("save.restored", { version: snapshot.version, savedAt: snapshot.savedAt });
+  }
+
+  hasSave(characterId: string | null = this.activeCharacterId): boolean {
+    if (!characterId) return false;
+    return this.storage.read(this.getCharacterKey(characterId)) !== null;
+  }
+
+  // =============================================================================
+  // CHARACTER SLOTS
+  // =============================================================================
+
+  getActiveCharacterId(): string | null {
+    return this.activeCharacterId;
+  }
+
+  /**
+   * List character slots, most recently played first
+   */
+  listCharacters(): CharacterSlot[] {
+    return [...this.readRoster().characters].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  getCharacter(characterId: string): CharacterSlot | null {
+    return this.readRoster().characters.find((slot) => slot.id === characterId) || null;
+  }
+
+  /**
+   * Create a new character with a fresh starting save
+   */
+  createCharacter(name: string, characterClass: Classes = Classes.KNIGHT): CharacterSlot | null {
+    try {
+      const roster = this.readRoster();
+      const characterName = this.sanitizeName(name);
+
+      if (!characterName) {
+        console.warn("Cannot create a character without a name");
+        return null;
+      }
+
+      if (roster.characters.length >= MAX_CHARACTER_SLOTS) {
+        console.warn(`All ${MAX_CHARACTER_SLOTS} character slots are in use`);
+        return null;
+      }
+
+      const snapshot: SaveSnapshot = {
+        version: CURRENT_SAVE_VERSION,
+        savedAt: Date.now(),
+        data: this.createNewCharacterData(characterClass),
+      };
+
+      const slot = this.buildSlot(this.generateCharacterId(), characterName, snapshot);
+      this.storage.write(this.getCharacterKey(slot.id), JSON.stringify(snapshot));
+      this.writeRoster({ ...roster, characters: [...roster.characters, slot] });
+
+      eventBus.emit("character.created", slot);
+      return slot;
+    } catch (error) {
+      console.error("Error creating character:", error);
+      eventBus.emit("error.save.character", { error });
+      return null;
+    }
+  }
+
+  /**
+   * Copy a character, including its save snapshot, into a new slot
+   */
+  duplicateCharacter(characterId: string): CharacterSlot | null {
+    try {
+      const roster = this.readRoster();
+      const source = roster.characters.find((slot) => slot.id === characterId);
+      const raw = this.storage.read(this.getCharacterKey(characterId));
+
+      if (!source || !raw) {
+        console.warn(`Character ${characterId} not found`);
+        return null;
+      }
+
+      if (roster.characters.length >= MAX_CHARACTER_SLOTS) {
+        console.warn(`All ${MAX_CHARACTER_SLOTS} character slots are in use`);
+        return null;
+      }
+
+      const now = Date.now();
+      const slot: CharacterSlot = {
+        ...source,
+        id: this.generateCharacterId(),
+        name: this.sanitizeName(`${source.name} Copy`),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      this.storage.write(this.getCharacterKey(slot.id), raw);
+      this.writeRoster({ ...roster, characters: [...roster.characters, slot] });
+
+      eventBus.emit("character.created", slot);
+      return slot;
+    } catch (error) {
+      console.error("Error duplicating character:", error);
+      eventBus.emit("error.save.character", { error });
+      return null;
+    }
+  }
+
+  renameCharacter(characterId: string, name: string): boolean {
+    const characterName = this.sanitizeName(name);
+    if (!characterName) return false;
+
+    const roster = this.readRoster();
+    if (!roster.characters.some((slot) => slot.id === characterId)) return false;
+
+    try {
+      this.writeRoster({
+        ...roster,
+        characters: roster.characters.map((slot) =>
+          slot.id === characterId ? { ...slot, name: characterName } : slot
+        ),
+      });
+    } catch (error) {
+      console.error("Error renaming character:", error);
+      eventBus.emit("error.save.character", { error });
+      return false;
+    }
+
+    eventBus.emit("character.renamed", { characterId, name: characterName });
+    return true;
+  }
+
+  /**
+   * Delete a character and its save snapshot
+   */
+  deleteCharacter(characterId: string): boolean {
+    const roster = this.readRoster();
+    if (!roster.characters.some((slot) => slot.id === characterId)) return false;
+
+    try {
+      this.writeRoster({
+        activeCharacterId:
+          roster.activeCharacterId === characterId ? null : roster.activeCharacterId,
+        characters: roster.characters.filter((slot) => slot.id !== characterId),
+      });
+    } catch (error) {
+      console.error("Error deleting character:", error);
+      eventBus.emit("error.save.character", { error });
+      return false;
+    }
+
+    this.storage.remove(this.getCharacterKey(characterId));
+
+    if (this.activeCharacterId === characterId) {
+      this.stopAutoSave();
+      this.activeCharacterId = null;
+    }
+
+    eventBus.emit("save.deleted", { characterId });
+    return true;
+  }
+
+  /**
+   * Make a character the active one and restore its save into the store
+   * @returns True if the character's save was restored
+   */
+  loadCharacter(characterId: string): boolean {
+    if (!this.getCharacter(characterId)) {
+      console.warn(`Character ${characterId} not found`);
+      return false;
+    }
+
+    if (!this.restore(characterId)) return false;
+
+    this.activeCharacterId = characterId;
+    try {
+      const roster = this.readRoster();
+      this.writeRoster({ ...roster, activeCharacterId: characterId });
+    } catch (error) {
+      // The character is loaded either way; only the last-played marker is lost
+      console.error("Error updating character roster:", error);
+      eventBus.emit("error.save.write", { error });
+    }
+
+    eventBus.emit("character.loaded", { characterId });
+    return true;
+  }
+
+  private getCharacterKey(characterId: string): string {
+    return `${SAVE_KEY}.${characterId}`;
+  }
+
+  private generateCharacterId(): string {
+    return `char_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  private sanitizeName(name: string): string {
+    return (name || "").trim().substring(0, MAX_CHARACTER_NAME_LENGTH);
+  }
+
+  /**
+   * Starting save data for a brand new character
+   */
+  private createNewCharacterData(characterClass: Classes): SaveData {
+    return {
+      playerCharacter: { ...createInitialPlayerState(), class: characterClass },
+      quests: { active: [], completed: [], completionHistory: {} },
+      killedCreatures: {},
+      learnedAbilities: [],
+      unlockedOutfitIds: ["default"],
+      currentOutfit: "default",
+      currentTint: 0xffffff,
+      setCollections: {},
+      currentMap: "game-map",
+      hiredCompanionId: null,
+    };
+  }
+
+  private buildSlot(characterId: string, name: string, snapshot: SaveSnapshot): CharacterSlot {
+    return {
+      id: characterId,
+      name,
+      ...this.summarize(snapshot.data),
+      createdAt: snapshot.savedAt,
+      updatedAt: snapshot.savedAt,
+    };
+  }
+
+  /**
+   * Fields of a roster slot that are derived from the character's save data
+   */
+  private summarize(
+    data: SaveData
+  ): Pick<CharacterSlot, "class" | "level" | "outfitId" | "outfitTint" | "currentMap"> {
+    return {
+      class: data.playerCharacter.class,
+      level: data.playerCharacter.skills.playerLevel?.level || 1,
+      outfitId: data.currentOutfit,
+      outfitTint: data.currentTint,
+      currentMap: data.currentMap,
+    };
+  }
+
+  private updateRosterSlot(characterId: string, data: SaveData, savedAt: number): void {
+    const roster = this.readRoster();
+
+    this.writeRoster({
+      ...roster,
+      characters: roster.characters.map((slot) =>
+        slot.id === characterId ? { ...slot, ...this.summarize(data), updatedAt: savedAt } : slot
+      ),
+    });
+  }
+
+  private readRoster(): CharacterRoster {
+    try {
+      const raw = this.storage.read(ROSTER_KEY);
+      if (!raw) return this.importLegacySave();
+
+      const roster = JSON.parse(raw);
+      return {
+        activeCharacterId: roster?.activeCharacterId || null,
+        characters: Array.isArray(roster?.characters) ? roster.characters : [],
+      };
+    } catch (error) {
+      console.error("Error reading character roster:", error);
+      eventBus.emit("error.save.read", { error });
+      return { activeCharacterId: null, characters: [] };
+    }
+  }
+
+  private writeRoster(roster: CharacterRoster): void {
+    this.storage.write(ROSTER_KEY, JSON.stringify(roster));
+    eventBus.emit("characters.changed", roster.characters);
+  }
+
+  /**
+   * Saves written before character slots existed become the first character
+   */
+  private importLegacySave(): CharacterRoster {
+    const roster: CharacterRoster = { activeCharacterId: null, characters: [] };
+
+    const raw = this.storage.read(SAVE_KEY);
+    if (!raw) return roster;
+
+    const characterId = this.generateCharacterId();
+    this.storage.write(this.getCharacterKey(characterId), raw);
+
+    const snapshot = this.load(characterId);
+    if (!snapshot) {
+      this.storage.remove(this.getCharacterKey(characterId));
+      return roster;
+    }
+
+    roster.characters.push(this.buildSlot(characterId, "Adventurer", snapshot));
+    this.writeRoster(roster);
+    this.storage.remove(SAVE_KEY);
+
+    return roster;
+  }
+
+  /**
+   * Save periodically, on key progress events and when the page unloads
+   */
+  startAutoSave(intervalMs: number = AUTO_SAVE_INTERVAL): void {
+    this.stopAutoSave();
+
+    this.autoSaveTimer = setInterval(() => this.save(), intervalMs);
+
+    this.eventUnsubscribers = SAVE_TRIGGER_EVENTS.map((event) =>
+      eventBus.on(event, () => this.save())
+    );
+
+    window.addEventListener("beforeunload", this.handleBeforeUnload);
+  }
+
+  stopAutoSave(): void {
+    if (this.autoSaveTimer) {
+      clearInterval(this.autoSaveTimer);
+      this.autoSaveTimer = null;
+    }
+
+    this.eventUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.eventUnsubscribers = [];
+
+    window.removeEventListener("beforeunload", this.handleBeforeUnload);
+  }
+
+  private handleBeforeUnload = (): void => {
+    this.save();
+  };
+}
+
+// Create and export singleton instance
+export const SaveService = new SaveServiceClass();
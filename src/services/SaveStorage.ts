@@ -0,0 +1,54 @@
+// src/services/SaveStorage.ts
+import { SaveStorageBackend } from "@/types";
+
+/**
+ * Storage backend that persists saves in the browser's localStorage
+ */
+export class LocalStorageBackend implements SaveStorageBackend {
+  read(key: string): string | null {
+    try {
+      return window.localStorage.getItem(key);
+    } catch (error) {
+      console.error(`Error reading save key ${key} from localStorage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Throws when the write fails (e.g. storage is full) so callers can report it
+   */
+  write(key: string, value: string): void {
+    window.localStorage.setItem(key, value);
+  }
+
+  remove(key: string): void {
+    try {
+      window.localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Error removing save key ${key} from localStorage:`, error);
+    }
+  }
+}
+
+/**
+ * Storage backend that keeps saves in memory only (used for tests and tooling)
+ */
+export class MemoryStorageBackend implements SaveStorageBackend {
+  private entries: Map<string, string> = new Map();
+
+  read(key: string): string | null {
+    return this.entries.has(key) ? this.entries.get(key)! : null;
+  }
+
+  write(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
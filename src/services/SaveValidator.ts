@@ -0,0 +1,188 @@
+// src/services/SaveValidator.ts
+import { ItemDictionary } from "./ItemDictionaryService";
+import { questService } from "./QuestService";
+import { AbilityDictionary } from "./AbilityDictionaryService";
+import { MapService } from "./MapService";
+import { getCompanionDefinition } from "../data/companions";
+import { isSaveRecord } from "./SaveMigrations";
+import {
+  ItemInstance,
+  PlayerCharacterEquipment,
+  Quest,
+  SaveData,
+  SaveValidationResult,
+} from "@/types";
+
+const EQUIPMENT_SLOTS: (keyof PlayerCharacterEquipment)[] = [
+  "weapon",
+  "shield",
+  "trinket",
+  "helmet",
+  "amulet",
+  "armor",
+  "backpack",
+];
+
+const DEFAULT_MAP = "game-map";
+
+/**
+ * Validates migrated save data against the current game content.
+ * Structural problems reject the save; references to content that no longer
+ * exists (items, quests, abilities, maps) are repaired by dropping them.
+ */
+export class SaveValidator {
+  static validate(data: unknown): SaveValidationResult {
+    const errors: string[] = [];
+    const repairs: string[] = [];
+
+    if (!isSaveRecord(data)) {
+      return { valid: false, data: null, errors: ["Save data is missing"], repairs };
+    }
+
+    const player = data.playerCharacter;
+    if (!isSaveRecord(player)) {
+      errors.push("Save is missing playerCharacter");
+    } else {
+      if (!Array.isArray(player.inventory)) errors.push("playerCharacter.inventory is invalid");
+      if (!isSaveRecord(player.equipment)) errors.push("playerCharacter.equipment is invalid");
+      if (!isSaveRecord(player.skills)) {
+        errors.push("playerCharacter.skills is invalid");
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, data: null, errors, repairs };
+    }
+
+    // The structure checked out; the repairs below cover the content
+    const save = data as unknown as SaveData;
+    const repaired: SaveData = {
+      ...save,
+      playerCharacter: {
+        ...save.playerCharacter,
+        inventory: this.repairInventory(save.playerCharacter.inventory, repairs),
+        equipment: this.repairEquipment(save.playerCharacter.equipment, repairs),
+      },
+      quests: this.repairQuests(save.quests, repairs),
+      learnedAbilities: this.repairLearnedAbilities(save.learnedAbilities, repairs),
+      currentMap: this.repairMap(save.currentMap, repairs),
+      hiredCompanionId: this.repairCompanion(save.hiredCompanionId, repairs),
+    };
+
+    return { valid: true, data: repaired, errors, repairs };
+  }
+
+  private static isKnownItem(itemInstance: ItemInstance | null | undefined): boolean {
+    return !!itemInstance?.templateId && ItemDictionary.getItem(itemInstance.templateId) !== null;
+  }
+
+  private static repairInventory(inventory: ItemInstance[], repairs: string[]): ItemInstance[] {
+    return this.repairItems(inventory, "inventory", repairs);
+  }
+
+  /**
+   * Drop unknown items, including those nested inside containers
+   */
+  private static repairItems(
+    items: ItemInstance[],
+    location: string,
+    repairs: string[]
+  ): ItemInstance[] {
+    return items
+      .filter((itemInstance) => {
+        if (this.isKnownItem(itemInstance)) return true;
+
+        repairs.push(`Removed unknown item "${itemInstance?.templateId}" from ${location}`);
+        return false;
+      })
+      .map((itemInstance) => this.repairContents(itemInstance, repairs));
+  }
+
+  private static repairContents(itemInstance: ItemInstance, repairs: string[]): ItemInstance {
+    if (!Array.isArray(itemInstance.contents)) return itemInstance;
+
+    return {
+      ...itemInstance,
+      contents: this.repairItems(itemInstance.contents, itemInstance.templateId, repairs),
+    };
+  }
+
+  private static repairEquipment(
+    equipment: PlayerCharacterEquipment,
+    repairs: string[]
+  ): PlayerCharacterEquipment {
+    // Equipped items are keyed by slot id, which isn't always a typed slot (e.g. "offhand"),
+    // so keep every slot the save has and only fill in missing typed ones
+    const repaired: Record<string, ItemInstance | null> = { ...equipment };
+    EQUIPMENT_SLOTS.forEach((slot) => {
+      repaired[slot] = repaired[slot] || null;
+    });
+
+    Object.entries(repaired).forEach(([slot, itemInstance]) => {
+      if (itemInstance && !this.isKnownItem(itemInstance)) {
+        repairs.push(`Unequipped unknown item "${itemInstance.templateId}" from ${slot}`);
+        repaired[slot] = null;
+      } else if (itemInstance) {
+        repaired[slot] = this.repairContents(itemInstance, repairs);
+      }
+    });
+
+    return repaired as unknown as PlayerCharacterEquipment;
+  }
+
+  private static repairQuests(quests: SaveData["quests"], repairs: string[]): SaveData["quests"] {
+    if (!quests || typeof quests !== "object") {
+      repairs.push("Reset missing quest state");
+      return { active: [], completed: [], completionHistory: {} };
+    }
+
+    const isKnownQuest = (quest: Quest) => {
+      if (questService.getQuestDefinition(quest?.id)) return true;
+
+      repairs.push(`Dropped unknown quest "${quest?.id}"`);
+      return false;
+    };
+
+    const completionHistory = { ...(quests.completionHistory || {}) };
+    Object.keys(completionHistory).forEach((questId) => {
+      if (!questService.getQuestDefinition(questId)) {
+        repairs.push(`Dropped completion history for unknown quest "${questId}"`);
+        delete completionHistory[questId];
+      }
+    });
+
+    return {
+      active: (quests.active || []).filter(isKnownQuest),
+      completed: (quests.completed || []).filter(isKnownQuest),
+      completionHistory,
+    };
+  }
+
+  private static repairLearnedAbilities(learnedAbilities: string[], repairs: string[]): string[] {
+    if (!Array.isArray(learnedAbilities)) {
+      repairs.push("Reset missing learned abilities");
+      return [];
+    }
+
+    return learnedAbilities.filter((abilityId) => {
+      if (AbilityDictionary.getAbility(abilityId)) return true;
+
+      repairs.push(`Forgot unknown ability "${abilityId}"`);
+      return false;
+    });
+  }
+
+  private static repairMap(mapKey: string, repairs: string[]): string {
+    if (MapService.getMap(mapKey)) return mapKey;
+
+    repairs.push(`Moved player from unknown map "${mapKey}" to ${DEFAULT_MAP}`);
+    return DEFAULT_MAP;
+  }
+
+  private static repairCompanion(companionId: string | null, repairs: string[]): string | null {
+    if (!companionId || getCompanionDefinition(companionId)) return companionId || null;
+
+    repairs.push(`Dismissed unknown companion "${companionId}"`);
+    return null;
+  }
+}
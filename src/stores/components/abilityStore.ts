@@ -4,7 +4,7 @@ import { eventBus } from "../../utils/EventBus";
 import { AbilityDictionary } from "../../services/AbilityDictionaryService";
 
 const initialAbilityState = {
-  learnedAbilities: [],
+  learnedAbilities: [] as string[],
   abilityCooldowns: {} as Record<string, number>,
 };
 
@@ -53,6 +53,14 @@ export const createAbilityStore: StateCreator<any & AbilityStore, [], [], Abilit
       return false; // Already learned
     }
 
+    // Check if the player's class may learn it
+    const playerClass = get().playerCharacter.class;
+    if (!AbilityDictionary.canClassLearnAbility(abilityId, playerClass)) {
+      console.warn(`Class ${playerClass} cannot learn ability: ${abilityId}`);
+      eventBus.emit("ability.learn.denied", { abilityId, playerClass });
+      return false;
+    }
+
     // Add to learned abilities
     set((state: any) => ({
       abilityState: {
@@ -161,7 +169,13 @@ export const createAbilityStore: StateCreator<any & AbilityStore, [], [], Abilit
   // Utility methods
   canUseAbility: (abilityId: string) => {
     const store = get();
-    return store.isAbilityLearned(abilityId) && !store.isAbilityOnCooldown(abilityId);
+    const manaCost = AbilityDictionary.getAbility(abilityId)?.manaCost || 0;
+
+    return (
+      store.isAbilityLearned(abilityId) &&
+      !store.isAbilityOnCooldown(abilityId) &&
+      store.playerCharacter.mana >= manaCost
+    );
   },
 
   getAbilitiesCount: () => {
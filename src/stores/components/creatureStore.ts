@@ -1,10 +1,5 @@
 import { StateCreator } from "zustand";
-
-export interface CreatureKillData {
-  monsterId: string;
-  timesKilled: number;
-  firstKillTimestamp?: number;
-}
+import { CreatureKillData } from "@/types";
 
 export interface CreatureStore {
   // State
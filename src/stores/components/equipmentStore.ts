@@ -5,9 +5,13 @@ import {
   PlayerCharacterState,
   CalculatedStats,
   GameState,
+  DamageType,
 } from "../../types";
 import { ItemInstanceManager } from "../../utils/ItemInstanceManager";
 import { eventBus } from "../../utils/EventBus";
+import { getClassDefinition } from "../../data/classConfig";
+import { InventoryStore } from "./inventoryStore";
+import { DAMAGE_TYPE_RESIST_STATS, createEmptyResistances } from "../../data/damageTypes";
 
 export const calculateEquipmentBonuses = (equipment: PlayerCharacterEquipment) => {
   const bonuses = {
@@ -21,6 +25,7 @@ export const calculateEquipmentBonuses = (equipment: PlayerCharacterEquipment) =
     manaRegen: 0,
     capacity: 0,
     melee: 0,
+    resistances: createEmptyResistances(),
   };
 
   // Track equipped sets for set bonuses
@@ -43,6 +48,10 @@ export const calculateEquipmentBonuses = (equipment: PlayerCharacterEquipment) =
       bonuses.capacity += itemData.capacity || 0;
       bonuses.melee += itemData.melee || 0;
 
+      Object.entries(DAMAGE_TYPE_RESIST_STATS).forEach(([damageType, stat]) => {
+        bonuses.resistances[damageType as DamageType] += itemData[stat] || 0;
+      });
+
       // Track sets - store the actual item instances
       if (itemData.set) {
         if (!equippedSets[itemData.set]) {
@@ -70,6 +79,10 @@ export const calculateEquipmentBonuses = (equipment: PlayerCharacterEquipment) =
           bonuses.attackSpeed += itemData.setBonus.attackSpeed || 0;
           bonuses.capacity += itemData.setBonus.capacity || 0;
           bonuses.melee += itemData.setBonus.melee || 0;
+
+          Object.entries(DAMAGE_TYPE_RESIST_STATS).forEach(([damageType, stat]) => {
+            bonuses.resistances[damageType as DamageType] += itemData.setBonus?.[stat] || 0;
+          });
         }
       });
     }
@@ -82,8 +95,9 @@ export const calculateTotalStats = (
   playerCharacter: PlayerCharacterState,
   equipmentBonuses: any
 ): CalculatedStats => {
-  const baseHealth = 100;
-  const baseMana = 100;
+  const classDefinition = getClassDefinition(playerCharacter.class);
+  const baseHealth = classDefinition.baseHealth;
+  const baseMana = classDefinition.baseMana;
   const basePower = 1;
   const baseArmor = 1;
   const baseMoveSpeed = 250;
@@ -119,6 +133,7 @@ export const calculateTotalStats = (
     totalAttackSpeed: baseAttackSpeed + equipmentBonuses.attackSpeed + purchasedStats.attackSpeed,
     totalHealthRegen: baseHealthRegen + equipmentBonuses.healthRegen + purchasedStats.hpRegen,
     totalManaRegen: baseManaRegen + equipmentBonuses.manaRegen + purchasedStats.mpRegen,
+    totalResistances: { ...createEmptyResistances(), ...equipmentBonuses.resistances },
     equipmentBonuses: {
       health: equipmentBonuses.health,
       mana: equipmentBonuses.mana,
@@ -140,7 +155,7 @@ export interface EquipmentStore {
 }
 
 export const createEquipmentStore: StateCreator<
-  GameState & EquipmentStore,
+  GameState & EquipmentStore & InventoryStore,
   [],
   [],
   EquipmentStore
@@ -158,18 +173,28 @@ export const createEquipmentStore: StateCreator<
       const equipmentBonuses = calculateEquipmentBonuses(equipment);
       const calculatedStats = calculateTotalStats(newState.playerCharacter, equipmentBonuses);
 
+      // Removing mana gear must not leave the player above the new cap
+      newState.playerCharacter.mana = Math.min(
+        newState.playerCharacter.mana,
+        calculatedStats.totalMana
+      );
+
       eventBus.emit("equipment.changed", {
         equipment,
         source: source || "unknown",
       });
       eventBus.emit("player.stats.updated", calculatedStats);
       eventBus.emit("player.moveSpeed.updated", calculatedStats.totalMoveSpeed);
+      eventBus.emit("playerCharacter.mana.changed", newState.playerCharacter.mana);
 
       return {
         ...newState,
         calculatedStats,
       };
     });
+
+    // Equipped gear can carry capacity (and, for a backpack, carried weight)
+    get().updateInventoryCapacity();
   },
 
   recalculateStats: () => {
@@ -177,7 +202,10 @@ export const createEquipmentStore: StateCreator<
     const equipmentBonuses = calculateEquipmentBonuses(state.playerCharacter.equipment);
     const calculatedStats = calculateTotalStats(state.playerCharacter, equipmentBonuses);
 
-    set({ calculatedStats });
+    const mana = Math.min(state.playerCharacter.mana, calculatedStats.totalMana);
+
+    set({ calculatedStats, playerCharacter: { ...state.playerCharacter, mana } });
     eventBus.emit("player.stats.updated", calculatedStats);
+    eventBus.emit("playerCharacter.mana.changed", mana);
   },
 });
@@ -1,13 +1,47 @@
 import { StateCreator } from "zustand";
-import { GameState, ItemInstance } from "../../types";
+import { ContainerPath, GameState, ItemInstance, PlayerCharacterState } from "../../types";
 import { ItemDictionary } from "../../services/ItemDictionaryService";
 import { eventBus } from "../../utils/EventBus";
+import { ItemInstanceManager } from "../../utils/ItemInstanceManager";
+import { ContainerManager } from "../../utils/ContainerManager";
+import { calculateEquipmentBonuses } from "./equipmentStore";
+import { BASE_CARRY_CAPACITY, getCarryLimit, getEncumbranceLevel } from "../../data/encumbrance";
+
+export interface AddItemOptions {
+  // Skip the weight check, for items that were already being carried (e.g. swapped out of equipment)
+  ignoreWeight?: boolean;
+}
+
+/**
+ * Total weight of the inventory and everything equipped, container contents included
+ */
+export const calculateCarriedWeight = (playerCharacter: PlayerCharacterState): number => {
+  const inventoryWeight = playerCharacter.inventory.reduce(
+    (total, item) => total + ItemInstanceManager.getTotalWeight(item),
+    0
+  );
+  const equipmentWeight = Object.values(playerCharacter.equipment).reduce(
+    (total, item) => total + (item ? ItemInstanceManager.getTotalWeight(item) : 0),
+    0
+  );
+
+  // Rounded so stacks of light items don't leave float noise
+  return Math.round((inventoryWeight + equipmentWeight) * 10) / 10;
+};
 
 export interface InventoryStore {
   getItemInstanceById: (instanceId: string) => ItemInstance | undefined;
-  addItemInstanceToInventory: (itemInstance: ItemInstance) => boolean;
+  canCarryItem: (itemInstance: ItemInstance) => boolean;
+  addItemInstanceToInventory: (itemInstance: ItemInstance, options?: AddItemOptions) => boolean;
   removeItemInstanceFromInventory: (instanceId: string, quantity?: number) => boolean;
-  moveItemInstance: (fromInstanceId: string, toSlot: string, toInstanceId?: string) => boolean;
+  splitItemStack: (instanceId: string, quantity: number) => ItemInstance | null;
+  mergeItemStacks: (fromInstanceId: string, toInstanceId: string) => boolean;
+  moveItemInstance: (
+    fromInstanceId: string,
+    toSlot: string,
+    toInstanceId?: string,
+    toPath?: ContainerPath
+  ) => boolean;
   updateInventoryCapacity: () => void;
 }
 
@@ -20,10 +54,8 @@ export const createInventoryStore: StateCreator<
   getItemInstanceById: (instanceId: string) => {
     const state = get();
 
-    // Check inventory first
-    const inventoryItem = state.playerCharacter.inventory.find(
-      (item) => item.instanceId === instanceId
-    );
+    // Check inventory first, including items inside containers
+    const inventoryItem = ContainerManager.findItem(state.playerCharacter, instanceId)?.item;
     if (inventoryItem) return inventoryItem;
 
     // Check equipment
@@ -37,41 +69,89 @@ export const createInventoryStore: StateCreator<
     return undefined;
   },
 
-  addItemInstanceToInventory: (itemInstance: ItemInstance) => {
+  canCarryItem: (itemInstance: ItemInstance) => {
+    const { playerCharacter } = get();
+    const newWeight =
+      calculateCarriedWeight(playerCharacter) + ItemInstanceManager.getTotalWeight(itemInstance);
+    return newWeight <= getCarryLimit(playerCharacter.maxCapacity);
+  },
+
+  addItemInstanceToInventory: (itemInstance: ItemInstance, options?: AddItemOptions) => {
     const state = get();
     const itemData = ItemDictionary.getItem(itemInstance.templateId);
 
-    if (itemData?.stackable) {
-      const existingItemIndex = state.playerCharacter.inventory.findIndex(
-        (item) => item.templateId === itemInstance.templateId
-      );
+    // Containers picked up from the world arrive without their contents list
+    if (itemData?.containerSlots && !itemInstance.contents) {
+      itemInstance = { ...itemInstance, contents: [] };
+    }
 
-      if (existingItemIndex !== -1) {
-        const newInventory = [...state.playerCharacter.inventory];
-        const existingItem = newInventory[existingItemIndex];
-        const currentQuantity = existingItem.quantity || 1;
-        const addingQuantity = itemInstance.quantity || 1;
-
-        newInventory[existingItemIndex] = {
-          ...existingItem,
-          quantity: currentQuantity + addingQuantity,
-        };
-
-        set((state) => ({
-          playerCharacter: {
-            ...state.playerCharacter,
-            inventory: newInventory,
-          },
-        }));
-
-        get().updateInventoryCapacity();
-        eventBus.emit("inventory.item.added", {
-          itemInstance: newInventory[existingItemIndex],
-          stacked: true,
-        });
+    if (!options?.ignoreWeight && !get().canCarryItem(itemInstance)) {
+      eventBus.emit("inventory.item.refused", {
+        itemInstance,
+        name: itemData?.name || itemInstance.templateId,
+        reason: "weight",
+        weight: ItemInstanceManager.getTotalWeight(itemInstance),
+        current: state.playerCharacter.currentCapacity,
+        max: state.playerCharacter.maxCapacity,
+      });
+      return false;
+    }
+
+    const maxStack = ItemInstanceManager.getMaxStack(itemInstance.templateId);
 
-        return true;
+    if (maxStack > 1) {
+      const newInventory = [...state.playerCharacter.inventory];
+      let remaining = itemInstance.quantity || 1;
+      let stacked = false;
+
+      // Top up existing stacks first
+      newInventory.forEach((existingItem, index) => {
+        const currentQuantity = existingItem.quantity || 1;
+        if (
+          remaining <= 0 ||
+          existingItem.templateId !== itemInstance.templateId ||
+          currentQuantity >= maxStack
+        ) {
+          return;
+        }
+
+        const added = Math.min(maxStack - currentQuantity, remaining);
+        newInventory[index] = { ...existingItem, quantity: currentQuantity + added };
+        remaining -= added;
+        stacked = true;
+      });
+
+      // Whatever is left starts new stacks, the first keeping the incoming instance
+      let newStack: ItemInstance | undefined;
+      while (remaining > 0) {
+        const quantity = Math.min(maxStack, remaining);
+        const stack: ItemInstance = newStack
+          ? ItemInstanceManager.createItemInstance(
+              itemInstance.templateId,
+              itemInstance.bonusStats,
+              quantity
+            )
+          : { ...itemInstance, quantity };
+
+        newStack = newStack || stack;
+        newInventory.push(stack);
+        remaining -= quantity;
       }
+
+      set((state) => ({
+        playerCharacter: {
+          ...state.playerCharacter,
+          inventory: newInventory,
+        },
+      }));
+
+      get().updateInventoryCapacity();
+      eventBus.emit("inventory.item.added", {
+        itemInstance: newStack || itemInstance,
+        stacked,
+      });
+
+      return true;
     }
 
     // Add as new item
@@ -95,105 +175,337 @@ export const createInventoryStore: StateCreator<
 
   removeItemInstanceFromInventory: (instanceId: string, quantity?: number) => {
     const state = get();
-    const itemIndex = state.playerCharacter.inventory.findIndex(
-      (item) => item.instanceId === instanceId
-    );
+    const location = ContainerManager.findItem(state.playerCharacter, instanceId);
 
-    if (itemIndex === -1) {
+    if (!location) {
       console.warn(`Item with instanceId ${instanceId} not found in inventory`);
       return false;
     }
 
-    const item = state.playerCharacter.inventory[itemIndex];
-    const newInventory = [...state.playerCharacter.inventory];
-
-    if (quantity && item.quantity && item.quantity > quantity) {
-      // Reduce quantity for stackable items
-      newInventory[itemIndex] = {
-        ...item,
-        quantity: item.quantity - quantity,
-      };
-    } else {
-      // Remove entire item
-      newInventory.splice(itemIndex, 1);
-    }
+    const item = location.item;
+    const available = item.quantity || 1;
+    if (quantity !== undefined && quantity <= 0) return false;
+
+    // Asking for more than the stack holds takes the whole stack
+    const removedQuantity = Math.min(quantity || available, available);
+
+    const updated = ContainerManager.updateContainer(
+      state.playerCharacter,
+      location.path,
+      (items) => {
+        const newItems = [...items];
+
+        if (removedQuantity < available) {
+          // Reduce quantity for stackable items
+          newItems[location.index] = {
+            ...item,
+            quantity: available - removedQuantity,
+          };
+        } else {
+          // Remove entire item
+          newItems.splice(location.index, 1);
+        }
+
+        return newItems;
+      }
+    );
+    if (!updated) return false;
 
     set((state) => ({
       playerCharacter: {
         ...state.playerCharacter,
-        inventory: newInventory,
+        ...updated,
       },
     }));
 
     get().updateInventoryCapacity();
     eventBus.emit("inventory.item.removed", {
       instanceId,
-      quantity: quantity || item.quantity || 1,
+      quantity: removedQuantity,
     });
 
     return true;
   },
 
-  moveItemInstance: (fromInstanceId: string, toSlot: string, toInstanceId?: string) => {
+  /**
+   * Take part of a stack off into a new stack placed right after it, in the same
+   * container. Returns the new stack.
+   */
+  splitItemStack: (instanceId: string, quantity: number) => {
     const state = get();
-    const fromItem = get().getItemInstanceById(fromInstanceId);
+    const location = ContainerManager.findItem(state.playerCharacter, instanceId);
+    if (!location) {
+      console.warn(`Item with instanceId ${instanceId} not found in inventory`);
+      return null;
+    }
+
+    const item = location.item;
+    const available = item.quantity || 1;
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity >= available) return null;
+
+    const refuse = (reason: string) => {
+      eventBus.emit("inventory.split.refused", { instanceId, quantity, reason });
+      return null;
+    };
+
+    const container = ContainerManager.getContainer(state.playerCharacter, location.path);
+    if (
+      container &&
+      (container.contents?.length || 0) >= ContainerManager.getSlotCount(container)
+    ) {
+      return refuse("There is no room to split that stack");
+    }
+
+    const newStack = ItemInstanceManager.createItemInstance(
+      item.templateId,
+      item.bonusStats,
+      quantity
+    );
+
+    const updated = ContainerManager.updateContainer(
+      state.playerCharacter,
+      location.path,
+      (items) => {
+        const newItems = [...items];
+        newItems[location.index] = { ...item, quantity: available - quantity };
+        newItems.splice(location.index + 1, 0, newStack);
+        return newItems;
+      }
+    );
+    if (!updated) return null;
 
-    if (!fromItem) {
+    set((state) => ({
+      playerCharacter: {
+        ...state.playerCharacter,
+        ...updated,
+      },
+    }));
+
+    eventBus.emit("inventory.stack.split", {
+      instanceId,
+      newInstanceId: newStack.instanceId,
+      quantity,
+    });
+
+    return newStack;
+  },
+
+  /**
+   * Move as much of one stack onto another of the same item as fits. The source
+   * stack is removed once it's empty.
+   */
+  mergeItemStacks: (fromInstanceId: string, toInstanceId: string) => {
+    const state = get();
+    const from = ContainerManager.findItem(state.playerCharacter, fromInstanceId);
+    const to = ContainerManager.findItem(state.playerCharacter, toInstanceId);
+    if (!from || !to || !ItemInstanceManager.canStackWith(from.item, to.item)) return false;
+
+    const maxStack = ItemInstanceManager.getMaxStack(to.item.templateId);
+    const fromQuantity = from.item.quantity || 1;
+    const toQuantity = to.item.quantity || 1;
+    const moved = Math.min(fromQuantity, maxStack - toQuantity);
+    if (moved <= 0) return false;
+
+    // Top up the target first, then shrink or remove the source; ids keep the paths valid
+    let updated: ReturnType<typeof ContainerManager.updateContainer> =
+      ContainerManager.updateContainer(state.playerCharacter, to.path, (items) =>
+        items.map((item) =>
+          item.instanceId === toInstanceId ? { ...item, quantity: toQuantity + moved } : item
+        )
+      );
+
+    updated =
+      updated &&
+      ContainerManager.updateContainer(updated, from.path, (items) =>
+        moved < fromQuantity
+          ? items.map((item) =>
+              item.instanceId === fromInstanceId
+                ? { ...item, quantity: fromQuantity - moved }
+                : item
+            )
+          : items.filter((item) => item.instanceId !== fromInstanceId)
+      );
+    if (!updated) return false;
+
+    const { inventory, equipment } = updated;
+    set((state) => ({
+      playerCharacter: {
+        ...state.playerCharacter,
+        inventory,
+        equipment,
+      },
+    }));
+
+    eventBus.emit("inventory.stack.merged", {
+      fromInstanceId,
+      toInstanceId,
+      quantity: moved,
+    });
+
+    return true;
+  },
+
+  /**
+   * Move an inventory item into the container at `toPath` ([] for the inventory itself),
+   * swapping places with `toInstanceId` if given, or into the container's next free slot.
+   * Stacks of the same item are merged instead of swapped.
+   */
+  moveItemInstance: (
+    fromInstanceId: string,
+    toSlot: string,
+    toInstanceId?: string,
+    toPath: ContainerPath = []
+  ) => {
+    const state = get();
+
+    // Equipping and unequipping go through setPlayerCharacterEquipment
+    if (toSlot !== "inventory") return false;
+
+    const from = ContainerManager.findItem(state.playerCharacter, fromInstanceId);
+    if (!from) {
       console.warn(`Source item ${fromInstanceId} not found`);
       return false;
     }
 
-    // Handle different move scenarios
-    if (toSlot === "inventory") {
-      // Moving to inventory
-      if (toInstanceId) {
-        // Swapping with inventory item
-        const toItem = get().getItemInstanceById(toInstanceId);
-        if (!toItem) return false;
-
-        const newInventory = state.playerCharacter.inventory.map((item) =>
-          item.instanceId === toInstanceId ? fromItem : item
-        );
-
-        set((state) => ({
-          playerCharacter: {
-            ...state.playerCharacter,
-            inventory: newInventory,
-          },
-        }));
-
-        eventBus.emit("inventory.item.moved", {
-          fromInstanceId,
-          toSlot,
-          toInstanceId,
-        });
+    const targetItems = ContainerManager.getContainerItems(state.playerCharacter, toPath);
+    if (!targetItems) return false;
 
-        return true;
-      }
+    const refuse = (reason: string) => {
+      eventBus.emit("inventory.move.refused", { fromInstanceId, toPath, reason });
+      return false;
+    };
+
+    // A container can't end up inside itself
+    if (toPath.includes(fromInstanceId)) {
+      return refuse("A container can't be put inside itself");
+    }
+
+    const toIndex = toInstanceId
+      ? targetItems.findIndex((item) => item.instanceId === toInstanceId)
+      : -1;
+    const toItem = toIndex !== -1 ? targetItems[toIndex] : undefined;
+    const samePath = from.path.join("/") === toPath.join("/");
+
+    // Dropping onto a stack of the same item tops it up; full stacks just swap
+    if (
+      toItem &&
+      ItemInstanceManager.canStackWith(from.item, toItem) &&
+      (toItem.quantity || 1) < ItemInstanceManager.getMaxStack(toItem.templateId)
+    ) {
+      return get().mergeItemStacks(fromInstanceId, toItem.instanceId);
     }
 
-    return false;
+    if (toItem && from.path.includes(toItem.instanceId)) {
+      return refuse("A container can't be put inside itself");
+    }
+
+    // Swaps are one for one; anything else needs a free slot. The inventory itself is
+    // only limited by weight.
+    const targetContainer = ContainerManager.getContainer(state.playerCharacter, toPath);
+    if (
+      !toItem &&
+      !samePath &&
+      targetContainer &&
+      targetItems.length >= ContainerManager.getSlotCount(targetContainer)
+    ) {
+      return refuse("That container is full");
+    }
+
+    let updated: ReturnType<typeof ContainerManager.updateContainer> = state.playerCharacter;
+
+    if (samePath) {
+      updated = ContainerManager.updateContainer(updated, toPath, (items) => {
+        const newItems = [...items];
+        if (toItem) {
+          newItems[from.index] = toItem;
+          newItems[toIndex] = from.item;
+        } else {
+          newItems.splice(from.index, 1);
+          newItems.push(from.item);
+        }
+        return newItems;
+      });
+    } else {
+      // Take the item out first, then place it; paths are by id so they still resolve
+      updated = ContainerManager.updateContainer(updated, from.path, (items) => {
+        const newItems = [...items];
+        if (toItem) {
+          newItems[from.index] = toItem;
+        } else {
+          newItems.splice(from.index, 1);
+        }
+        return newItems;
+      });
+
+      updated =
+        updated &&
+        ContainerManager.updateContainer(updated, toPath, (items) => {
+          const newItems = [...items];
+          const index = toItem
+            ? newItems.findIndex((item) => item.instanceId === toItem.instanceId)
+            : -1;
+          if (index !== -1) {
+            newItems[index] = from.item;
+          } else {
+            newItems.push(from.item);
+          }
+          return newItems;
+        });
+    }
+
+    if (!updated) return false;
+    const { inventory, equipment } = updated;
+
+    set((state) => ({
+      playerCharacter: {
+        ...state.playerCharacter,
+        inventory,
+        equipment,
+      },
+    }));
+
+    eventBus.emit("inventory.item.moved", {
+      fromInstanceId,
+      toSlot,
+      toInstanceId,
+      toPath,
+    });
+
+    return true;
   },
 
   updateInventoryCapacity: () => {
     const state = get();
-    const totalCapacity = state.playerCharacter.inventory.reduce((total, item) => {
-      const itemData = ItemDictionary.getItem(item.templateId);
-      const capacity = itemData?.capacity || 1;
-      const quantity = item.quantity || 1;
-      return total + capacity * quantity;
-    }, 0);
+    const previous = state.playerCharacter;
+    const equipmentBonuses = calculateEquipmentBonuses(previous.equipment);
+
+    const currentCapacity = calculateCarriedWeight(previous);
+    const maxCapacity = BASE_CARRY_CAPACITY + equipmentBonuses.capacity;
 
     set((state) => ({
       playerCharacter: {
         ...state.playerCharacter,
-        currentCapacity: totalCapacity,
+        currentCapacity,
+        maxCapacity,
       },
     }));
 
+    const encumbrance = getEncumbranceLevel(currentCapacity, maxCapacity);
+    const previousEncumbrance = getEncumbranceLevel(previous.currentCapacity, previous.maxCapacity);
+
     eventBus.emit("inventory.capacity.changed", {
-      current: totalCapacity,
-      max: state.playerCharacter.maxCapacity,
+      current: currentCapacity,
+      max: maxCapacity,
+      encumbrance: encumbrance.id,
     });
+
+    if (encumbrance.id !== previousEncumbrance.id) {
+      eventBus.emit("player.encumbrance.changed", {
+        level: encumbrance.id,
+        previousLevel: previousEncumbrance.id,
+        name: encumbrance.name,
+        moveSpeedMultiplier: encumbrance.moveSpeedMultiplier,
+      });
+    }
   },
 });
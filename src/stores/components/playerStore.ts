@@ -11,10 +11,18 @@ import { ItemInstanceManager } from "../../utils/ItemInstanceManager";
 import { eventBus } from "../../utils/EventBus";
 import { experienceSystem } from "../../services/ExperienceSystem";
 import { calculateEquipmentBonuses, calculateTotalStats } from "./equipmentStore";
-
-const initialPlayerState: PlayerCharacterState = {
+import { calculatePointsForNextLevel } from "../../utils/SkillProgressionFormula";
+import { createEmptyResistances } from "../../data/damageTypes";
+import { BASE_CARRY_CAPACITY } from "../../data/encumbrance";
+
+/**
+ * Build a fresh starting character. Every call creates new item instances so
+ * separate character slots never share instance ids.
+ */
+export const createInitialPlayerState = (): PlayerCharacterState => ({
   health: 30,
   maxHealth: 100,
+  mana: 100,
   lastAttackTime: 0,
   experience: 0,
   class: Classes.KNIGHT,
@@ -25,6 +33,7 @@ const initialPlayerState: PlayerCharacterState = {
     helmet: null,
     amulet: null,
     armor: null,
+    backpack: null,
   } as PlayerCharacterEquipment,
   inventory: [
     ItemInstanceManager.createItemInstance("sword1"),
@@ -43,6 +52,7 @@ const initialPlayerState: PlayerCharacterState = {
     ItemInstanceManager.createFoodInstance("chickenLegs", 3),
     ItemInstanceManager.createFoodInstance("dirtyFish", 2),
     ItemInstanceManager.createProductInstance("shinySkull", 2),
+    ItemInstanceManager.createItemInstance("lootPouch"),
   ],
   skills: {
     playerLevel: { level: 1, experience: 0, maxExperience: 100 },
@@ -53,8 +63,8 @@ const initialPlayerState: PlayerCharacterState = {
   },
   gold: 0,
   questPoints: 0,
-  maxCapacity: 40,
-  currentCapacity: 10,
+  maxCapacity: BASE_CARRY_CAPACITY,
+  currentCapacity: 0, // Recomputed from the carried items by updateInventoryCapacity
   purchasedStats: {
     hpRegen: 0,
     mpRegen: 0,
@@ -67,7 +77,7 @@ const initialPlayerState: PlayerCharacterState = {
     attackSpeed: 0,
     moveSpeed: 0,
   },
-};
+});
 
 const initialCalculatedStats: CalculatedStats = {
   totalHealth: 100,
@@ -78,6 +88,7 @@ const initialCalculatedStats: CalculatedStats = {
   totalAttackSpeed: 0,
   totalHealthRegen: 1,
   totalManaRegen: 2,
+  totalResistances: createEmptyResistances(),
   equipmentBonuses: {
     health: 0,
     mana: 0,
@@ -101,12 +112,17 @@ export interface PlayerStore {
   updatePlayerMap: (mapKey: string) => void;
   updatePlayerHealth: (health: number) => void;
   updatePlayerMaxHealth: (maxHealth: number) => void;
+  updatePlayerMana: (mana: number) => void;
+  spendPlayerMana: (amount: number) => boolean;
   updatePlayerExperience: (experience: number) => void;
   updatePlayerLevel: (level: number) => void;
   updatePlayerGold: (amount: number, isAdditive?: boolean) => void;
   updatePlayerQuestPoints: (amount: number, isAdditive?: boolean) => void;
   getPlayerQuestPoints: () => number;
 
+  // Class methods
+  setPlayerClass: (playerClass: Classes) => void;
+
   // Experience methods
   awardExperience: (amount: number, x?: number, y?: number) => void;
   getPlayerLevelFromExperience: () => any;
@@ -124,7 +140,7 @@ export const createPlayerStore: StateCreator<GameState & PlayerStore, [], [], Pl
   get
 ) => ({
   // Initial state
-  playerCharacter: initialPlayerState,
+  playerCharacter: createInitialPlayerState(),
   calculatedStats: initialCalculatedStats,
   currentMap: "game-map",
 
@@ -155,6 +171,29 @@ export const createPlayerStore: StateCreator<GameState & PlayerStore, [], [], Pl
     eventBus.emit("playerCharacter.maxHealth.changed", maxHealth);
   },
 
+  // Player mana methods
+  updatePlayerMana: (mana) => {
+    const totalMana = get().calculatedStats.totalMana;
+    const clampedMana = Math.max(0, Math.min(totalMana, mana));
+
+    set((state) => ({
+      playerCharacter: {
+        ...state.playerCharacter,
+        mana: clampedMana,
+      },
+    }));
+    eventBus.emit("playerCharacter.mana.changed", clampedMana);
+  },
+
+  spendPlayerMana: (amount) => {
+    const currentMana = get().playerCharacter.mana;
+    if (amount <= 0) return true;
+    if (currentMana < amount) return false;
+
+    get().updatePlayerMana(currentMana - amount);
+    return true;
+  },
+
   // Gold management
   updatePlayerGold: (goldValue: number, isAdditive: boolean = false) => {
     set((state) => {
@@ -198,6 +237,49 @@ export const createPlayerStore: StateCreator<GameState & PlayerStore, [], [], Pl
     return get().playerCharacter.questPoints;
   },
 
+  // Class methods
+  setPlayerClass: (playerClass: Classes) => {
+    const previousClass = get().playerCharacter.class;
+
+    set((state) => {
+      // Skill thresholds depend on class, so refresh the next-level requirement of
+      // every weapon skill (playerLevel follows the shared EXP_TABLE instead)
+      const skills = { ...state.playerCharacter.skills };
+      Object.keys(skills).forEach((skillId) => {
+        if (skillId === "playerLevel") return;
+
+        skills[skillId] = {
+          ...skills[skillId],
+          maxExperience: calculatePointsForNextLevel(skillId, skills[skillId].level, playerClass),
+        };
+      });
+
+      const playerCharacter = {
+        ...state.playerCharacter,
+        class: playerClass,
+        skills,
+      };
+
+      const equipmentBonuses = calculateEquipmentBonuses(playerCharacter.equipment);
+      const calculatedStats = calculateTotalStats(playerCharacter, equipmentBonuses);
+
+      // A class with lower base health or mana must not leave the player above the new caps
+      playerCharacter.health = Math.min(playerCharacter.health, calculatedStats.totalHealth);
+      playerCharacter.mana = Math.min(playerCharacter.mana, calculatedStats.totalMana);
+
+      eventBus.emit("player.stats.updated", calculatedStats);
+
+      return {
+        playerCharacter,
+        calculatedStats,
+      };
+    });
+
+    // Emitted once the store holds the new class, so listeners read it
+    eventBus.emit("player.class.changed", { playerClass, previousClass });
+    eventBus.emit("playerCharacter.mana.changed", get().playerCharacter.mana);
+  },
+
   // Experience methods
   updatePlayerExperience: (experience) => {
     set((state) => {
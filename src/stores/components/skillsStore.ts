@@ -34,21 +34,23 @@ export const createSkillsStore: StateCreator<GameState & SkillsStore, [], [], Sk
 
       const skill = skills[skillId];
       const oldLevel = skill.level;
+      const playerClass = state.playerCharacter.class;
 
       if (skillId === "playerLevel") {
         skill.experience = newExperience;
-        skill.maxExperience = calculatePointsForNextLevel(skillId, skill.level);
+        skill.maxExperience = calculatePointsForNextLevel(skillId, skill.level, playerClass);
       } else {
         let totalExp = 0;
         for (let level = 1; level < skill.level; level++) {
-          totalExp += calculatePointsForNextLevel(skillId, level);
+          totalExp += calculatePointsForNextLevel(skillId, level, playerClass);
         }
         totalExp += skill.experience;
 
         const newTotalExp = totalExp + (newExperience - skill.experience);
         const { level, currentExp, expForNextLevel } = calculateLevelFromExperience(
           skillId,
-          newTotalExp
+          newTotalExp,
+          playerClass
         );
 
         skill.level = level;
@@ -1,20 +1,24 @@
 import { StateCreator } from "zustand";
 import { GameState, SetCollectionData } from "../../types";
+import { eventBus } from "../../utils/EventBus";
 
 export interface UIStore {
   // UI state
   inputFocused: boolean;
   setCollections: SetCollectionData;
+  debugOverlay: boolean; // In-world debug info such as monster threat tables
 
   // UI methods
   setInputFocused: (focused: boolean) => void;
   updateSetCollections: (collections: SetCollectionData) => void;
+  toggleDebugOverlay: () => void;
 }
 
 export const createUIStore: StateCreator<GameState & UIStore, [], [], UIStore> = (set, get) => ({
   // Initial state
   inputFocused: false,
   setCollections: {},
+  debugOverlay: false,
 
   setInputFocused: (focused: boolean) => {
     set({ inputFocused: focused });
@@ -23,4 +27,10 @@ export const createUIStore: StateCreator<GameState & UIStore, [], [], UIStore> =
   updateSetCollections: (collections: SetCollectionData) => {
     set({ setCollections: collections });
   },
+
+  toggleDebugOverlay: () => {
+    const debugOverlay = !get().debugOverlay;
+    set({ debugOverlay });
+    eventBus.emit("debug.overlay.toggled", { visible: debugOverlay });
+  },
 });
@@ -0,0 +1,166 @@
+// ============================================================================
+// COMBAT SIMULATOR CLI
+// ============================================================================
+//
+// Usage: npm run simulate -- --monster <id> [--builds <file.json>] [--seed <n>]
+//          [--fights <n>] [--distance <px>] [--downtime <ms>] [--json]
+//
+// The builds file maps a build name to a SimulationBuild. Without one, a new
+// character with the starting sword is simulated.
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { Classes, CombatSimulationOptions, CombatSimulationResult, SimulationBuild } from "@/types";
+import { CombatSimulator } from "@/utils/CombatSimulator";
+import { MonsterDictionary } from "@/services/MonsterDictionaryService";
+
+const USAGE =
+  "Usage: npm run simulate -- --monster <id> [--builds <file.json>] [--seed <n>] " +
+  "[--fights <n>] [--distance <px>] [--downtime <ms>] [--json]";
+
+const STARTING_SKILLS: SimulationBuild["skills"] = {
+  playerLevel: { level: 1, experience: 0, maxExperience: 100 },
+  meleeWeapons: { level: 1, experience: 0, maxExperience: 15 },
+  archery: { level: 1, experience: 0, maxExperience: 15 },
+  magic: { level: 1, experience: 0, maxExperience: 15 },
+  shield: { level: 1, experience: 0, maxExperience: 20 },
+};
+
+// A new character's skills, with the sword from the starting inventory equipped
+const DEFAULT_BUILDS: Record<string, SimulationBuild> = {
+  starter: {
+    class: Classes.NONE,
+    equipment: {
+      weapon: { templateId: "sword1", instanceId: "sim-weapon" },
+      shield: null,
+      trinket: null,
+      helmet: null,
+      amulet: null,
+      armor: null,
+      backpack: null,
+    },
+    skills: STARTING_SKILLS,
+  },
+};
+
+interface CliArgs {
+  monsterId: string;
+  buildsPath?: string;
+  options: CombatSimulationOptions;
+  json: boolean;
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    throw new Error(`${flag} needs a number`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { monsterId: "", options: {}, json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    switch (flag) {
+      case "--monster":
+        args.monsterId = argv[++i] || "";
+        break;
+      case "--builds":
+        args.buildsPath = argv[++i];
+        break;
+      case "--seed":
+        args.options.seed = parseNumber(flag, argv[++i]);
+        break;
+      case "--fights":
+        args.options.fights = parseNumber(flag, argv[++i]);
+        break;
+      case "--distance":
+        args.options.distance = parseNumber(flag, argv[++i]);
+        break;
+      case "--downtime":
+        args.options.downtimeMs = parseNumber(flag, argv[++i]);
+        break;
+      case "--json":
+        args.json = true;
+        break;
+      default:
+        throw new Error(`Unknown option '${flag}'`);
+    }
+  }
+
+  if (!args.monsterId) {
+    throw new Error("--monster is required");
+  }
+
+  return args;
+}
+
+function loadBuilds(buildsPath?: string): Record<string, SimulationBuild> {
+  if (!buildsPath) return DEFAULT_BUILDS;
+
+  const builds = JSON.parse(readFileSync(resolve(process.cwd(), buildsPath), "utf8"));
+  if (!builds || typeof builds !== "object" || Array.isArray(builds)) {
+    throw new Error(`${buildsPath} should map build names to builds`);
+  }
+  return builds;
+}
+
+function formatResults(results: Record<string, CombatSimulationResult>): string {
+  const columns = ["Build", "Win %", "TTK (s)", "Dmg taken", "Dmg dealt", "DPS", "Kills/h"];
+  const rows = Object.entries(results).map(([name, result]) => [
+    name,
+    (result.winRate * 100).toFixed(1),
+    Number.isFinite(result.averageTimeToKillMs)
+      ? (result.averageTimeToKillMs / 1000).toFixed(2)
+      : "-",
+    result.averageDamageTaken.toFixed(1),
+    result.averageDamageDealt.toFixed(1),
+    result.playerDps.toFixed(2),
+    result.killsPerHour.toFixed(1),
+  ]);
+
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...rows.map((row) => row[index].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd();
+
+  return [formatRow(columns), ...rows.map(formatRow)].join("\n");
+}
+
+function main(): void {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    if (!MonsterDictionary.getMonster(args.monsterId)) {
+      throw new Error(
+        `Unknown monster '${args.monsterId}'. Known monsters: ${MonsterDictionary.getMonsterIds().join(", ")}`
+      );
+    }
+
+    const results = CombatSimulator.compare(
+      loadBuilds(args.buildsPath),
+      args.monsterId,
+      args.options
+    );
+
+    if (args.json) {
+      process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+      return;
+    }
+
+    const { seed, fights } = Object.values(results)[0] || {};
+    process.stdout.write(`${args.monsterId}: ${fights} fights per build, seed ${seed}\n\n`);
+    process.stdout.write(`${formatResults(results)}\n`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exitCode = 1;
+  }
+}
+
+main();
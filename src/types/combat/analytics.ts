@@ -0,0 +1,110 @@
+/**
+ * Damage breakdown and session combat analytics types
+ */
+
+import { AttackOutcome, DamageType } from "./index";
+
+/**
+ * Power, skill and level contributions to a player's damage, before rounding
+ */
+export interface PlayerDamageComponents {
+  powerComponent: number; // Equipped power × 0.75
+  skillComponent: number; // Weapon skill level × 0.2
+  levelComponent: number; // Player level × 0.05
+}
+
+/**
+ * What a target's defenses did to a hit
+ */
+export interface DamageMitigation {
+  elementalMultiplier: number; // Resistance (< 1) or weakness (> 1) to the damage type
+  elementalDamage: number; // Damage after the elemental modifier
+  armorReduction: number; // Damage removed by armor, 0 for magic
+  finalDamage: number;
+}
+
+/**
+ * What the player's defenses and kill count reduction did to an incoming hit
+ */
+export interface PlayerDamageTaken extends DamageMitigation {
+  killBonusPercent: number; // Negative: kill count damage reduction against the attacker
+  killBonusDamage: number; // Damage removed by the kill count reduction (negative)
+}
+
+/**
+ * Step-by-step account of how a hit's final damage was reached
+ */
+export interface DamageBreakdown extends PlayerDamageComponents {
+  baseDamage: number; // Ability or monster base damage, 0 for auto-attacks
+  rawDamage: number; // Rounded base + components (+ monster level bonus)
+  critMultiplier: number; // 1 unless the hit was critical
+  killBonusPercent: number; // Kill count damage bonus, or negative kill count reduction on hits taken
+  killBonusDamage: number; // Damage added (or removed, when negative) by the kill bonus
+  elementalMultiplier: number;
+  armorReduction: number;
+  damageType: DamageType;
+  isMagic: boolean;
+  finalDamage: number;
+}
+
+/**
+ * Payload of "combat.damage.dealt"
+ */
+export interface CombatDamageDealtEvent {
+  damage: number;
+  target: string; // Monster name
+  monsterType?: string;
+  attackType: string; // "auto-attack" or the ability name
+  abilityId?: string;
+  outcome?: AttackOutcome;
+  breakdown?: DamageBreakdown;
+}
+
+/**
+ * Payload of "combat.damage.received"
+ */
+export interface CombatDamageReceivedEvent {
+  damage: number;
+  source: string; // Monster name
+  monsterType?: string;
+  attackType: string; // Monster attack type or spell name
+  outcome?: AttackOutcome;
+  breakdown?: DamageBreakdown;
+}
+
+/**
+ * Session totals for one damage source (auto-attacks or an ability)
+ */
+export interface DamageSourceStats {
+  id: string; // "autoAttack" or the ability id
+  name: string;
+  hits: number;
+  misses: number; // Misses and dodges
+  criticalHits: number;
+  totalDamage: number;
+  highestHit: number;
+}
+
+/**
+ * Session totals for damage taken from one monster type
+ */
+export interface MonsterDamageTakenStats {
+  monsterType: string;
+  name: string;
+  hits: number;
+  dodges: number;
+  totalDamage: number;
+  highestHit: number;
+}
+
+export interface CombatAnalyticsSnapshot {
+  sessionStartedAt: number;
+  combatTimeMs: number; // Time spent in combat, gaps between fights excluded
+  totalDamageDealt: number;
+  totalDamageTaken: number;
+  dps: number; // Damage dealt per second of combat time
+  damageTakenPerSecond: number;
+  sources: DamageSourceStats[]; // Sorted by total damage, highest first
+  monsters: MonsterDamageTakenStats[]; // Sorted by total damage, highest first
+  lastHit: CombatDamageDealtEvent | null;
+}
@@ -11,8 +11,12 @@ export interface Ability {
   description: string;
   icon: string;
   cooldown: number; // in seconds
+  manaCost?: number; // mana spent per use
   damage: number;
+  damageType?: DamageType; // Default Physical
+  statusEffect?: StatusEffectApplication; // Applied to monsters hit by this ability
   healing?: number; // Add healing property for abilities like Light Healing
+  taunt?: boolean; // Monsters hit switch to the caster (top of their threat table)
   weaponType: string; // "melee", "archery", "magic", "general" (for learned abilities)
   requiredWeapon: string; // specific weapon ID or "any"
   skillId: string; // skill category this ability belongs to
@@ -43,6 +47,26 @@ export interface DamageEvent {
   damage: number;
 }
 
+/**
+ * How an attack roll resolved
+ */
+export type AttackOutcome = "hit" | "critical" | "miss" | "dodge";
+
+/**
+ * Percent chances that feed an attack roll
+ */
+export interface CombatRollChances {
+  hitChance: number; // Attacker's chance to hit
+  critChance: number; // Attacker's chance to crit on a hit
+  critMultiplier: number; // Damage multiplier for critical hits
+  dodgeChance: number; // Defender's chance to dodge a hit
+}
+
+export interface CombatRoll {
+  outcome: AttackOutcome;
+  damageMultiplier: number; // 0 when the attack missed or was dodged
+}
+
 export enum DamageType {
   PHYSICAL = "physyical",
   FIRE = "fire",
@@ -50,3 +74,69 @@ export enum DamageType {
   ENERGY = "energy",
   POISON = "poison",
 }
+
+/**
+ * Percentage modifiers per damage type. Positive values resist that damage type,
+ * negative values are weaknesses (e.g. -50 takes 50% extra damage).
+ */
+export type DamageResistances = Partial<Record<DamageType, number>>;
+
+/**
+ * Item stat keys that hold a resistance for each damage type
+ */
+export type ResistStatKey =
+  "physicalResist" | "fireResist" | "iceResist" | "energyResist" | "poisonResist";
+
+export enum StatusEffectType {
+  POISON = "poison",
+  BURN = "burn",
+  SLOW = "slow",
+  STUN = "stun",
+}
+
+/**
+ * How re-applying an effect that is already active behaves
+ */
+export enum StatusEffectStacking {
+  REFRESH = "refresh", // Reset the duration
+  STACK = "stack", // Add a stack (up to maxStacks) and reset the duration
+  IGNORE = "ignore", // Keep the existing effect untouched
+}
+
+/**
+ * Status effect template data
+ */
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string;
+  duration: number; // in milliseconds
+  stacking: StatusEffectStacking;
+  maxStacks?: number;
+  tickInterval?: number; // in milliseconds, for damage over time
+  tickDamage?: number; // damage per tick per stack
+  damageType?: DamageType;
+  moveSpeedMultiplier?: number; // e.g. 0.5 halves movement speed
+  preventsActions?: boolean; // stun
+}
+
+/**
+ * Request to apply a status effect, used by abilities and monster attacks
+ */
+export interface StatusEffectApplication {
+  type: StatusEffectType;
+  chance?: number; // 0-1, defaults to always
+  duration?: number; // overrides the definition duration
+}
+
+/**
+ * A status effect currently affecting an entity
+ */
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  stacks: number;
+  remaining: number; // in milliseconds
+  duration: number;
+  tickTimer: number;
+  sourceId?: string;
+}
@@ -0,0 +1,59 @@
+/**
+ * Headless combat simulation types, used for balance testing builds
+ */
+
+import { Classes, PlayerCharacterEquipment, PlayerCharacterSkills } from "../player/character";
+import { PurchasedStats } from "../player/stats";
+
+/**
+ * A player build to simulate: the same data the game store holds for the character
+ */
+export interface SimulationBuild {
+  class: Classes;
+  equipment: PlayerCharacterEquipment;
+  skills: PlayerCharacterSkills;
+  purchasedStats?: PurchasedStats;
+  abilityIds?: string[]; // Abilities used on cooldown, in priority order
+}
+
+export interface CombatSimulationOptions {
+  seed?: number; // Same seed, build and monster always give the same result
+  fights?: number; // Number of fights to average over (default 100)
+  distance?: number; // Distance between player and monster in pixels (default adjacent, 32)
+  downtimeMs?: number; // Time between kills (looting, finding the next monster) for kills per hour
+  maxFightDurationMs?: number; // Fights that run longer than this count as a loss
+  tickMs?: number; // Simulation step (default 50ms)
+}
+
+/**
+ * Outcome of a single simulated fight
+ */
+export interface SimulatedFight {
+  won: boolean;
+  durationMs: number;
+  damageDealt: number;
+  damageTaken: number;
+  autoAttacks: number;
+  misses: number;
+  criticalHits: number;
+  dodges: number; // Monster attacks the player dodged
+  abilityCasts: Record<string, number>;
+}
+
+/**
+ * Aggregated results over all simulated fights
+ */
+export interface CombatSimulationResult {
+  monsterId: string;
+  seed: number;
+  fights: number;
+  wins: number;
+  winRate: number; // 0-1
+  averageTimeToKillMs: number; // Over won fights only
+  averageDamageTaken: number; // Per fight
+  averageDamageDealt: number; // Per fight
+  killsPerHour: number;
+  playerDps: number;
+  attackCooldownMs: number;
+  fightLog: SimulatedFight[];
+}
@@ -0,0 +1,76 @@
+/**
+ * Save/load system types
+ */
+
+import { Classes, PlayerCharacterState } from "../player/character";
+import { QuestState } from "../quests/base";
+import { SetCollectionData } from "../items/base";
+import { CreatureKillData } from "../monsters";
+
+/**
+ * Persisted slice of the game store
+ */
+export interface SaveData {
+  playerCharacter: PlayerCharacterState;
+  quests: QuestState;
+  killedCreatures: Record<string, CreatureKillData>;
+  learnedAbilities: string[];
+  unlockedOutfitIds: string[];
+  currentOutfit: string;
+  currentTint: number;
+  setCollections: SetCollectionData;
+  currentMap: string;
+  hiredCompanionId: string | null;
+}
+
+/**
+ * Versioned save snapshot as written to storage
+ */
+export interface SaveSnapshot {
+  version: number;
+  savedAt: number; // timestamp
+  data: SaveData;
+}
+
+/**
+ * Pluggable storage backend for save snapshots
+ */
+export interface SaveStorageBackend {
+  read(key: string): string | null;
+  write(key: string, value: string): void; // Throws if the value could not be stored
+  remove(key: string): void;
+}
+
+/**
+ * Outcome of validating (and repairing) migrated save data
+ */
+export interface SaveValidationResult {
+  valid: boolean;
+  data: SaveData | null;
+  errors: string[]; // Problems that reject the save
+  repairs: string[]; // Fixes applied to otherwise valid data
+}
+
+/**
+ * Roster entry for a character slot, kept alongside its save snapshot so the
+ * character-select screen can list characters without loading every save
+ */
+export interface CharacterSlot {
+  id: string;
+  name: string;
+  class: Classes;
+  level: number;
+  outfitId: string;
+  outfitTint: number;
+  currentMap: string;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+/**
+ * Index of all character slots as written to storage
+ */
+export interface CharacterRoster {
+  activeCharacterId: string | null;
+  characters: CharacterSlot[];
+}
@@ -16,6 +16,8 @@ export * from "./player/outfits";
 
 // Item system types
 export * from "./items/base";
+export * from "./items/rarity";
+export * from "./items/comparison";
 
 // Quest system types
 export * from "./quests/base";
@@ -24,15 +26,19 @@ export * from "./quests/rewards";
 
 // Monster types
 export * from "./monsters";
+export * from "./monsters/boss";
 
 // Combat types
 export * from "./combat";
+export * from "./combat/simulation";
+export * from "./combat/analytics";
 
 // UI types
 export * from "./ui";
 
 // Game state types
 export * from "./game/state";
+export * from "./game/save";
 
 // NPC
 export * from "./npc";
@@ -4,6 +4,7 @@
 
 import { DamageType } from "..";
 import { PlayerAttackType } from "../player/character";
+import { ItemRarity } from "./rarity";
 
 /**
  * Item categories for organization and filtering
@@ -24,6 +25,7 @@ export enum ItemCategory {
   CURRENCY = "currency",
   QUEST = "quest",
   SPELL_SCROLL = "spell_scroll",
+  CONTAINER = "container",
 }
 
 /**
@@ -39,6 +41,7 @@ export enum ItemType {
   FOOD = "food",
   PRODUCT = "product",
   SPELL_SCROLL = "spell_scroll",
+  CONTAINER = "container",
 }
 
 /**
@@ -75,6 +78,11 @@ export interface ItemSetBonuses {
   capacity?: number;
   regen?: number;
   power?: number;
+  physicalResist?: number;
+  fireResist?: number;
+  iceResist?: number;
+  energyResist?: number;
+  poisonResist?: number;
 }
 
 /**
@@ -95,6 +103,11 @@ export interface ItemBonusStats {
   manaRegen?: number;
   capacity?: number;
   regen?: number;
+  physicalResist?: number;
+  fireResist?: number;
+  iceResist?: number;
+  energyResist?: number;
+  poisonResist?: number;
 }
 
 /**
@@ -105,8 +118,18 @@ export interface ItemInstance {
   instanceId: string; // Unique ID for this specific item
   bonusStats?: ItemBonusStats; // Optional random bonus stats
   quantity?: number; // For stackable items
+  contents?: ItemInstance[]; // For containers, in slot order
+  rarity?: ItemRarity; // Common if unset
+  itemLevel?: number; // Level the bonuses were rolled at
+  affixes?: string[]; // Ids of the rolled affixes, in roll order
 }
 
+/**
+ * Where a container sits: instance ids from the inventory (or the equipped backpack)
+ * down to the container. An empty path is the inventory itself.
+ */
+export type ContainerPath = string[];
+
 /**
  * Base item template data
  */
@@ -119,13 +142,14 @@ export interface ItemData {
   bonusSkills?: string[];
   sellValue?: number;
   stackable?: boolean;
+  maxStack?: number; // Most a single stack can hold, DEFAULT_MAX_STACK if unset
   damageType?: DamageType; // Default Physical
 
   // Display properties
   description?: string;
   texture?: string;
   icon?: string;
-  rarity?: string;
+  rarity?: ItemRarity; // Lowest rarity a drop of this item can roll
 
   // Set properties
   set?: ItemSets;
@@ -158,6 +182,22 @@ export interface ItemData {
   mana?: number;
   moveSpeed?: number;
 
+  // Combat rolls (percent)
+  critChance?: number;
+  critDamage?: number; // Added to the critical hit multiplier
+  accuracy?: number; // Added to hit chance
+  dodge?: number;
+
+  // Elemental resistances (percent)
+  physicalResist?: number;
+  fireResist?: number;
+  iceResist?: number;
+  energyResist?: number;
+  poisonResist?: number;
+
   // Physical properties
   weight: number;
+
+  // Containers
+  containerSlots?: number;
 }
@@ -0,0 +1,37 @@
+/**
+ * Item comparison types, for tooltips weighing an item against equipped gear
+ */
+
+import { ItemInstance } from "./base";
+import { PlayerCharacterEquipment } from "../player/character";
+
+/**
+ * One stat with the equipped item worn and with the compared item worn instead
+ */
+export interface ItemComparisonStat {
+  key: string;
+  label: string;
+  equipped: number;
+  compared: number;
+  percent?: boolean;
+}
+
+/**
+ * Set bonuses gained or lost by swapping the item in
+ */
+export interface ItemComparisonSetChange {
+  setName: string;
+  equippedPieces: number;
+  comparedPieces: number;
+  gained: string[]; // e.g. "2 pieces: Melee +1"
+  lost: string[];
+}
+
+export interface ItemComparisonResult {
+  slot: keyof PlayerCharacterEquipment;
+  equippedItem: ItemInstance | null;
+  stats: ItemComparisonStat[]; // Only stats that change
+  autoAttackDamage: { equipped: number; compared: number };
+  damageReduction: { equipped: number; compared: number };
+  setChanges: ItemComparisonSetChange[];
+}
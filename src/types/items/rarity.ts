@@ -0,0 +1,42 @@
+/**
+ * Item rarity and affix types
+ */
+
+import { ItemBonusStats, ItemInstance } from "./base";
+
+/**
+ * Rarity tiers, from most to least common
+ */
+export enum ItemRarity {
+  COMMON = "common",
+  UNCOMMON = "uncommon",
+  RARE = "rare",
+  EPIC = "epic",
+  LEGENDARY = "legendary",
+}
+
+export interface ItemRarityTier {
+  rarity: ItemRarity;
+  name: string;
+  color: string; // Item name and slot border
+  weight: number; // Relative chance when rolling a dropped item
+  affixCount: number;
+  statMultiplier: number; // Applied to every rolled affix value
+}
+
+/**
+ * What a random roll added to an instance, carried along when it's dropped and picked up
+ */
+export type ItemRoll = Pick<ItemInstance, "rarity" | "itemLevel" | "affixes">;
+
+/**
+ * Bonus an item can roll, added to the instance's bonusStats
+ */
+export interface ItemAffixDefinition {
+  id: string;
+  name: string; // Prefixed to the item's name, e.g. "Mighty Sword"
+  stat: keyof ItemBonusStats;
+  min: number; // Value range at item level 1
+  max: number;
+  perLevel: number; // Added to the rolled value per item level above 1
+}
@@ -0,0 +1,48 @@
+/**
+ * Boss encounter types
+ */
+
+/**
+ * Monsters summoned when a boss phase begins
+ */
+export interface BossAddSpawn {
+  monsterType: string;
+  count: number;
+}
+
+/**
+ * One stage of a boss fight, entered when the boss's health falls to the threshold
+ */
+export interface BossPhase {
+  id: string;
+  name: string; // Shown on the boss health bar
+  healthThreshold: number; // 0-1, fraction of max health at which the phase begins
+  abilities: string[]; // Monster ability IDs cast in this order, each on its own cooldown
+  adds?: BossAddSpawn[];
+  damageMultiplier?: number; // Auto-attack damage multiplier while in this phase, default 1
+  yell?: string; // Shown in the message log when the phase begins
+}
+
+/**
+ * Scripted fight for a boss monster, keyed by the boss's monster type
+ */
+export interface BossEncounterData {
+  id: string;
+  monsterType: string;
+  phases: BossPhase[]; // Ordered by descending healthThreshold, the first one at 1
+  arenaRadius: number; // Pixels around the spawn point the player is locked inside during the fight
+  enrage?: {
+    after: number; // Seconds after the fight starts
+    damageMultiplier: number; // Applied on top of the phase multiplier
+    yell?: string;
+  };
+}
+
+/**
+ * The circle the player can't leave while a boss fight is on
+ */
+export interface BossArena {
+  x: number;
+  y: number;
+  radius: number;
+}
@@ -2,6 +2,8 @@
  * Monster system types
  */
 
+import { Ability, DamageResistances, DamageType, StatusEffectApplication } from "../combat";
+
 /**
  * Monster categories for organization
  */
@@ -23,6 +25,19 @@ export enum MonsterAttackType {
   Magic = "magic",
 }
 
+/**
+ * Animation strategies that support hostile casts aimed at the player
+ */
+export type MonsterAbilityAnimationType = "projectile" | "expanding" | "tileGrid";
+
+/**
+ * Spell a monster can cast, referenced by id from MonsterData.abilities
+ */
+export interface MonsterAbility extends Ability {
+  animationType: MonsterAbilityAnimationType;
+  castTime: number; // Telegraph duration in ms before the spell goes off
+}
+
 /**
  * Item drop configuration for monsters
  */
@@ -33,6 +48,16 @@ export interface ItemDrop {
   maxQuantity?: number; // Maximum quantity to drop (default 1)
 }
 
+/**
+ * Entry in a loot table that always drops exactly one item, picked by weight
+ */
+export interface WeightedItemDrop {
+  itemId: string;
+  weight: number; // Relative to the other entries in the table
+  minQuantity?: number;
+  maxQuantity?: number;
+}
+
 /**
  * Monster template data structure
  */
@@ -47,9 +72,13 @@ export interface MonsterData {
   speed: number;
   experience: number; // Experience awarded when defeated
   damage?: number; // Base damage
+  damageType?: DamageType; // Element of auto-attacks, default Physical
+  statusEffect?: StatusEffectApplication; // Applied to the player on hit
   armor: number;
+  resistances?: DamageResistances; // Elemental resistances (+) and weaknesses (-) in percent
   drops: ItemDrop[]; // Array of possible item drops
-  abilities?: string[]; // IDs of abilities this monster can use
+  itemLevel?: number; // Level equipment drops roll their bonuses at, default 1
+  abilities?: string[]; // IDs of monster abilities (see data/monsterAbilities) this monster casts
   isAggressive?: boolean; // Whether the monster is aggressive by default
   attackType?: MonsterAttackType; // "melee", "ranged", or "magic"
   runawayPercent?: number; // Health percentage at which monster tries to run away
@@ -62,6 +91,36 @@ export interface MonsterData {
   extraHitBox?: number;
 }
 
+/**
+ * Champion modifiers rolled onto rare spawns
+ */
+export enum MonsterAffixType {
+  HASTED = "hasted",
+  ARMORED = "armored",
+  VAMPIRIC = "vampiric",
+  EXPLOSIVE = "explosive",
+}
+
+export interface MonsterAffixDefinition {
+  type: MonsterAffixType;
+  name: string; // Prefixed to the monster's name, e.g. "Hasted Decayed Skeleton"
+  description: string;
+  tint: number;
+  healthMultiplier?: number;
+  damageMultiplier?: number;
+  armorBonus?: number;
+  experienceMultiplier?: number;
+  moveSpeedMultiplier?: number;
+  attackCooldownMultiplier?: number; // Below 1 attacks faster
+  lifeSteal?: number; // 0-1, fraction of damage dealt the monster heals back
+  deathExplosion?: {
+    damage: number;
+    radius: number; // in pixels
+    delay: number; // ms between death and the blast, to give the player time to step away
+    damageType: DamageType;
+  };
+}
+
 /**
  * Monster death event data
  */
@@ -72,3 +131,12 @@ export interface MonsterDeathEvent {
   y: number;
   experience: number;
 }
+
+/**
+ * Bestiary kill tracking per monster type
+ */
+export interface CreatureKillData {
+  monsterId: string;
+  timesKilled: number;
+  firstKillTimestamp?: number;
+}
@@ -1,3 +1,5 @@
+import { DamageType } from "../combat";
+
 // Interface for NPC data
 export interface NPCData {
   id: string;
@@ -14,6 +16,26 @@ export interface NPCData {
   isMageTrainer?: boolean;
   isArcherTrainer?: boolean;
   isStatSeller?: boolean;
+  companionIds?: string[]; // Companions this NPC hires out
+}
+
+// Interface for hireable companion data
+export interface CompanionData {
+  id: string;
+  name: string;
+  texture: string;
+  description: string;
+  price: number; // Gold to hire
+  maxHealth: number;
+  damage: number;
+  armor: number;
+  dodgeChance: number; // Percent chance to dodge monster attacks
+  attackType: "melee" | "ranged" | "magic";
+  damageType?: DamageType;
+  attackRange: number; // Pixels
+  attackCooldown: number; // Milliseconds
+  moveSpeed: number; // Same scale as the player's move speed (base 250)
+  tint?: number;
 }
 
 export interface ShopItem {
@@ -16,6 +16,18 @@ export enum Classes {
   NONE = "none",
 }
 
+/**
+ * Per-class configuration: starting resources, skill growth and ability access
+ */
+export interface ClassDefinition {
+  id: Classes;
+  name: string;
+  description: string;
+  baseHealth: number;
+  baseMana: number;
+  learnableAbilityTypes: string[]; // Ability weaponTypes this class can learn
+}
+
 /**
  * Player attack types for combat
  */
@@ -35,6 +47,7 @@ export interface PlayerCharacterEquipment {
   helmet: ItemInstance | null;
   amulet: ItemInstance | null;
   armor: ItemInstance | null;
+  backpack: ItemInstance | null;
 }
 
 /**
@@ -56,6 +69,7 @@ export interface PlayerCharacterSkills {
 export interface PlayerCharacterState {
   health: number;
   maxHealth: number;
+  mana: number;
   lastAttackTime: number;
   experience: number;
   class: Classes;
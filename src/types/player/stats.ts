@@ -2,6 +2,8 @@
  * Player stat management and calculation types
  */
 
+import { DamageType } from "../combat";
+
 /**
  * Purchasable stat bonuses
  */
@@ -35,6 +37,7 @@ export interface CalculatedStats {
   totalAttackSpeed: number;
   totalHealthRegen: number;
   totalManaRegen: number;
+  totalResistances: Record<DamageType, number>; // Percent, capped when applied
 
   // Equipment bonuses only
   equipmentBonuses: {
@@ -49,3 +52,15 @@ export interface CalculatedStats {
     melee: number;
   };
 }
+
+/**
+ * How weighed down the player is, by carried weight relative to max capacity
+ */
+export type EncumbranceLevelId = "normal" | "burdened" | "overloaded";
+
+export interface EncumbranceLevel {
+  id: EncumbranceLevelId;
+  name: string;
+  maxLoad: number; // Highest carried weight / max capacity ratio for this level
+  moveSpeedMultiplier: number;
+}
@@ -0,0 +1,509 @@
+// ============================================================================
+// HEADLESS COMBAT SIMULATOR
+// ============================================================================
+
+import {
+  Ability,
+  CalculatedStats,
+  CombatSimulationOptions,
+  CombatRoll,
+  CombatRollChances,
+  CombatSimulationResult,
+  DamageResistances,
+  DamageType,
+  MonsterAbility,
+  MonsterData,
+  PlayerCharacterState,
+  SimulatedFight,
+  SimulationBuild,
+  StatusEffectApplication,
+  StatusEffectStacking,
+  StatusEffectType,
+} from "@/types";
+import {
+  DamageFormulas,
+  MONSTER_ATTACK_COOLDOWN,
+  ARCHERY_ADJACENT_DISTANCE,
+  ARCHERY_ADJACENT_MISS_CHANCE,
+} from "@/utils/formulas";
+import { calculateEquipmentBonuses, calculateTotalStats } from "@/stores/components/equipmentStore";
+import { getStatusEffectDefinition } from "@/data/statusEffects";
+import { getMonsterAbility } from "@/data/monsterAbilities";
+import { ItemDictionary } from "@/services/ItemDictionaryService";
+import { MonsterDictionary } from "@/services/MonsterDictionaryService";
+import { AbilityDictionary } from "@/services/AbilityDictionaryService";
+import { RandomStream } from "@/services/RandomService";
+
+const DEFAULT_SEED = 1;
+const DEFAULT_FIGHTS = 100;
+const DEFAULT_DISTANCE = 32; // Adjacent tiles
+const DEFAULT_TICK_MS = 50;
+const DEFAULT_MAX_FIGHT_DURATION = 10 * 60 * 1000;
+const REGEN_TICK_INTERVAL = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface SimulatedStatusEffect {
+  stacks: number;
+  remaining: number;
+  tickTimer: number;
+}
+
+interface Combatant {
+  health: number;
+  statusEffects: Map<StatusEffectType, SimulatedStatusEffect>;
+}
+
+interface PendingMonsterCast {
+  ability: MonsterAbility;
+  releaseAt: number;
+}
+
+/**
+ * Everything about the build that doesn't change during a fight
+ */
+interface PreparedBuild {
+  build: SimulationBuild;
+  stats: CalculatedStats;
+  weaponType: string;
+  attackCooldown: number;
+  attackRollChances: CombatRollChances;
+  defenseRollChances: CombatRollChances; // Monster attacks against this build
+  abilities: Ability[];
+}
+
+/**
+ * Runs fights between a player build and a monster without Phaser, using the same
+ * DamageFormulas, auto attack cooldown and status effect rules as the game, so
+ * builds can be compared by time-to-kill, damage taken and kills per hour.
+ *
+ * Simplifications: both sides stand still at `distance`, the player always stands
+ * within its own weapon range, projectiles always connect, and kill bonuses are
+ * not applied.
+ */
+export class CombatSimulator {
+  /**
+   * Simulate a number of fights of a build against a monster from the MonsterDictionary
+   */
+  static simulate(
+    build: SimulationBuild,
+    monsterId: string,
+    options: CombatSimulationOptions = {}
+  ): CombatSimulationResult {
+    const monster = MonsterDictionary.getMonster(monsterId);
+    if (!monster) {
+      throw new Error(`Unknown monster '${monsterId}'`);
+    }
+
+    const seed = options.seed ?? DEFAULT_SEED;
+    const fights = Math.max(1, options.fights ?? DEFAULT_FIGHTS);
+    const random = new RandomStream(seed); // Private stream, independent of the session seed
+    const prepared = this.prepareBuild(build);
+
+    const fightLog: SimulatedFight[] = [];
+    for (let i = 0; i < fights; i++) {
+      fightLog.push(this.simulateFight(prepared, monster, options, random));
+    }
+
+    const wonFights = fightLog.filter((fight) => fight.won);
+    const totalDuration = fightLog.reduce((sum, fight) => sum + fight.durationMs, 0);
+    const totalDamageDealt = fightLog.reduce((sum, fight) => sum + fight.damageDealt, 0);
+    const totalDamageTaken = fightLog.reduce((sum, fight) => sum + fight.damageTaken, 0);
+    const sessionTime = totalDuration + (options.downtimeMs || 0) * fights;
+
+    return {
+      monsterId,
+      seed,
+      fights,
+      wins: wonFights.length,
+      winRate: wonFights.length / fights,
+      averageTimeToKillMs: wonFights.length
+        ? wonFights.reduce((sum, fight) => sum + fight.durationMs, 0) / wonFights.length
+        : Infinity,
+      averageDamageTaken: totalDamageTaken / fights,
+      averageDamageDealt: totalDamageDealt / fights,
+      killsPerHour: sessionTime > 0 ? (wonFights.length * HOUR_MS) / sessionTime : 0,
+      playerDps: totalDuration > 0 ? (totalDamageDealt * 1000) / totalDuration : 0,
+      attackCooldownMs: prepared.attackCooldown,
+      fightLog,
+    };
+  }
+
+  /**
+   * Compare several builds against the same monster with the same seed
+   */
+  static compare(
+    builds: Record<string, SimulationBuild>,
+    monsterId: string,
+    options: CombatSimulationOptions = {}
+  ): Record<string, CombatSimulationResult> {
+    const results: Record<string, CombatSimulationResult> = {};
+
+    Object.entries(builds).forEach(([name, build]) => {
+      results[name] = this.simulate(build, monsterId, options);
+    });
+
+    return results;
+  }
+
+  private static prepareBuild(build: SimulationBuild): PreparedBuild {
+    const stats = calculateTotalStats(
+      {
+        class: build.class,
+        skills: build.skills,
+        purchasedStats: build.purchasedStats,
+      } as PlayerCharacterState,
+      calculateEquipmentBonuses(build.equipment)
+    );
+
+    // Same weapon type lookup AutoAttackSystem uses
+    const weaponTemplateId = build.equipment.weapon?.templateId;
+    const weaponType =
+      (weaponTemplateId && ItemDictionary.getWeaponType(weaponTemplateId)) || "melee";
+
+    const abilities = (build.abilityIds || [])
+      .map((abilityId) => AbilityDictionary.getAbility(abilityId))
+      .filter((ability): ability is Ability => ability !== null);
+
+    return {
+      build,
+      stats,
+      weaponType,
+      attackCooldown: DamageFormulas.calculatePlayerAttackCooldown(stats.totalAttackSpeed || 1),
+      attackRollChances: DamageFormulas.getPlayerAttackRollChances(
+        build.equipment,
+        build.skills,
+        weaponType
+      ),
+      defenseRollChances: DamageFormulas.getMonsterAttackRollChances(build.equipment, build.skills),
+      abilities,
+    };
+  }
+
+  private static simulateFight(
+    prepared: PreparedBuild,
+    monsterData: MonsterData,
+    options: CombatSimulationOptions,
+    random: RandomStream
+  ): SimulatedFight {
+    const { build, stats } = prepared;
+    const tickMs = options.tickMs || DEFAULT_TICK_MS;
+    const maxDuration = options.maxFightDurationMs || DEFAULT_MAX_FIGHT_DURATION;
+    const distance = options.distance ?? DEFAULT_DISTANCE;
+
+    const player: Combatant = { health: stats.totalHealth, statusEffects: new Map() };
+    const monster: Combatant = { health: monsterData.maxHealth, statusEffects: new Map() };
+    let playerMana = stats.totalMana;
+
+    const fight: SimulatedFight = {
+      won: false,
+      durationMs: 0,
+      damageDealt: 0,
+      damageTaken: 0,
+      autoAttacks: 0,
+      misses: 0,
+      criticalHits: 0,
+      dodges: 0,
+      abilityCasts: {},
+    };
+
+    const dealToMonster = (amount: number, isMagic: boolean, damageType?: DamageType) => {
+      const damage = this.applyMonsterTakeDamage(monsterData, amount, isMagic, damageType);
+      const dealt = Math.min(monster.health, damage); // Overkill doesn't count
+      monster.health -= dealt;
+      fight.damageDealt += dealt;
+    };
+
+    const dealToPlayer = (amount: number, isMagic: boolean, damageType?: DamageType) => {
+      const damage = DamageFormulas.calculatePlayerDamageTaken(
+        amount,
+        build.equipment,
+        build.skills,
+        isMagic,
+        damageType,
+        stats.totalResistances
+      );
+      const taken = Math.min(player.health, damage);
+      player.health -= taken;
+      fight.damageTaken += taken;
+    };
+
+    // Monster side, mirroring MonsterCombatComponent and MonsterSpellcastingComponent
+    const monsterDamage = monsterData.damage || 5;
+    const monsterAttackType = monsterData.attackType || "melee";
+    const monsterAttackRange = monsterAttackType === "melee" ? 40 : 384;
+    const monsterAbilities = (monsterData.abilities || [])
+      .map((abilityId) => getMonsterAbility(abilityId))
+      .filter((ability): ability is MonsterAbility => ability !== null);
+    const monsterAbilityReadyAt = new Map<string, number>();
+    let pendingCast: PendingMonsterCast | null = null;
+    let monsterLastAttack = -Infinity;
+
+    // Player side, mirroring AutoAttackSystem and AbilitySystem
+    const abilityReadyAt = new Map<string, number>();
+    let playerLastAttack = -Infinity;
+    let regenAccumulator = 0;
+
+    let time = 0;
+    while (time <= maxDuration) {
+      // Player auto attack
+      if (
+        time - playerLastAttack >= prepared.attackCooldown &&
+        !this.isStunned(player.statusEffects)
+      ) {
+        playerLastAttack = time;
+        fight.autoAttacks++;
+
+        const fumbled =
+          prepared.weaponType === "archery" &&
+          distance <= ARCHERY_ADJACENT_DISTANCE &&
+          random.chance(ARCHERY_ADJACENT_MISS_CHANCE);
+        const roll = fumbled ? null : DamageFormulas.rollAttack(prepared.attackRollChances, random);
+
+        if (!roll || roll.damageMultiplier <= 0) {
+          fight.misses++;
+        } else {
+          if (roll.outcome === "critical") fight.criticalHits++;
+          this.performAutoAttack(prepared, roll, dealToMonster);
+        }
+      }
+
+      // Player abilities, used in priority order whenever they're ready
+      for (const ability of prepared.abilities) {
+        if (monster.health <= 0) break;
+        if ((abilityReadyAt.get(ability.id) || 0) > time) continue;
+
+        const manaCost = ability.manaCost || 0;
+        if (playerMana < manaCost) continue;
+
+        if (ability.id === "lightHealing") {
+          const healing = ability.healing || 10;
+          if (stats.totalHealth - player.health < healing) continue;
+          player.health = Math.min(stats.totalHealth, player.health + healing);
+        } else if (
+          ability.damage > 0 &&
+          (ability.range === undefined || ability.range >= distance)
+        ) {
+          // Same double armor pass as BaseStrategy.applyAbilityDamageToMonster + Monster.takeDamage
+          const baseDamage = DamageFormulas.calculatePlayerAbilityDamage(
+            ability.damage,
+            build.equipment,
+            build.skills,
+            ability.skillId || "meleeWeapons"
+          );
+          const isMagic = DamageFormulas.isMagicDamage(undefined, ability.skillId);
+          const damage = DamageFormulas.applyDamageReduction(
+            baseDamage,
+            DamageFormulas.calculateMonsterDamageReduction(monsterData.armor),
+            isMagic
+          );
+          dealToMonster(damage, isMagic, ability.damageType);
+
+          if (ability.statusEffect) {
+            this.applyStatusEffect(monster, ability.statusEffect, random);
+          }
+        } else {
+          continue;
+        }
+
+        playerMana -= manaCost;
+        abilityReadyAt.set(ability.id, time + ability.cooldown * 1000);
+        fight.abilityCasts[ability.id] = (fight.abilityCasts[ability.id] || 0) + 1;
+      }
+
+      if (monster.health <= 0) {
+        fight.won = true;
+        break;
+      }
+
+      // Monster spell resolves after its telegraph
+      if (pendingCast && pendingCast.releaseAt <= time) {
+        const { ability } = pendingCast;
+        pendingCast = null;
+
+        if (!this.isStunned(monster.statusEffects)) {
+          dealToPlayer(
+            DamageFormulas.calculateMonsterDamage(ability.damage, 1),
+            DamageFormulas.isMagicDamage(undefined, ability.skillId),
+            ability.damageType
+          );
+          if (ability.statusEffect) {
+            this.applyStatusEffect(player, ability.statusEffect, random);
+          }
+        }
+      }
+
+      // Monster AI: casting blocks everything else, then spells, then the basic attack
+      if (!pendingCast && !this.isStunned(monster.statusEffects)) {
+        const ability = monsterAbilities.find(
+          (candidate) =>
+            (monsterAbilityReadyAt.get(candidate.id) || 0) <= time &&
+            distance <= (candidate.range || 0)
+        );
+
+        if (ability) {
+          monsterAbilityReadyAt.set(ability.id, time + ability.cooldown * 1000);
+          pendingCast = { ability, releaseAt: time + ability.castTime };
+        } else if (
+          time - monsterLastAttack >= MONSTER_ATTACK_COOLDOWN &&
+          distance <= monsterAttackRange
+        ) {
+          monsterLastAttack = time;
+          const roll = DamageFormulas.rollAttack(prepared.defenseRollChances, random);
+
+          if (roll.damageMultiplier <= 0) {
+            fight.dodges++;
+          } else {
+            dealToPlayer(
+              DamageFormulas.applyCombatRoll(
+                DamageFormulas.calculateMonsterDamage(monsterDamage, 1),
+                roll
+              ),
+              DamageFormulas.isMagicDamage(monsterAttackType),
+              monsterData.damageType
+            );
+            if (monsterData.statusEffect) {
+              this.applyStatusEffect(player, monsterData.statusEffect, random);
+            }
+          }
+        }
+      }
+
+      if (player.health <= 0) break;
+
+      // Damage over time bypasses armor, like StatusEffectComponent ticks
+      this.updateStatusEffects(monster, tickMs, (amount, damageType) =>
+        dealToMonster(amount, true, damageType)
+      );
+      this.updateStatusEffects(player, tickMs, (amount, damageType) =>
+        dealToPlayer(amount, true, damageType)
+      );
+
+      if (monster.health <= 0) {
+        fight.won = true;
+        break;
+      }
+      if (player.health <= 0) break;
+
+      // In-combat regeneration, same tick as RegenerationSystem
+      regenAccumulator += tickMs;
+      while (regenAccumulator >= REGEN_TICK_INTERVAL) {
+        regenAccumulator -= REGEN_TICK_INTERVAL;
+        player.health = Math.min(stats.totalHealth, player.health + stats.totalHealthRegen);
+        playerMana = Math.min(stats.totalMana, playerMana + stats.totalManaRegen);
+      }
+
+      time += tickMs;
+    }
+
+    fight.durationMs = Math.min(time, maxDuration);
+    return fight;
+  }
+
+  /**
+   * Primary and secondary auto attack damage, as AutoAttackSystem.calculateAttackDamages
+   */
+  private static performAutoAttack(
+    prepared: PreparedBuild,
+    roll: CombatRoll,
+    dealToMonster: (amount: number, isMagic: boolean, damageType?: DamageType) => void
+  ): void {
+    const { build, weaponType } = prepared;
+    const primaryDamage = DamageFormulas.applyCombatRoll(
+      DamageFormulas.calculatePlayerAutoAttackDamage(build.equipment, build.skills, weaponType),
+      roll
+    );
+
+    const weaponTemplateId = build.equipment.weapon?.templateId;
+    const weaponData = weaponTemplateId ? ItemDictionary.getItem(weaponTemplateId) : null;
+
+    dealToMonster(primaryDamage, false, weaponData?.damageType || DamageType.PHYSICAL);
+
+    if (weaponData?.secondaryAttackType && weaponData?.secondaryDamagePeanlty) {
+      const secondaryDamage = Math.round(primaryDamage * (weaponData.secondaryDamagePeanlty / 100));
+      dealToMonster(
+        Math.max(1, secondaryDamage),
+        false,
+        weaponData.secondaryDamageType || DamageType.PHYSICAL
+      );
+    }
+  }
+
+  /**
+   * Same pipeline as Monster.takeDamage: elemental modifier, then armor
+   */
+  private static applyMonsterTakeDamage(
+    monsterData: MonsterData,
+    amount: number,
+    isMagicDamage: boolean,
+    damageType: DamageType = DamageType.PHYSICAL
+  ): number {
+    const resistances: DamageResistances = monsterData.resistances || {};
+    const elementalDamage = DamageFormulas.applyElementalModifier(amount, damageType, resistances);
+
+    return DamageFormulas.applyDamageReduction(
+      elementalDamage,
+      DamageFormulas.calculateMonsterDamageReduction(monsterData.armor || 0),
+      isMagicDamage
+    );
+  }
+
+  /**
+   * Stacking rules match StatusEffectComponent.applyEffect, with the chance roll seeded
+   */
+  private static applyStatusEffect(
+    target: Combatant,
+    application: StatusEffectApplication,
+    random: RandomStream
+  ): void {
+    if (target.health <= 0) return;
+    if (application.chance !== undefined && !random.chance(application.chance)) return;
+
+    const definition = getStatusEffectDefinition(application.type);
+    if (!definition) return;
+
+    const duration = application.duration || definition.duration;
+    const existing = target.statusEffects.get(application.type);
+
+    if (!existing) {
+      target.statusEffects.set(application.type, { stacks: 1, remaining: duration, tickTimer: 0 });
+      return;
+    }
+
+    if (definition.stacking === StatusEffectStacking.IGNORE) return;
+    if (definition.stacking === StatusEffectStacking.STACK) {
+      existing.stacks = Math.min(definition.maxStacks || 1, existing.stacks + 1);
+    }
+    existing.remaining = duration;
+  }
+
+  private static updateStatusEffects(
+    target: Combatant,
+    delta: number,
+    applyTickDamage: (amount: number, damageType?: DamageType) => void
+  ): void {
+    target.statusEffects.forEach((effect, type) => {
+      const definition = getStatusEffectDefinition(type);
+      const elapsed = Math.min(delta, effect.remaining);
+
+      if (definition.tickInterval && definition.tickDamage) {
+        effect.tickTimer += elapsed;
+
+        while (effect.tickTimer >= definition.tickInterval && target.health > 0) {
+          effect.tickTimer -= definition.tickInterval;
+          applyTickDamage(definition.tickDamage * effect.stacks, definition.damageType);
+        }
+      }
+
+      effect.remaining -= delta;
+      if (effect.remaining <= 0) {
+        target.statusEffects.delete(type);
+      }
+    });
+  }
+
+  private static isStunned(statusEffects: Map<StatusEffectType, SimulatedStatusEffect>): boolean {
+    return Array.from(statusEffects.keys()).some(
+      (type) => getStatusEffectDefinition(type).preventsActions
+    );
+  }
+}
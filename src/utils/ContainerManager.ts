@@ -0,0 +1,127 @@
+import { ContainerPath, ItemInstance, PlayerCharacterState } from "../types";
+import { ItemDictionary } from "../services/ItemDictionaryService";
+
+type CarriedItems = Pick<PlayerCharacterState, "inventory" | "equipment">;
+
+export interface ItemLocation {
+  item: ItemInstance;
+  path: ContainerPath; // Container holding the item, [] for the inventory
+  index: number;
+}
+
+/**
+ * Reads and immutably updates the tree of items the player carries: the inventory,
+ * the containers inside it, and the contents of the equipped backpack.
+ */
+export class ContainerManager {
+  static getSlotCount(container: ItemInstance): number {
+    return ItemDictionary.getItem(container.templateId)?.containerSlots || 0;
+  }
+
+  /**
+   * The container at a path, or null for the inventory itself or a path that
+   * doesn't lead to a container
+   */
+  static getContainer(carried: CarriedItems, path: ContainerPath): ItemInstance | null {
+    if (path.length === 0) return null;
+
+    const [rootId, ...rest] = path;
+    const backpack = carried.equipment.backpack;
+    let container =
+      carried.inventory.find((item) => item.instanceId === rootId) ||
+      (backpack?.instanceId === rootId ? backpack : undefined);
+
+    for (const containerId of rest) {
+      container = container?.contents?.find((item) => item.instanceId === containerId);
+    }
+
+    return container?.contents ? container : null;
+  }
+
+  /**
+   * Items held at a path, or null if it doesn't lead to a container
+   */
+  static getContainerItems(carried: CarriedItems, path: ContainerPath): ItemInstance[] | null {
+    if (path.length === 0) return carried.inventory;
+    return this.getContainer(carried, path)?.contents || null;
+  }
+
+  /**
+   * Find an item anywhere in the inventory or inside containers. Equipped items
+   * themselves are not found, only the contents of the equipped backpack.
+   */
+  static findItem(carried: CarriedItems, instanceId: string): ItemLocation | null {
+    const search = (items: ItemInstance[], path: ContainerPath): ItemLocation | null => {
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        if (item.instanceId === instanceId) return { item, path, index };
+
+        if (item.contents) {
+          const found = search(item.contents, [...path, item.instanceId]);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    const backpack = carried.equipment.backpack;
+    return (
+      search(carried.inventory, []) ||
+      (backpack?.contents ? search(backpack.contents, [backpack.instanceId]) : null)
+    );
+  }
+
+  /**
+   * Replace the items held at a path. Returns the new inventory and equipment, or
+   * null if the path doesn't lead to a container.
+   */
+  static updateContainer(
+    carried: CarriedItems,
+    path: ContainerPath,
+    updater: (items: ItemInstance[]) => ItemInstance[]
+  ): CarriedItems | null {
+    if (path.length === 0) {
+      return { inventory: updater(carried.inventory), equipment: carried.equipment };
+    }
+
+    // Rebuild each container on the way down so no state is mutated
+    const updateIn = (items: ItemInstance[], remaining: ContainerPath): ItemInstance[] | null => {
+      const index = items.findIndex((item) => item.instanceId === remaining[0]);
+      const container = items[index];
+      if (!container?.contents) return null;
+
+      const contents =
+        remaining.length === 1
+          ? updater(container.contents)
+          : updateIn(container.contents, remaining.slice(1));
+      if (!contents) return null;
+
+      const updated = [...items];
+      updated[index] = { ...container, contents };
+      return updated;
+    };
+
+    const backpack = carried.equipment.backpack;
+    if (backpack && backpack.instanceId === path[0]) {
+      const [updatedBackpack] = updateIn([backpack], path) || [];
+      if (!updatedBackpack) return null;
+
+      return {
+        inventory: carried.inventory,
+        equipment: { ...carried.equipment, backpack: updatedBackpack },
+      };
+    }
+
+    const inventory = updateIn(carried.inventory, path);
+    return inventory ? { inventory, equipment: carried.equipment } : null;
+  }
+
+  /**
+   * Whether a container holds an item, at any depth
+   */
+  static containsItem(container: ItemInstance, instanceId: string): boolean {
+    return (container.contents || []).some(
+      (item) => item.instanceId === instanceId || this.containsItem(item, instanceId)
+    );
+  }
+}
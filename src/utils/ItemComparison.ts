@@ -0,0 +1,169 @@
+import {
+  DamageType,
+  ItemComparisonResult,
+  ItemComparisonSetChange,
+  ItemComparisonStat,
+  ItemInstance,
+  ItemSets,
+  PlayerCharacterEquipment,
+  PlayerCharacterState,
+} from "../types";
+import { ItemDictionary } from "../services/ItemDictionaryService";
+import { ItemInstanceManager } from "./ItemInstanceManager";
+import { DamageFormulas } from "./formulas";
+import { calculateEquipmentBonuses } from "../stores/components/equipmentStore";
+import { SET_CONFIGURATIONS } from "../data/setConfig";
+import { DAMAGE_TYPE_LABELS } from "../data/damageTypes";
+
+type EquipmentBonuses = ReturnType<typeof calculateEquipmentBonuses>;
+
+// Equipment totals shown in comparisons, in display order
+const COMPARED_BONUSES: Array<{
+  key: Exclude<keyof EquipmentBonuses, "resistances">;
+  label: string;
+}> = [
+  { key: "power", label: "Power" },
+  { key: "armor", label: "Armor" },
+  { key: "health", label: "Health" },
+  { key: "mana", label: "Mana" },
+  { key: "melee", label: "Melee" },
+  { key: "healthRegen", label: "HP Regen" },
+  { key: "manaRegen", label: "MP Regen" },
+  { key: "attackSpeed", label: "Attack Speed" },
+  { key: "moveSpeed", label: "Move Speed" },
+  { key: "capacity", label: "Capacity" },
+];
+
+const COMPARED_COMBAT_ROLLS: Array<{
+  key: "critChance" | "critDamage" | "accuracy" | "dodge";
+  label: string;
+}> = [
+  { key: "critChance", label: "Crit Chance" },
+  { key: "critDamage", label: "Crit Damage" },
+  { key: "accuracy", label: "Accuracy" },
+  { key: "dodge", label: "Dodge" },
+];
+
+/**
+ * Weighs an item against what the player has equipped in its slot, by working out the
+ * player's totals both ways
+ */
+export class ItemComparison {
+  /**
+   * Compare an item with the one equipped in its slot. Returns null for items that
+   * can't be equipped, or that are the equipped item.
+   */
+  static compare(
+    itemInstance: ItemInstance,
+    playerCharacter: Pick<PlayerCharacterState, "equipment" | "skills">
+  ): ItemComparisonResult | null {
+    try {
+      const slot = ItemDictionary.getEquipmentSlot(itemInstance.templateId);
+      if (!slot) return null;
+
+      const equipment = playerCharacter.equipment;
+      const equippedItem = equipment[slot] || null;
+      if (equippedItem?.instanceId === itemInstance.instanceId) return null;
+
+      const compared: PlayerCharacterEquipment = { ...equipment, [slot]: itemInstance };
+      const { skills } = playerCharacter;
+
+      return {
+        slot,
+        equippedItem,
+        stats: this.compareStats(equipment, compared),
+        autoAttackDamage: {
+          equipped: this.getAutoAttackDamage(equipment, skills),
+          compared: this.getAutoAttackDamage(compared, skills),
+        },
+        damageReduction: {
+          equipped: DamageFormulas.calculatePlayerDamageReduction(equipment, skills),
+          compared: DamageFormulas.calculatePlayerDamageReduction(compared, skills),
+        },
+        setChanges: this.compareSets(equipment, compared),
+      };
+    } catch (error) {
+      console.error("Error comparing item:", error);
+      return null;
+    }
+  }
+
+  private static getAutoAttackDamage(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterState["skills"]
+  ): number {
+    const weaponType = DamageFormulas.getEquippedWeaponType(equipment);
+    return DamageFormulas.calculatePlayerAutoAttackDamage(equipment, skills, weaponType);
+  }
+
+  // Totals that change, set bonuses included
+  private static compareStats(
+    equipment: PlayerCharacterEquipment,
+    compared: PlayerCharacterEquipment
+  ): ItemComparisonStat[] {
+    const before = calculateEquipmentBonuses(equipment);
+    const after = calculateEquipmentBonuses(compared);
+
+    const stats: ItemComparisonStat[] = [
+      ...COMPARED_BONUSES.map(({ key, label }) => ({
+        key,
+        label,
+        equipped: before[key],
+        compared: after[key],
+      })),
+      ...COMPARED_COMBAT_ROLLS.map(({ key, label }) => ({
+        key,
+        label,
+        equipped: DamageFormulas.calculateTotalItemStat(equipment, key),
+        compared: DamageFormulas.calculateTotalItemStat(compared, key),
+        percent: true,
+      })),
+      ...Object.values(DamageType).map((damageType) => ({
+        key: `${damageType}Resist`,
+        label: `${DAMAGE_TYPE_LABELS[damageType]} Resist`,
+        equipped: before.resistances[damageType],
+        compared: after.resistances[damageType],
+        percent: true,
+      })),
+    ];
+
+    return stats.filter((stat) => stat.equipped !== stat.compared);
+  }
+
+  // Set bonus thresholds crossed in either direction
+  private static compareSets(
+    equipment: PlayerCharacterEquipment,
+    compared: PlayerCharacterEquipment
+  ): ItemComparisonSetChange[] {
+    const changes: ItemComparisonSetChange[] = [];
+
+    Object.values(SET_CONFIGURATIONS).forEach((setConfig) => {
+      const equippedPieces = this.countSetPieces(equipment, setConfig.id);
+      const comparedPieces = this.countSetPieces(compared, setConfig.id);
+      if (equippedPieces === comparedPieces) return;
+
+      const describe = (setBonus: (typeof setConfig.setBonuses)[number]) =>
+        `${setBonus.items} pieces: ${setBonus.bonus} +${setBonus.value}`;
+      const crossed = (from: number, to: number) =>
+        setConfig.setBonuses
+          .filter((setBonus) => setBonus.items > from && setBonus.items <= to)
+          .map(describe);
+
+      changes.push({
+        setName: setConfig.name,
+        equippedPieces,
+        comparedPieces,
+        gained: crossed(equippedPieces, comparedPieces),
+        lost: crossed(comparedPieces, equippedPieces),
+      });
+    });
+
+    return changes;
+  }
+
+  private static countSetPieces(equipment: PlayerCharacterEquipment, set: ItemSets): number {
+    return Object.values(equipment).filter(
+      (item) => item && ItemInstanceManager.getCombinedStats(item).set === set
+    ).length;
+  }
+}
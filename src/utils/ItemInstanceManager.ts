@@ -1,6 +1,36 @@
 import { v4 as uuidv4 } from "uuid";
-import { ItemData, ItemInstance, ItemBonusStats } from "../types";
+import { ItemData, ItemInstance, ItemBonusStats, ItemRarity, ItemRarityTier } from "../types";
 import { ItemDictionary } from "../services/ItemDictionaryService";
+import { DAMAGE_TYPE_RESIST_STATS } from "../data/damageTypes";
+import {
+  ITEM_RARITY_TIERS,
+  RARITY_WEIGHT_PER_LEVEL,
+  getAffixPool,
+  getItemAffix,
+  getRarityTier,
+} from "../data/itemRarity";
+import { RandomService } from "../services/RandomService";
+
+// Stack size for stackable items without their own maxStack
+export const DEFAULT_MAX_STACK = 20;
+
+// Bonus stats that add onto an item stat of a different name
+const BONUS_STAT_FIELDS: Partial<Record<keyof ItemBonusStats, "hpRegen" | "mpRegen">> = {
+  healthRegen: "hpRegen",
+  manaRegen: "mpRegen",
+};
+
+// Bonus stats that add onto the item stat of the same name
+const ADDITIVE_BONUS_STATS: Array<keyof ItemBonusStats & keyof ItemData> = [
+  "power",
+  "armor",
+  "magic",
+  "health",
+  "mana",
+  "melee",
+  "capacity",
+  "moveSpeed",
+];
 
 export class ItemInstanceManager {
   // Create a new item instance from a template ID
@@ -17,6 +47,7 @@ export class ItemInstanceManager {
         instanceId: `${templateId}_${uuidv4().slice(0, 8)}`,
         bonusStats,
         quantity: quantity || (itemData?.stackable ? 1 : undefined), // Only set quantity for stackable items
+        contents: itemData?.containerSlots ? [] : undefined,
       };
     } catch (error) {
       console.error("Error creating item instance:", error);
@@ -29,39 +60,71 @@ export class ItemInstanceManager {
     }
   }
 
-  // Generate a random item with random bonuses
-  static createRandomInstance(templateId: string, quantity?: number): ItemInstance {
+  // Roll a dropped item's rarity and affixes; higher item levels roll better and bigger bonuses
+  static createRandomInstance(
+    templateId: string,
+    quantity?: number,
+    itemLevel: number = 1
+  ): ItemInstance {
     try {
       const template = ItemDictionary.getItem(templateId);
       if (!template) return this.createItemInstance(templateId, undefined, quantity);
 
-      const bonusStats: ItemBonusStats = {};
+      const random = RandomService.stream("loot");
+      const pool = getAffixPool(template.category);
 
-      // Generate bonuses based on item type
-      if (template.type === "weapon") {
-        // Weapons might get damage bonuses
-        if (Math.random() < 0.4) {
-          bonusStats.power = Math.floor(Math.random() * 3) + 1; // +1 to +3 power
-        }
-      } else if (template.type === "armor" || template.type === "helmet") {
-        // Armor items might get armor bonuses
-        if (Math.random() < 0.4) {
-          bonusStats.armor = Math.floor(Math.random() * 2) + 1; // +1 to +2 armor
-        }
-      }
+      // Nothing to roll for items without affixes, e.g. stackables
+      if (pool.length === 0) return this.createItemInstance(templateId, undefined, quantity);
 
-      // Any item might get generic bonuses
-      if (Math.random() < 0.2) {
-        bonusStats.strength = Math.floor(Math.random() * 2) + 1; // +1 to +2 strength
-      }
+      const tier = this.rollRarity(template.rarity, itemLevel);
+
+      const bonusStats: ItemBonusStats = {};
+      const affixes = random
+        .shuffle([...pool])
+        .slice(0, tier.affixCount)
+        .map((affix) => {
+          const levelBonus = affix.perLevel * (itemLevel - 1);
+          const value = Math.max(
+            1,
+            Math.round((random.float(affix.min, affix.max) + levelBonus) * tier.statMultiplier)
+          );
+          bonusStats[affix.stat] = (bonusStats[affix.stat] || 0) + value;
+          return affix.id;
+        });
 
-      return this.createItemInstance(templateId, bonusStats, quantity);
+      const instance = this.createItemInstance(
+        templateId,
+        affixes.length > 0 ? bonusStats : undefined,
+        quantity
+      );
+
+      return { ...instance, rarity: tier.rarity, itemLevel, affixes };
     } catch (error) {
       console.error("Error creating random item instance:", error);
       return this.createItemInstance(templateId, undefined, quantity);
     }
   }
 
+  // Weighted rarity roll, never below the template's own rarity
+  private static rollRarity(minimum: ItemRarity | undefined, itemLevel: number): ItemRarityTier {
+    const minimumIndex = ITEM_RARITY_TIERS.indexOf(getRarityTier(minimum));
+    const tiers = ITEM_RARITY_TIERS.slice(minimumIndex);
+    const levelBonus = 1 + Math.max(0, itemLevel - 1) * RARITY_WEIGHT_PER_LEVEL;
+
+    const weightOf = (tier: ItemRarityTier) =>
+      tier.rarity === ItemRarity.COMMON ? tier.weight : tier.weight * levelBonus;
+
+    const totalWeight = tiers.reduce((total, tier) => total + weightOf(tier), 0);
+    let roll = RandomService.stream("loot").float(0, totalWeight);
+
+    for (const tier of tiers) {
+      roll -= weightOf(tier);
+      if (roll <= 0) return tier;
+    }
+
+    return tiers[tiers.length - 1];
+  }
+
   static createProductInstance(templateId: string, quantity: number = 1): ItemInstance {
     try {
       const itemData = ItemDictionary.getItem(templateId);
@@ -113,15 +176,24 @@ export class ItemInstanceManager {
 
       // Apply bonuses if they exist
       if (itemInstance.bonusStats) {
-        if (itemInstance.bonusStats.power) {
-          combined.power = (combined.power || 0) + itemInstance.bonusStats.power;
-        }
-        if (itemInstance.bonusStats.armor) {
-          combined.armor = (combined.armor || 0) + itemInstance.bonusStats.armor;
-        }
-        if (itemInstance.bonusStats.magic) {
-          combined.magic = (combined.magic || 0) + itemInstance.bonusStats.magic;
-        }
+        ADDITIVE_BONUS_STATS.forEach((stat) => {
+          const bonus = itemInstance.bonusStats?.[stat];
+          if (bonus) {
+            combined[stat] = (combined[stat] || 0) + bonus;
+          }
+        });
+        Object.entries(BONUS_STAT_FIELDS).forEach(([bonusStat, field]) => {
+          const bonus = itemInstance.bonusStats?.[bonusStat as keyof ItemBonusStats];
+          if (bonus && field) {
+            combined[field] = (combined[field] || 0) + bonus;
+          }
+        });
+        Object.values(DAMAGE_TYPE_RESIST_STATS).forEach((stat) => {
+          const bonus = itemInstance.bonusStats?.[stat];
+          if (bonus) {
+            combined[stat] = (combined[stat] || 0) + bonus;
+          }
+        });
       }
 
       return combined;
@@ -145,7 +217,9 @@ export class ItemInstanceManager {
         return `${baseName} x${quantity}`;
       }
 
-      return baseName;
+      // Named after the first rolled affix, e.g. "Mighty Iron Sword"
+      const prefix = itemInstance.affixes?.[0] && getItemAffix(itemInstance.affixes[0])?.name;
+      return prefix ? `${prefix} ${baseName}` : baseName;
     } catch (error) {
       console.error("Error getting display name:", error);
       const template = ItemDictionary.getItem(itemInstance.templateId);
@@ -153,17 +227,48 @@ export class ItemInstanceManager {
     }
   }
 
-  // Get total weight for an item instance (accounting for quantity)
+  // Get total weight for an item instance (accounting for quantity and container contents)
   static getTotalWeight(itemInstance: ItemInstance): number {
     try {
       const template = ItemDictionary.getItem(itemInstance.templateId);
-      if (!template || !template.weight) return 0;
+      const contentsWeight = (itemInstance.contents || []).reduce(
+        (total, item) => total + this.getTotalWeight(item),
+        0
+      );
 
       const quantity = itemInstance.quantity || 1;
-      return template.weight * quantity;
+      return (template?.weight || 0) * quantity + contentsWeight;
     } catch (error) {
       console.error("Error getting total weight:", error);
       return 0;
     }
   }
+
+  // Most of an item a single stack can hold; 1 for items that don't stack
+  static getMaxStack(templateId: string): number {
+    const template = ItemDictionary.getItem(templateId);
+    if (!template?.stackable) return 1;
+    return template.maxStack || DEFAULT_MAX_STACK;
+  }
+
+  // Whether two instances can be merged into a single stack
+  static canStackWith(itemInstance: ItemInstance, other: ItemInstance): boolean {
+    return (
+      itemInstance.instanceId !== other.instanceId &&
+      itemInstance.templateId === other.templateId &&
+      this.getMaxStack(itemInstance.templateId) > 1
+    );
+  }
+
+  // Rarity tier of an instance, falling back to its template's rarity
+  static getRarityTier(itemInstance: ItemInstance): ItemRarityTier {
+    return getRarityTier(
+      itemInstance.rarity || ItemDictionary.getItem(itemInstance.templateId)?.rarity
+    );
+  }
+
+  // Whether an item instance can hold other items
+  static isContainer(itemInstance: ItemInstance): boolean {
+    return !!ItemDictionary.getItem(itemInstance.templateId)?.containerSlots;
+  }
 }
@@ -1,4 +1,4 @@
-import { SkillData } from "../types";
+import { Classes, SkillData } from "../types";
 
 /**
  * Constants for the skill progression formula
@@ -21,24 +21,50 @@ export const SKILL_PROGRESSION = {
     magic: 0.3, // Same as melee weapons
     defense: 0.35, // Slightly slower than combat skills
   },
+  // Per-class growth factor overrides - a class levels its own skills faster
+  CLASS_GROWTH_FACTOR: {
+    [Classes.KNIGHT]: { meleeWeapons: 0.2, shield: 0.25, archery: 0.4, magic: 0.45 },
+    [Classes.MAGE]: { magic: 0.2, meleeWeapons: 0.45, archery: 0.4, shield: 0.45 },
+    [Classes.RANGER]: { archery: 0.2, meleeWeapons: 0.35, magic: 0.4, shield: 0.4 },
+    [Classes.NONE]: {},
+  } as Record<Classes, Record<string, number>>,
   // Maximum skill level achievable
   MAX_LEVEL: 100,
 };
 
+/**
+ * Gets the growth factor for a skill, applying the class override if there is one
+ * @param skillId The skill identifier
+ * @param playerClass The player's class
+ * @returns Growth factor per level
+ */
+export function getGrowthFactor(skillId: string, playerClass: Classes = Classes.NONE): number {
+  const classGrowthFactor = SKILL_PROGRESSION.CLASS_GROWTH_FACTOR[playerClass]?.[skillId];
+  if (classGrowthFactor !== undefined) return classGrowthFactor;
+
+  // Default to 0.3 for skills without a configured growth factor
+  return (
+    SKILL_PROGRESSION.GROWTH_FACTOR[skillId as keyof typeof SKILL_PROGRESSION.GROWTH_FACTOR] || 0.3
+  );
+}
+
 /**
  * Calculates points needed to reach the next level for a skill
  * @param skillId The skill identifier
  * @param level The current level (points needed for level+1)
+ * @param playerClass The player's class
  * @returns Experience points needed for the next level
  */
-export function calculatePointsForNextLevel(skillId: string, level: number): number {
+export function calculatePointsForNextLevel(
+  skillId: string,
+  level: number,
+  playerClass: Classes = Classes.NONE
+): number {
   // Get base points for the skill (or default to 15)
   const basePoints =
     SKILL_PROGRESSION.BASE_POINTS[skillId as keyof typeof SKILL_PROGRESSION.BASE_POINTS] || 15;
 
-  // Get growth factor for the skill (or default to 0.3)
-  const growthFactor =
-    SKILL_PROGRESSION.GROWTH_FACTOR[skillId as keyof typeof SKILL_PROGRESSION.GROWTH_FACTOR] || 0.3;
+  const growthFactor = getGrowthFactor(skillId, playerClass);
 
   // Formula: basePoints * (1 + growthFactor * (level - 1))
   const points = Math.floor(basePoints * (1 + growthFactor * (level - 1)));
@@ -50,14 +76,19 @@ export function calculatePointsForNextLevel(skillId: string, level: number): num
  * Calculates total experience needed to reach a specific level from level 1
  * @param skillId The skill identifier
  * @param targetLevel The target level to reach
+ * @param playerClass The player's class
  * @returns Total accumulated experience needed
  */
-export function calculateTotalExperienceForLevel(skillId: string, targetLevel: number): number {
+export function calculateTotalExperienceForLevel(
+  skillId: string,
+  targetLevel: number,
+  playerClass: Classes = Classes.NONE
+): number {
   let totalExp = 0;
 
   // Sum experience needed for each level
   for (let level = 1; level < targetLevel; level++) {
-    totalExp += calculatePointsForNextLevel(skillId, level);
+    totalExp += calculatePointsForNextLevel(skillId, level, playerClass);
   }
 
   return totalExp;
@@ -67,11 +98,13 @@ export function calculateTotalExperienceForLevel(skillId: string, targetLevel: n
  * Calculates skill level and experience based on total accumulated experience
  * @param skillId The skill identifier
  * @param totalExperience Total accumulated experience
+ * @param playerClass The player's class
  * @returns Object with level, current experience toward next level, and points needed for next level
  */
 export function calculateLevelFromExperience(
   skillId: string,
-  totalExperience: number
+  totalExperience: number,
+  playerClass: Classes = Classes.NONE
 ): {
   level: number;
   currentExp: number;
@@ -82,7 +115,7 @@ export function calculateLevelFromExperience(
 
   // Keep advancing level while we have enough experience
   while (level < SKILL_PROGRESSION.MAX_LEVEL) {
-    const expNeeded = calculatePointsForNextLevel(skillId, level);
+    const expNeeded = calculatePointsForNextLevel(skillId, level, playerClass);
 
     if (remainingExp < expNeeded) {
       break;
@@ -94,7 +127,9 @@ export function calculateLevelFromExperience(
 
   // Calculate experience needed for next level
   const expForNextLevel =
-    level < SKILL_PROGRESSION.MAX_LEVEL ? calculatePointsForNextLevel(skillId, level) : 0;
+    level < SKILL_PROGRESSION.MAX_LEVEL
+      ? calculatePointsForNextLevel(skillId, level, playerClass)
+      : 0;
 
   return {
     level,
@@ -108,12 +143,14 @@ export function calculateLevelFromExperience(
  * @param skill Current skill data
  * @param skillId The skill identifier
  * @param experienceGained New experience points gained
+ * @param playerClass The player's class
  * @returns Updated skill data and whether a level-up occurred
  */
 export function updateSkillWithExperience(
   skill: SkillData,
   skillId: string,
-  experienceGained: number
+  experienceGained: number,
+  playerClass: Classes = Classes.NONE
 ): {
   updatedSkill: SkillData;
   leveledUp: boolean;
@@ -122,11 +159,15 @@ export function updateSkillWithExperience(
 
   // Calculate total accumulated experience
   const totalPreviousExp =
-    calculateTotalExperienceForLevel(skillId, skill.level) + skill.experience;
+    calculateTotalExperienceForLevel(skillId, skill.level, playerClass) + skill.experience;
   const totalNewExp = totalPreviousExp + experienceGained;
 
   // Get new level from total experience
-  const { level, currentExp, expForNextLevel } = calculateLevelFromExperience(skillId, totalNewExp);
+  const { level, currentExp, expForNextLevel } = calculateLevelFromExperience(
+    skillId,
+    totalNewExp,
+    playerClass
+  );
 
   // Determine if a level-up occurred
   const leveledUp = level > oldLevel;
@@ -149,11 +190,13 @@ export function updateSkillWithExperience(
  * This is useful for debugging or UI displays showing progression
  * @param skillId The skill identifier
  * @param maxLevel Maximum level to calculate
+ * @param playerClass The player's class
  * @returns Table of level and experience requirements
  */
 export function generateExperienceTable(
   skillId: string,
-  maxLevel: number = 20
+  maxLevel: number = 20,
+  playerClass: Classes = Classes.NONE
 ): Array<{
   level: number;
   expForLevel: number;
@@ -170,8 +213,8 @@ export function generateExperienceTable(
 
   // Calculate for remaining levels
   for (let level = 2; level <= maxLevel; level++) {
-    const expForLevel = calculatePointsForNextLevel(skillId, level - 1);
-    const totalExp = calculateTotalExperienceForLevel(skillId, level);
+    const expForLevel = calculatePointsForNextLevel(skillId, level - 1, playerClass);
+    const totalExp = calculateTotalExperienceForLevel(skillId, level, playerClass);
 
     table.push({
       level,
@@ -2,8 +2,42 @@
 // CENTRALIZED DAMAGE & DAMAGE REDUCTION FORMULAS
 // ============================================================================
 
-import { PlayerCharacterEquipment, MonsterAttackType } from "@/types";
+import {
+  PlayerCharacterEquipment,
+  MonsterAttackType,
+  DamageType,
+  DamageResistances,
+  CombatRoll,
+  CombatRollChances,
+  PlayerCharacterSkills,
+  PlayerDamageComponents,
+  DamageMitigation,
+  DamageBreakdown,
+  PlayerDamageTaken,
+} from "@/types";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { RandomService, RandomStream } from "@/services/RandomService";
+
+// Highest resistance the player can reach against any damage type
+export const MAX_PLAYER_RESISTANCE = 75;
+
+// Auto attack timing: base cooldown reduced by 50ms per attack speed point, with a floor
+export const PLAYER_BASE_ATTACK_COOLDOWN = 2000;
+export const PLAYER_MIN_ATTACK_COOLDOWN = 200;
+export const MONSTER_ATTACK_COOLDOWN = 2000;
+
+// Combat roll tuning, all chances in percent
+export const BASE_HIT_CHANCE = 90;
+export const MIN_HIT_CHANCE = 50;
+export const BASE_CRIT_CHANCE = 5;
+export const MAX_CRIT_CHANCE = 50;
+export const BASE_CRIT_MULTIPLIER = 1.5;
+export const MAX_DODGE_CHANCE = 40;
+export const MONSTER_CRIT_CHANCE = 5;
+
+// Archers fumble shots at targets standing next to them
+export const ARCHERY_ADJACENT_DISTANCE = 48; // About 1.5 tiles
+export const ARCHERY_ADJACENT_MISS_CHANCE = 0.25;
 
 /**
  * Centralized damage calculation formulas for the game.
@@ -29,13 +63,11 @@ export class DamageFormulas {
     skills: any, // Accept any to handle the store's generic skills type
     weaponType: string
   ): number {
-    const totalPower = this.calculateTotalPower(equipment);
-    const skillValue = this.getSkillValueForWeaponType(skills, weaponType);
-    const playerLevel = skills.playerLevel?.level || 1;
-
-    const powerComponent = totalPower * 0.75; // Unchanged - primary factor
-    const skillComponent = skillValue * 0.2; // Increased from 0.15
-    const levelComponent = playerLevel * 0.05; // Reduced from 0.10
+    const { powerComponent, skillComponent, levelComponent } = this.getPlayerDamageComponents(
+      equipment,
+      skills,
+      weaponType
+    );
 
     const totalDamage = powerComponent + skillComponent + levelComponent;
     return Math.max(1, Math.round(totalDamage));
@@ -57,18 +89,192 @@ export class DamageFormulas {
     skills: any, // Accept any to handle the store's generic skills type
     weaponType: string
   ): number {
+    const { powerComponent, skillComponent, levelComponent } = this.getPlayerDamageComponents(
+      equipment,
+      skills,
+      weaponType
+    );
+
+    const bonusDamage = powerComponent + skillComponent + levelComponent;
+    const totalDamage = baseDamage + bonusDamage;
+
+    return Math.max(1, Math.round(totalDamage));
+  }
+
+  /**
+   * Split player damage into its power, skill and level contributions (unrounded).
+   * Shared by auto-attack and ability damage so breakdowns always match the hit.
+   *
+   * @param equipment Player's equipment
+   * @param skills Player's skills (will be cast to proper type)
+   * @param weaponType Type of weapon/skill ("melee", "archery", "magic")
+   */
+  static getPlayerDamageComponents(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills,
+    weaponType: string
+  ): PlayerDamageComponents {
     const totalPower = this.calculateTotalPower(equipment);
     const skillValue = this.getSkillValueForWeaponType(skills, weaponType);
     const playerLevel = skills.playerLevel?.level || 1;
 
-    const powerComponent = totalPower * 0.75; // Unchanged - primary factor
-    const skillComponent = skillValue * 0.2; // Increased from 0.15
-    const levelComponent = playerLevel * 0.05; // Reduced from 0.10
+    return {
+      powerComponent: totalPower * 0.75, // Unchanged - primary factor
+      skillComponent: skillValue * 0.2, // Increased from 0.15
+      levelComponent: playerLevel * 0.05, // Reduced from 0.10
+    };
+  }
 
-    const bonusDamage = powerComponent + skillComponent + levelComponent;
-    const totalDamage = baseDamage + bonusDamage;
+  /**
+   * Calculate player auto attack cooldown
+   * Formula: 2000 - ((Attack Speed - 1) × 50), minimum 200ms
+   *
+   * @param totalAttackSpeed Total attack speed from calculated stats
+   * @returns Cooldown between auto attacks in milliseconds
+   */
+  static calculatePlayerAttackCooldown(totalAttackSpeed: number): number {
+    const cooldown = PLAYER_BASE_ATTACK_COOLDOWN - (totalAttackSpeed - 1) * 50;
+    return Math.max(PLAYER_MIN_ATTACK_COOLDOWN, cooldown);
+  }
 
-    return Math.max(1, Math.round(totalDamage));
+  // ============================================================================
+  // COMBAT ROLLS
+  // ============================================================================
+
+  /**
+   * Calculate player hit chance
+   * Formula: 90 + (Skill Value × 0.2) + Accuracy, between 50 and 100
+   */
+  static calculatePlayerHitChance(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills,
+    weaponType: string
+  ): number {
+    const skillValue = this.getSkillValueForWeaponType(skills, weaponType);
+    const accuracy = this.calculateTotalItemStat(equipment, "accuracy");
+
+    const hitChance = BASE_HIT_CHANCE + skillValue * 0.2 + accuracy;
+    return Math.min(100, Math.max(MIN_HIT_CHANCE, hitChance));
+  }
+
+  /**
+   * Calculate player critical strike chance
+   * Formula: 5 + (Skill Value × 0.1) + Crit Chance, capped at 50
+   */
+  static calculatePlayerCritChance(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills,
+    weaponType: string
+  ): number {
+    const skillValue = this.getSkillValueForWeaponType(skills, weaponType);
+    const critChance = this.calculateTotalItemStat(equipment, "critChance");
+
+    return Math.min(MAX_CRIT_CHANCE, BASE_CRIT_CHANCE + skillValue * 0.1 + critChance);
+  }
+
+  /**
+   * Calculate player critical strike multiplier
+   * Formula: 1.5 + (Crit Damage / 100)
+   */
+  static calculatePlayerCritMultiplier(equipment: PlayerCharacterEquipment): number {
+    return BASE_CRIT_MULTIPLIER + this.calculateTotalItemStat(equipment, "critDamage") / 100;
+  }
+
+  /**
+   * Calculate player dodge chance against monster attacks
+   * Formula: (Player Level × 0.2) + Dodge, capped at 40
+   */
+  static calculatePlayerDodgeChance(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills
+  ): number {
+    const playerLevel = skills.playerLevel?.level || 1;
+    const dodge = this.calculateTotalItemStat(equipment, "dodge");
+
+    return Math.min(MAX_DODGE_CHANCE, playerLevel * 0.2 + dodge);
+  }
+
+  /**
+   * Roll chances for a player auto attack against a monster (monsters don't dodge)
+   */
+  static getPlayerAttackRollChances(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills,
+    weaponType: string
+  ): CombatRollChances {
+    return {
+      hitChance: this.calculatePlayerHitChance(equipment, skills, weaponType),
+      critChance: this.calculatePlayerCritChance(equipment, skills, weaponType),
+      critMultiplier: this.calculatePlayerCritMultiplier(equipment),
+      dodgeChance: 0,
+    };
+  }
+
+  /**
+   * Roll chances for a monster attack against the player
+   */
+  static getMonsterAttackRollChances(
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills
+  ): CombatRollChances {
+    return {
+      hitChance: 100,
+      critChance: MONSTER_CRIT_CHANCE,
+      critMultiplier: BASE_CRIT_MULTIPLIER,
+      dodgeChance: this.calculatePlayerDodgeChance(equipment, skills),
+    };
+  }
+
+  /**
+   * Roll chances for a monster attack against a hired companion
+   */
+  static getMonsterAttackRollChancesAgainstCompanion(dodgeChance: number): CombatRollChances {
+    return {
+      hitChance: 100,
+      critChance: MONSTER_CRIT_CHANCE,
+      critMultiplier: BASE_CRIT_MULTIPLIER,
+      dodgeChance: Math.min(MAX_DODGE_CHANCE, dodgeChance),
+    };
+  }
+
+  /**
+   * Roll chances for a companion attack against a monster (monsters don't dodge)
+   */
+  static getCompanionAttackRollChances(): CombatRollChances {
+    return {
+      hitChance: BASE_HIT_CHANCE,
+      critChance: BASE_CRIT_CHANCE,
+      critMultiplier: BASE_CRIT_MULTIPLIER,
+      dodgeChance: 0,
+    };
+  }
+
+  /**
+   * Roll an attack: hit chance first, then the defender's dodge, then critical strike
+   */
+  static rollAttack(
+    chances: CombatRollChances,
+    random: RandomStream = RandomService.stream("combat")
+  ): CombatRoll {
+    if (!random.chance(chances.hitChance / 100)) {
+      return { outcome: "miss", damageMultiplier: 0 };
+    }
+    if (random.chance(chances.dodgeChance / 100)) {
+      return { outcome: "dodge", damageMultiplier: 0 };
+    }
+    if (random.chance(chances.critChance / 100)) {
+      return { outcome: "critical", damageMultiplier: chances.critMultiplier };
+    }
+
+    return { outcome: "hit", damageMultiplier: 1 };
+  }
+
+  /**
+   * Apply a combat roll to raw damage (before armor and resistances)
+   */
+  static applyCombatRoll(damage: number, roll: CombatRoll): number {
+    if (roll.damageMultiplier <= 0) return 0;
+    return Math.max(1, Math.round(damage * roll.damageMultiplier));
   }
 
   // ============================================================================
@@ -158,6 +364,132 @@ export class DamageFormulas {
     return Math.max(1, finalDamage); // Always deal at least 1 damage
   }
 
+  /**
+   * Get the elemental damage multiplier for a damage type
+   * Formula: 1 - (Resistance % / 100), resistance clamped to -100..100
+   *
+   * @param damageType Type of the incoming damage
+   * @param resistances Target's resistances (+) and weaknesses (-) in percent
+   * @returns Damage multiplier (e.g. 0.75 for 25% resistance, 1.5 for 50% weakness)
+   */
+  static getElementalMultiplier(
+    damageType: DamageType = DamageType.PHYSICAL,
+    resistances?: DamageResistances
+  ): number {
+    const resistance = resistances?.[damageType] || 0;
+    const clampedResistance = Math.max(-100, Math.min(100, resistance));
+    return 1 - clampedResistance / 100;
+  }
+
+  /**
+   * Apply elemental resistance or weakness to incoming damage
+   *
+   * @param incomingDamage Raw damage amount
+   * @param damageType Type of the incoming damage
+   * @param resistances Target's resistances (+) and weaknesses (-) in percent
+   * @returns Damage after the elemental modifier (minimum 1)
+   */
+  static applyElementalModifier(
+    incomingDamage: number,
+    damageType: DamageType = DamageType.PHYSICAL,
+    resistances?: DamageResistances
+  ): number {
+    const multiplier = this.getElementalMultiplier(damageType, resistances);
+    return Math.max(1, Math.round(incomingDamage * multiplier));
+  }
+
+  /**
+   * Apply a target's elemental modifier and then its armor, keeping each step.
+   * Same result as applyElementalModifier followed by applyDamageReduction.
+   *
+   * @param incomingDamage Damage before the target's defenses
+   * @param damageReduction Target's armor reduction
+   * @param isMagicDamage Whether this is magic damage (bypasses armor)
+   * @param damageType Type of the incoming damage
+   * @param resistances Target's resistances (+) and weaknesses (-) in percent
+   */
+  static calculateMitigation(
+    incomingDamage: number,
+    damageReduction: number,
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL,
+    resistances?: DamageResistances
+  ): DamageMitigation {
+    const elementalMultiplier = this.getElementalMultiplier(damageType, resistances);
+    const elementalDamage = this.applyElementalModifier(incomingDamage, damageType, resistances);
+    const finalDamage = this.applyDamageReduction(elementalDamage, damageReduction, isMagicDamage);
+
+    return {
+      elementalMultiplier,
+      elementalDamage,
+      armorReduction: elementalDamage - finalDamage,
+      finalDamage,
+    };
+  }
+
+  /**
+   * Breakdown for damage that doesn't scale with player stats (flat ability damage,
+   * monster spells): the amount is the base and only the target's defenses apply
+   *
+   * @param baseDamage Damage before the target's defenses
+   * @param mitigation What the target's defenses did to it
+   */
+  static createFlatDamageBreakdown(
+    baseDamage: number,
+    mitigation: DamageMitigation,
+    damageType: DamageType = DamageType.PHYSICAL,
+    isMagicDamage: boolean = false
+  ): DamageBreakdown {
+    return {
+      baseDamage,
+      powerComponent: 0,
+      skillComponent: 0,
+      levelComponent: 0,
+      rawDamage: baseDamage,
+      critMultiplier: 1,
+      killBonusPercent: 0,
+      killBonusDamage: 0,
+      elementalMultiplier: mitigation.elementalMultiplier,
+      armorReduction: mitigation.armorReduction,
+      damageType,
+      isMagic: isMagicDamage,
+      finalDamage: mitigation.finalDamage,
+    };
+  }
+
+  /**
+   * Breakdown for a monster attack or spell that hit the player
+   *
+   * @param baseDamage Monster's (or spell's) base damage
+   * @param monsterLevel Monster's level, as passed to calculateMonsterDamage
+   * @param critMultiplier Damage multiplier of a critical hit, 1 otherwise
+   * @param taken What the player's defenses did to the hit
+   */
+  static createMonsterHitBreakdown(
+    baseDamage: number,
+    monsterLevel: number,
+    critMultiplier: number,
+    taken: PlayerDamageTaken,
+    damageType: DamageType = DamageType.PHYSICAL,
+    isMagicDamage: boolean = false
+  ): DamageBreakdown {
+    return {
+      baseDamage,
+      powerComponent: 0,
+      skillComponent: 0,
+      levelComponent: monsterLevel * 0.5,
+      rawDamage: this.calculateMonsterDamage(baseDamage, monsterLevel),
+      critMultiplier,
+      killBonusPercent: taken.killBonusPercent,
+      killBonusDamage: taken.killBonusDamage,
+      elementalMultiplier: taken.elementalMultiplier,
+      armorReduction: taken.armorReduction,
+      damageType,
+      isMagic: isMagicDamage,
+      finalDamage: taken.finalDamage,
+    };
+  }
+
   // ============================================================================
   // HELPER FUNCTIONS
   // ============================================================================
@@ -198,6 +530,25 @@ export class DamageFormulas {
     return totalArmor;
   }
 
+  /**
+   * Sum a percent-based combat stat across all equipped items
+   */
+  static calculateTotalItemStat(
+    equipment: PlayerCharacterEquipment,
+    stat: "critChance" | "critDamage" | "accuracy" | "dodge"
+  ): number {
+    let total = 0;
+
+    Object.values(equipment).forEach((itemInstance) => {
+      if (!itemInstance) return;
+
+      const itemData = ItemInstanceManager.getCombinedStats(itemInstance);
+      total += itemData?.[stat] || 0;
+    });
+
+    return total;
+  }
+
   /**
    * Get skill value based on weapon type
    */
@@ -251,13 +602,18 @@ export class DamageFormulas {
   static calculatePlayerAutoAttackFinalDamage(
     equipment: PlayerCharacterEquipment,
     skills: any,
-    targetArmor: number
+    targetArmor: number,
+    targetResistances?: DamageResistances
   ): number {
     const weaponType = this.getEquippedWeaponType(equipment);
+    const damageType = equipment.weapon
+      ? ItemInstanceManager.getCombinedStats(equipment.weapon)?.damageType
+      : undefined;
     const rawDamage = this.calculatePlayerAutoAttackDamage(equipment, skills, weaponType);
+    const elementalDamage = this.applyElementalModifier(rawDamage, damageType, targetResistances);
     const damageReduction = this.calculateMonsterDamageReduction(targetArmor);
 
-    return this.applyDamageReduction(rawDamage, damageReduction, false);
+    return this.applyDamageReduction(elementalDamage, damageReduction, false);
   }
 
   /**
@@ -268,31 +624,60 @@ export class DamageFormulas {
     equipment: PlayerCharacterEquipment,
     skills: any,
     abilitySkillId: string,
-    targetArmor: number
+    targetArmor: number,
+    damageType?: DamageType,
+    targetResistances?: DamageResistances
   ): number {
     const weaponType = this.getWeaponTypeFromSkillId(abilitySkillId);
     const rawDamage = this.calculatePlayerAbilityDamage(baseDamage, equipment, skills, weaponType);
+    const elementalDamage = this.applyElementalModifier(rawDamage, damageType, targetResistances);
     const isMagic = this.isMagicDamage(undefined, abilitySkillId);
     const damageReduction = this.calculateMonsterDamageReduction(targetArmor);
 
-    return this.applyDamageReduction(rawDamage, damageReduction, isMagic);
+    return this.applyDamageReduction(elementalDamage, damageReduction, isMagic);
   }
 
   /**
    * Calculate final damage taken by player
+   * Elemental resistances apply first (capped at MAX_PLAYER_RESISTANCE), then armor
    */
   static calculatePlayerDamageTaken(
     incomingDamage: number,
     equipment: PlayerCharacterEquipment,
     skills: any,
-    isMagicDamage: boolean = false
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL,
+    resistances?: DamageResistances
   ): number {
-    if (isMagicDamage) {
-      return Math.max(1, incomingDamage);
-    }
+    return this.calculatePlayerDamageTakenMitigation(
+      incomingDamage,
+      equipment,
+      skills,
+      isMagicDamage,
+      damageType,
+      resistances
+    ).finalDamage;
+  }
 
-    const damageReduction = this.calculatePlayerDamageReduction(equipment, skills);
-    return this.applyDamageReduction(incomingDamage, damageReduction, isMagicDamage);
+  /**
+   * Each step of calculatePlayerDamageTaken, for damage breakdowns
+   */
+  static calculatePlayerDamageTakenMitigation(
+    incomingDamage: number,
+    equipment: PlayerCharacterEquipment,
+    skills: PlayerCharacterSkills,
+    isMagicDamage: boolean = false,
+    damageType: DamageType = DamageType.PHYSICAL,
+    resistances?: DamageResistances
+  ): DamageMitigation {
+    const resistance = Math.min(MAX_PLAYER_RESISTANCE, resistances?.[damageType] || 0);
+    const damageReduction = isMagicDamage
+      ? 0
+      : this.calculatePlayerDamageReduction(equipment, skills);
+
+    return this.calculateMitigation(incomingDamage, damageReduction, isMagicDamage, damageType, {
+      [damageType]: resistance,
+    });
   }
 
   /**